@@ -0,0 +1,109 @@
+import { readFile } from 'fs/promises';
+import * as jsyaml from 'js-yaml';
+import { extname, resolve } from 'path';
+import { parseArgs } from 'util';
+import { OpenAPIObject } from '../../interfaces';
+import {
+  DocumentChange,
+  DocumentDiff
+} from '../../interfaces/document-diff.interface';
+import { diffDocuments } from '../../utils/diff-documents.util';
+
+export const DIFF_COMMAND_USAGE = `Usage: nestjs-openapi-next diff <old-document> <new-document> [options]
+
+Options:
+  -f, --format <fmt>    "text" or "json" (default: "text")
+  --fail-on-breaking    Exit with code 1 when breaking changes are detected
+  -h, --help            Show this message`;
+
+export interface DiffCommandOptions {
+  oldDocument: string;
+  newDocument: string;
+  format: 'text' | 'json';
+  failOnBreaking: boolean;
+}
+
+export function parseDiffCommandArgs(
+  argv: string[]
+): DiffCommandOptions | undefined {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    options: {
+      format: { type: 'string', short: 'f', default: 'text' },
+      'fail-on-breaking': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h' }
+    },
+    allowPositionals: true,
+    strict: true
+  });
+
+  if (values.help) {
+    return undefined;
+  }
+  if (positionals.length !== 2) {
+    throw new Error('Expected exactly two document paths to compare.');
+  }
+  if (values.format !== 'text' && values.format !== 'json') {
+    throw new Error(
+      `Unsupported format "${values.format}". Expected "text" or "json".`
+    );
+  }
+  return {
+    oldDocument: positionals[0],
+    newDocument: positionals[1],
+    format: values.format,
+    failOnBreaking: values['fail-on-breaking']
+  };
+}
+
+export function formatDocumentDiff(diff: DocumentDiff): string {
+  if (diff.breaking.length === 0 && diff.nonBreaking.length === 0) {
+    return 'No changes detected.';
+  }
+  const formatSection = (title: string, changes: DocumentChange[]) =>
+    [
+      `${title} (${changes.length}):`,
+      ...changes.map(
+        (change) =>
+          `  - [${change.code}] ${change.message} (at "${change.pointer}")`
+      )
+    ].join('\n');
+
+  return [
+    formatSection('Breaking changes', diff.breaking),
+    formatSection('Non-breaking changes', diff.nonBreaking)
+  ].join('\n\n');
+}
+
+export async function runDiffCommand(argv: string[]): Promise<number> {
+  const options = parseDiffCommandArgs(argv);
+  if (!options) {
+    process.stdout.write(`${DIFF_COMMAND_USAGE}\n`);
+    return 0;
+  }
+
+  const diff = diffDocuments(
+    await readDocument(options.oldDocument),
+    await readDocument(options.newDocument)
+  );
+  process.stdout.write(
+    options.format === 'json'
+      ? `${JSON.stringify(diff, null, 2)}\n`
+      : `${formatDocumentDiff(diff)}\n`
+  );
+  return options.failOnBreaking && diff.breaking.length > 0 ? 1 : 0;
+}
+
+async function readDocument(path: string): Promise<OpenAPIObject> {
+  const absolutePath = resolve(process.cwd(), path);
+  const content = await readFile(absolutePath, 'utf8');
+  const extension = extname(absolutePath).toLowerCase();
+  const document =
+    extension === '.yaml' || extension === '.yml'
+      ? jsyaml.load(content)
+      : JSON.parse(content);
+  if (!document || typeof document !== 'object') {
+    throw new Error(`"${absolutePath}" is not an OpenAPI document.`);
+  }
+  return document as OpenAPIObject;
+}
@@ -0,0 +1,176 @@
+import { INestApplication, Type } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { mkdirSync, writeFileSync } from 'fs';
+import { dirname, extname, resolve } from 'path';
+import { parseArgs } from 'util';
+import { DocumentBuilder } from '../../document-builder';
+import { generateTypes } from '../../generators';
+import { OpenAPIObject, SwaggerCliConfig, UiRenderer } from '../../interfaces';
+import { SwaggerModule } from '../../swagger-module';
+import { exportStaticDocs } from '../../utils/export-static-docs.util';
+import {
+  DocumentFormat,
+  serializeDocument
+} from '../../utils/serialize-document.util';
+import { loadModuleExport } from '../load-module-export';
+
+export const GENERATE_COMMAND_USAGE = `Usage: nestjs-openapi-next generate --module <path[#AppModule]> [options]
+
+Options:
+  -m, --module <path>   Application module to scan (defaults to the "AppModule" export)
+  -c, --config <path>   Module exporting "config", "options", "metadata" and/or "configureApp"
+  -o, --output <file>   Output file (default: "openapi.json")
+  -f, --format <fmt>    "json" or "yaml" (default: inferred from the output file extension)
+  -t, --types <file>    Also write TypeScript declarations for "components.schemas"
+  -d, --docs <dir>      Also write the static HTML documentation to a directory
+  --ui <renderer>       "swagger", "redoc", "scalar" or "rapidoc" (default: "swagger")
+  -h, --help            Show this message`;
+
+const UI_RENDERERS: UiRenderer[] = ['swagger', 'redoc', 'scalar', 'rapidoc'];
+
+export interface GenerateCommandOptions {
+  module: string;
+  config?: string;
+  output: string;
+  format: DocumentFormat;
+  types?: string;
+  docs?: string;
+  ui?: UiRenderer;
+}
+
+export function parseGenerateCommandArgs(
+  argv: string[]
+): GenerateCommandOptions | undefined {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      module: { type: 'string', short: 'm' },
+      config: { type: 'string', short: 'c' },
+      output: { type: 'string', short: 'o', default: 'openapi.json' },
+      format: { type: 'string', short: 'f' },
+      types: { type: 'string', short: 't' },
+      docs: { type: 'string', short: 'd' },
+      ui: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    },
+    strict: true
+  });
+
+  if (values.help) {
+    return undefined;
+  }
+  if (!values.module) {
+    throw new Error('The "--module" option is required.');
+  }
+  const format = values.format ?? inferFormat(values.output);
+  if (format !== 'json' && format !== 'yaml') {
+    throw new Error(
+      `Unsupported format "${format}". Expected "json" or "yaml".`
+    );
+  }
+  if (values.ui && !UI_RENDERERS.includes(values.ui as UiRenderer)) {
+    throw new Error(
+      `Unsupported UI "${values.ui}". Expected one of ${UI_RENDERERS.map(
+        (renderer) => `"${renderer}"`
+      ).join(', ')}.`
+    );
+  }
+  return {
+    module: values.module,
+    config: values.config,
+    output: values.output,
+    format,
+    types: values.types,
+    docs: values.docs,
+    ui: values.ui as UiRenderer | undefined
+  };
+}
+
+export async function createDocumentFromModule(
+  moduleRef: Type<unknown>,
+  cliConfig: SwaggerCliConfig = {}
+): Promise<OpenAPIObject> {
+  if (cliConfig.metadata) {
+    await SwaggerModule.loadPluginMetadata(cliConfig.metadata);
+  }
+
+  let app: INestApplication | undefined;
+  try {
+    app = await NestFactory.create(moduleRef, {
+      preview: true,
+      abortOnError: false,
+      logger: ['error', 'warn']
+    });
+    if (cliConfig.configureApp) {
+      await cliConfig.configureApp(app);
+    }
+    const config = await resolveDocumentConfig(cliConfig.config);
+    return SwaggerModule.createDocument(app, config, cliConfig.options);
+  } finally {
+    await app?.close();
+  }
+}
+
+export async function runGenerateCommand(argv: string[]): Promise<number> {
+  const options = parseGenerateCommandArgs(argv);
+  if (!options) {
+    process.stdout.write(`${GENERATE_COMMAND_USAGE}\n`);
+    return 0;
+  }
+
+  const moduleRef = loadModuleExport<Type<unknown>>(
+    options.module,
+    'AppModule'
+  );
+  if (typeof moduleRef !== 'function') {
+    throw new Error(
+      `"${options.module}" does not resolve to a module class. Use the "path#ExportName" notation to select it.`
+    );
+  }
+  const cliConfig = options.config ? loadCliConfig(options.config) : undefined;
+
+  const document = await createDocumentFromModule(moduleRef, cliConfig);
+  const outputPath = resolve(process.cwd(), options.output);
+  mkdirSync(dirname(outputPath), { recursive: true });
+  writeFileSync(
+    outputPath,
+    serializeDocument(document, options.format, { pretty: true })
+  );
+  process.stdout.write(`OpenAPI document written to ${outputPath}\n`);
+
+  if (options.types) {
+    const typesPath = resolve(process.cwd(), options.types);
+    mkdirSync(dirname(typesPath), { recursive: true });
+    writeFileSync(typesPath, generateTypes(document));
+    process.stdout.write(`Type declarations written to ${typesPath}\n`);
+  }
+
+  if (options.docs) {
+    const docsPath = resolve(process.cwd(), options.docs);
+    exportStaticDocs(document, docsPath, { ui: options.ui });
+    process.stdout.write(`Static documentation written to ${docsPath}\n`);
+  }
+  return 0;
+}
+
+function inferFormat(output: string): string {
+  const extension = extname(output).toLowerCase();
+  return extension === '.yaml' || extension === '.yml' ? 'yaml' : 'json';
+}
+
+function loadCliConfig(reference: string): SwaggerCliConfig {
+  const moduleRef = loadModuleExport<Record<string, any>>(reference);
+  return moduleRef.default && typeof moduleRef.default === 'object'
+    ? { ...moduleRef, ...moduleRef.default }
+    : moduleRef;
+}
+
+async function resolveDocumentConfig(
+  config: SwaggerCliConfig['config']
+): Promise<Omit<OpenAPIObject, 'paths'>> {
+  const resolved = typeof config === 'function' ? await config() : config;
+  if (!resolved) {
+    return new DocumentBuilder().build();
+  }
+  return resolved instanceof DocumentBuilder ? resolved.build() : resolved;
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+import { runCli } from './run-cli';
+
+void runCli(process.argv.slice(2)).then((exitCode) => {
+  process.exitCode = exitCode;
+});
@@ -0,0 +1,28 @@
+import { resolve } from 'path';
+
+/**
+ * Loads an export using the `path/to/file#ExportName` notation.
+ * When the export name is omitted, `fallbackExportName` is used if the
+ * module exposes it, otherwise the whole module namespace is returned.
+ */
+export function loadModuleExport<T = any>(
+  reference: string,
+  fallbackExportName?: string
+): T {
+  const [modulePath, exportName] = reference.split('#');
+  const absolutePath = resolve(process.cwd(), modulePath);
+  const moduleRef = require(absolutePath);
+
+  if (exportName) {
+    if (!(exportName in moduleRef)) {
+      throw new Error(
+        `Module "${absolutePath}" does not export a member named "${exportName}".`
+      );
+    }
+    return moduleRef[exportName];
+  }
+  if (fallbackExportName && fallbackExportName in moduleRef) {
+    return moduleRef[fallbackExportName];
+  }
+  return moduleRef;
+}
@@ -0,0 +1,43 @@
+import { runDiffCommand } from './commands/diff.command';
+import { runGenerateCommand } from './commands/generate.command';
+
+type CommandHandler = (argv: string[]) => Promise<number>;
+
+const COMMANDS: Record<string, CommandHandler> = {
+  generate: runGenerateCommand,
+  diff: runDiffCommand
+};
+
+const USAGE = `Usage: nestjs-openapi-next <command> [options]
+
+Commands:
+${Object.keys(COMMANDS)
+  .map((name) => `  ${name}`)
+  .join('\n')}
+
+Run "nestjs-openapi-next <command> --help" for command specific options.`;
+
+/**
+ * Runs the CLI and resolves with the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  const [commandName, ...commandArgs] = argv;
+  if (!commandName || commandName === '--help' || commandName === '-h') {
+    process.stdout.write(`${USAGE}\n`);
+    return commandName ? 0 : 1;
+  }
+
+  const command = COMMANDS[commandName];
+  if (!command) {
+    process.stderr.write(`Unknown command "${commandName}".\n\n${USAGE}\n`);
+    return 1;
+  }
+
+  try {
+    return await command(commandArgs);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`${message}\n`);
+    return 1;
+  }
+}
@@ -20,5 +20,18 @@ export const DECORATORS = {
   API_EXTENSION: `${DECORATORS_PREFIX}/apiExtension`,
   API_SCHEMA: `${DECORATORS_PREFIX}/apiSchema`,
   API_DEFAULT_GETTER: `${DECORATORS_PREFIX}/apiDefaultGetter`,
-  API_LINK: `${DECORATORS_PREFIX}/apiLink`
+  API_LINK: `${DECORATORS_PREFIX}/apiLink`,
+  API_VISIBILITY: `${DECORATORS_PREFIX}/apiVisibility`
 };
+
+/**
+ * Marks the schema properties and parameters decorated with `@ApiVisibility()`
+ * until the audience filter of the document strips it.
+ */
+export const API_VISIBILITY_EXTENSION = 'x-api-visibility';
+
+/**
+ * Marks the discriminators emitted by `@ApiPolymorphic()`, whose mapping
+ * targets get a `const` discriminator value in OAS 3.1+ documents.
+ */
+export const API_POLYMORPHIC_EXTENSION = 'x-api-polymorphic';
@@ -0,0 +1,41 @@
+import { Type } from '@nestjs/common';
+import {
+  GenericType,
+  GenericTypeArgument,
+  GenericTypeOptions
+} from '../type-helpers/generic-type.helper';
+import {
+  ApiResponse,
+  ApiResponseNoStatusOptions
+} from './api-response.decorator';
+
+export type ApiGenericResponseOptions = Omit<
+  ApiResponseNoStatusOptions,
+  'type' | 'schema'
+> &
+  GenericTypeOptions & {
+    /**
+     * @default 200
+     */
+    status?: number | 'default' | '1XX' | '2XX' | '3XX' | '4XX' | '5XX';
+  };
+
+/**
+ * Shorthand for `@ApiResponse({ type: GenericType(classRef, typeArguments) })`.
+ *
+ * @example ApiGenericResponse(Paginated, { items: CatDto })
+ *
+ * @publicApi
+ */
+export function ApiGenericResponse(
+  classRef: Type<unknown>,
+  typeArguments: Record<string, GenericTypeArgument>,
+  options: ApiGenericResponseOptions = {}
+): MethodDecorator & ClassDecorator {
+  const { name, status = 200, ...responseOptions } = options;
+  return ApiResponse({
+    ...responseOptions,
+    status,
+    type: GenericType(classRef, typeArguments, { name })
+  });
+}
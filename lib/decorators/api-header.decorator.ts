@@ -2,9 +2,15 @@ import { isNil, isUndefined, negate, pickBy } from 'lodash';
 import { DECORATORS } from '../constants';
 import {
   ParameterLocation,
-  ParameterObject
+  ParameterObject,
+  ReferenceObject
 } from '../interfaces/open-api-spec.interface';
 import { SwaggerEnumType } from '../types/swagger-enum.type';
+import {
+  isReferenceObject,
+  toComponentRef,
+  toComponentRefs
+} from '../utils/component-ref.util';
 import { getEnumType, getEnumValues } from '../utils/enum.utils';
 import { createClassDecorator, createParamDecorator } from './helpers';
 
@@ -17,18 +23,24 @@ const defaultHeaderOptions: Partial<ApiHeaderOptions> = {
 };
 
 /**
+ * Documents a request header. Pass `ref('XRequestId')` (or `{ $ref: 'XRequestId' }`)
+ * to reference a parameter registered with `DocumentBuilder.addComponentParameter()`.
+ *
  * @publicApi
  */
 export function ApiHeader(
-  options: ApiHeaderOptions
+  options: ApiHeaderOptions | ReferenceObject
 ): MethodDecorator & ClassDecorator {
+  if (isReferenceObject(options)) {
+    return applyHeaderParam(toComponentRef('parameters', options), {});
+  }
   const param = pickBy<ApiHeaderOptions & { in: ParameterLocation }>(
     {
       name: isNil(options.name) ? defaultHeaderOptions.name : options.name,
       in: 'header',
       description: options.description,
       required: options.required,
-      examples: options.examples,
+      examples: toComponentRefs('examples', options.examples),
       schema: {
         type: 'string',
         ...(options.schema || {})
@@ -46,17 +58,20 @@ export function ApiHeader(
     };
   }
 
+  return applyHeaderParam(param, defaultHeaderOptions);
+}
+
+function applyHeaderParam(
+  param: Record<string, any>,
+  initial: Partial<ApiHeaderOptions>
+): MethodDecorator & ClassDecorator {
   return (
     target: object | Function,
     key?: string | symbol,
     descriptor?: TypedPropertyDescriptor<any>
   ): any => {
     if (descriptor) {
-      return createParamDecorator(param, defaultHeaderOptions)(
-        target,
-        key,
-        descriptor
-      );
+      return createParamDecorator(param, initial)(target, key, descriptor);
     }
     return createClassDecorator(DECORATORS.API_HEADERS, [param])(
       target as Function
@@ -65,7 +80,7 @@ export function ApiHeader(
 }
 
 export const ApiHeaders = (
-  headers: ApiHeaderOptions[]
+  headers: Array<ApiHeaderOptions | ReferenceObject>
 ): MethodDecorator & ClassDecorator => {
   return (
     target: object | Function,
@@ -0,0 +1,220 @@
+import { Type } from '@nestjs/common';
+import { HeadersObject } from '../interfaces/open-api-spec.interface';
+import { GenericType } from '../type-helpers/generic-type.helper';
+import { ApiProperty } from './api-property.decorator';
+import { ApiQuery } from './api-query.decorator';
+import {
+  ApiResponse,
+  ApiResponseNoStatusOptions
+} from './api-response.decorator';
+
+export type ApiPaginationStyle = 'offset' | 'cursor' | 'page';
+
+export type ApiPaginatedResponseOptions = Omit<
+  ApiResponseNoStatusOptions,
+  'type' | 'schema'
+> & {
+  /**
+   * `'offset'`: `limit`/`offset` query parameters.
+   * `'cursor'`: `cursor`/`limit` query parameters.
+   * `'page'`: `page`/`pageSize` query parameters.
+   * @default 'offset'
+   */
+  style?: ApiPaginationStyle;
+  /**
+   * Name of the generated wrapper schema.
+   * @default style prefix followed by the item schema name, e.g. "OffsetPaginatedCatDto"
+   */
+  name?: string;
+  /**
+   * Upper bound documented for `limit`/`pageSize`.
+   */
+  maxPageSize?: number;
+  /**
+   * Set to `false` to leave the `Link` and `X-Total-Count` response headers
+   * out of the response.
+   * @default true
+   */
+  paginationHeaders?: boolean;
+  /**
+   * @default 200
+   */
+  status?: number | '2XX';
+};
+
+class OffsetPaginated<T> {
+  @ApiProperty({ isArray: true })
+  items: T[];
+
+  @ApiProperty({ type: 'integer', minimum: 0 })
+  total: number;
+
+  @ApiProperty({ type: 'integer', minimum: 1 })
+  limit: number;
+
+  @ApiProperty({ type: 'integer', minimum: 0 })
+  offset: number;
+}
+
+class CursorPaginated<T> {
+  @ApiProperty({ isArray: true })
+  items: T[];
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Cursor of the next page, `null` on the last page'
+  })
+  nextCursor: string | null;
+}
+
+class PagePaginated<T> {
+  @ApiProperty({ isArray: true })
+  items: T[];
+
+  @ApiProperty({ type: 'integer', minimum: 0 })
+  total: number;
+
+  @ApiProperty({ type: 'integer', minimum: 1 })
+  page: number;
+
+  @ApiProperty({ type: 'integer', minimum: 1 })
+  pageSize: number;
+
+  @ApiProperty({ type: 'integer', minimum: 0 })
+  totalPages: number;
+}
+
+const WRAPPERS: Record<ApiPaginationStyle, Type<unknown>> = {
+  offset: OffsetPaginated,
+  cursor: CursorPaginated,
+  page: PagePaginated
+};
+
+/**
+ * Documents a paginated list endpoint: the response is a wrapper schema
+ * (built with `GenericType()`) holding the `items` and the pagination state,
+ * the query parameters of the pagination style are added to the operation and
+ * the `Link` (and, except for cursors, `X-Total-Count`) response headers are
+ * documented.
+ *
+ * @example ApiPaginatedResponse(CatDto, { style: 'cursor' })
+ *
+ * @publicApi
+ */
+export function ApiPaginatedResponse(
+  itemType: Type<unknown> | Function,
+  options: ApiPaginatedResponseOptions = {}
+): MethodDecorator & ClassDecorator {
+  const {
+    style = 'offset',
+    name,
+    maxPageSize,
+    paginationHeaders = true,
+    status = 200,
+    headers,
+    ...responseOptions
+  } = options;
+  const responseHeaders = {
+    ...(paginationHeaders ? getPaginationHeaders(style) : {}),
+    ...headers
+  };
+  const decorators = [
+    ApiResponse({
+      ...responseOptions,
+      status,
+      type: GenericType(WRAPPERS[style], { items: itemType }, { name }),
+      ...(Object.keys(responseHeaders).length > 0
+        ? { headers: responseHeaders }
+        : {})
+    }),
+    ...getPaginationQueries(style, maxPageSize)
+  ];
+
+  return (
+    target: object | Function,
+    key?: string | symbol,
+    descriptor?: TypedPropertyDescriptor<any>
+  ): any => {
+    decorators.forEach((decorator) =>
+      decorator(target as Function & object, key, descriptor)
+    );
+    return descriptor;
+  };
+}
+
+function getPaginationQueries(
+  style: ApiPaginationStyle,
+  maxPageSize: number | undefined
+): Array<MethodDecorator & ClassDecorator> {
+  const sizeSchema = {
+    type: 'integer',
+    minimum: 1,
+    ...(maxPageSize !== undefined ? { maximum: maxPageSize } : {})
+  };
+  switch (style) {
+    case 'cursor':
+      return [
+        ApiQuery({
+          name: 'cursor',
+          required: false,
+          description: 'Cursor returned as `nextCursor` by the previous page',
+          schema: { type: 'string' }
+        }),
+        ApiQuery({
+          name: 'limit',
+          required: false,
+          description: 'Maximum number of items to return',
+          schema: sizeSchema
+        })
+      ];
+    case 'page':
+      return [
+        ApiQuery({
+          name: 'page',
+          required: false,
+          description: 'Page number, starting at 1',
+          schema: { type: 'integer', minimum: 1 }
+        }),
+        ApiQuery({
+          name: 'pageSize',
+          required: false,
+          description: 'Number of items per page',
+          schema: sizeSchema
+        })
+      ];
+    default:
+      return [
+        ApiQuery({
+          name: 'limit',
+          required: false,
+          description: 'Maximum number of items to return',
+          schema: sizeSchema
+        }),
+        ApiQuery({
+          name: 'offset',
+          required: false,
+          description: 'Number of items to skip',
+          schema: { type: 'integer', minimum: 0 }
+        })
+      ];
+  }
+}
+
+function getPaginationHeaders(style: ApiPaginationStyle): HeadersObject {
+  return {
+    Link: {
+      description:
+        'Links to the related pages (RFC 8288), e.g. `<https://api.example.com/cats?cursor=abc>; rel="next"`',
+      schema: { type: 'string' }
+    },
+    ...(style === 'cursor'
+      ? {}
+      : {
+          'X-Total-Count': {
+            description: 'Total number of items',
+            schema: { type: 'integer', minimum: 0 }
+          }
+        })
+  };
+}
@@ -0,0 +1,109 @@
+import { Type } from '@nestjs/common';
+import { API_POLYMORPHIC_EXTENSION } from '../constants';
+import { SchemaObject } from '../interfaces/open-api-spec.interface';
+import { getSchemaPath } from '../utils/get-schema-path.util';
+import { ApiBody } from './api-body.decorator';
+import { ApiExtraModels } from './api-extra-models.decorator';
+import { ApiProperty, ApiPropertyOptions } from './api-property.decorator';
+import { ApiResponse, ApiResponseOptions } from './api-response.decorator';
+
+export interface ApiPolymorphicSubType {
+  /**
+   * Value of the discriminator property identifying this subtype.
+   */
+  value: string;
+  type: Type<unknown> | Function;
+}
+
+export interface ApiPolymorphicOptions {
+  /**
+   * Name of the discriminator property shared by every subtype.
+   */
+  property: string;
+  subTypes: ApiPolymorphicSubType[];
+  /**
+   * If `true`, the schema describes an array of subtypes.
+   */
+  isArray?: boolean;
+  description?: string;
+  /**
+   * Whether the property or request body is required.
+   * @default true
+   */
+  required?: boolean;
+  /**
+   * Where the union applies when the decorator is used on a method.
+   * @default 'body'
+   */
+  in?: 'body' | 'response';
+  /**
+   * Response status, when `in` is `'response'`.
+   * @default 200
+   */
+  status?: ApiResponseOptions['status'];
+}
+
+/**
+ * Describes a discriminated union of DTOs on a property, a request body or a
+ * response. The subtypes are registered as extra models and referenced
+ * through `oneOf` together with a `discriminator.mapping`.
+ *
+ * For OAS 3.1+ documents, each subtype's discriminator property also gets a
+ * `const` holding its discriminator value.
+ *
+ * @publicApi
+ */
+export function ApiPolymorphic(
+  options: ApiPolymorphicOptions
+): PropertyDecorator & MethodDecorator {
+  const union = getPolymorphicSchema(options);
+  const schema: SchemaObject = options.isArray
+    ? { type: 'array', items: union }
+    : union;
+  const models = options.subTypes.map((subType) => subType.type);
+
+  return (
+    target: object,
+    key?: string | symbol,
+    descriptor?: TypedPropertyDescriptor<any>
+  ): any => {
+    if (descriptor) {
+      ApiExtraModels(...models)(target, key, descriptor);
+      if (options.in === 'response') {
+        return ApiResponse({
+          status: options.status ?? 200,
+          description: options.description,
+          schema
+        })(target, key, descriptor);
+      }
+      return ApiBody({
+        description: options.description,
+        required: options.required ?? true,
+        schema
+      })(target, key, descriptor);
+    }
+
+    ApiExtraModels(...models)(target.constructor);
+    ApiProperty({
+      ...(options.isArray ? schema : { type: 'object', ...union }),
+      description: options.description,
+      required: options.required ?? true
+    } as ApiPropertyOptions)(target, key);
+  };
+}
+
+function getPolymorphicSchema({
+  property,
+  subTypes
+}: ApiPolymorphicOptions): SchemaObject {
+  return {
+    oneOf: subTypes.map((subType) => ({ $ref: getSchemaPath(subType.type) })),
+    discriminator: {
+      propertyName: property,
+      mapping: Object.fromEntries(
+        subTypes.map((subType) => [subType.value, getSchemaPath(subType.type)])
+      ),
+      [API_POLYMORPHIC_EXTENSION]: true
+    } as SchemaObject['discriminator']
+  };
+}
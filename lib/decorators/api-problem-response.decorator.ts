@@ -0,0 +1,158 @@
+import { HttpException, Type } from '@nestjs/common';
+import { STATUS_CODES } from 'http';
+import { removeUndefinedKeys } from '../utils/remove-undefined-keys';
+import { ApiProperty } from './api-property.decorator';
+import { ApiSchema } from './api-schema.decorator';
+import { ApiResponse, ApiResponseOptions } from './api-response.decorator';
+
+export const PROBLEM_DETAILS_MEDIA_TYPE = 'application/problem+json';
+
+/**
+ * RFC 9457 Problem Details object. Extend it to document extension members:
+ *
+ * @example class ValidationProblem extends ProblemDetails { @ApiProperty() errors: string[] }
+ *
+ * @publicApi
+ */
+@ApiSchema({ description: 'Problem Details for HTTP APIs (RFC 9457)' })
+export class ProblemDetails {
+  @ApiProperty({
+    required: false,
+    format: 'uri-reference',
+    default: 'about:blank',
+    description: 'URI reference identifying the problem type'
+  })
+  type?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Short, human-readable summary of the problem type'
+  })
+  title?: string;
+
+  @ApiProperty({
+    required: false,
+    type: 'integer',
+    minimum: 100,
+    maximum: 599,
+    description: 'HTTP status code generated by the origin server'
+  })
+  status?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Human-readable explanation specific to this occurrence'
+  })
+  detail?: string;
+
+  @ApiProperty({
+    required: false,
+    format: 'uri-reference',
+    description: 'URI reference identifying this occurrence of the problem'
+  })
+  instance?: string;
+}
+
+export type ApiProblemStatus =
+  | number
+  | 'default'
+  | '4XX'
+  | '5XX'
+  | Type<HttpException>;
+
+export interface ApiProblemResponseOptions {
+  /**
+   * URI reference identifying the problem type.
+   * @default 'about:blank'
+   */
+  type?: string;
+  /**
+   * Summary of the problem type.
+   * @default the reason phrase of the status code, e.g. "Not Found"
+   */
+  title?: string;
+  /**
+   * @default the title
+   */
+  description?: string;
+  /**
+   * Subclass of `ProblemDetails` declaring extension members.
+   * @default ProblemDetails
+   */
+  model?: Type<ProblemDetails>;
+}
+
+/**
+ * Documents an RFC 9457 `application/problem+json` error response whose body
+ * is a `ProblemDetails` object. The status may be given as one of Nest's
+ * built-in exceptions (e.g. `NotFoundException`).
+ *
+ * @example ApiProblemResponse(409, { type: 'https://example.com/problems/duplicate-cat', title: 'Duplicate cat' })
+ *
+ * @publicApi
+ */
+export function ApiProblemResponse(
+  status: ApiProblemStatus,
+  options: ApiProblemResponseOptions = {}
+): MethodDecorator & ClassDecorator {
+  return ApiResponse(createProblemResponseOptions(status, options));
+}
+
+/**
+ * Documents a Problem Details response for each of the `HttpException`
+ * subclasses a handler (or every handler of a controller) throws.
+ *
+ * @example ApiThrows(NotFoundException, ConflictException)
+ *
+ * @publicApi
+ */
+export function ApiThrows(
+  ...exceptions: Type<HttpException>[]
+): MethodDecorator & ClassDecorator {
+  const decorators = exceptions.map((exception) =>
+    ApiProblemResponse(exception)
+  );
+  return (
+    target: object | Function,
+    key?: string | symbol,
+    descriptor?: TypedPropertyDescriptor<any>
+  ): any => {
+    decorators.forEach((decorator) =>
+      decorator(target as Function & object, key, descriptor)
+    );
+    return descriptor ?? target;
+  };
+}
+
+export function createProblemResponseOptions(
+  status: ApiProblemStatus,
+  options: ApiProblemResponseOptions = {}
+): ApiResponseOptions {
+  const code =
+    typeof status === 'function' ? getExceptionStatus(status) : status;
+  const title =
+    options.title ??
+    (typeof code === 'number' ? STATUS_CODES[code] : undefined);
+  return {
+    status: code,
+    description: options.description ?? title,
+    type: options.model ?? ProblemDetails,
+    example: removeUndefinedKeys({
+      type: options.type ?? 'about:blank',
+      title,
+      status: typeof code === 'number' ? code : undefined
+    }),
+    // Marker understood by ResponseObjectFactory
+    contentType: PROBLEM_DETAILS_MEDIA_TYPE
+  } as ApiResponseOptions;
+}
+
+function getExceptionStatus(exception: Type<HttpException>): number {
+  try {
+    return new exception().getStatus();
+  } catch {
+    throw new Error(
+      `Cannot infer the status code of "${exception.name}". Pass the status code to @ApiProblemResponse() instead.`
+    );
+  }
+}
@@ -7,6 +7,11 @@ import {
   SchemaObject
 } from '../interfaces/open-api-spec.interface';
 import { SwaggerEnumType } from '../types/swagger-enum.type';
+import {
+  isReferenceObject,
+  toComponentRef,
+  toComponentRefs
+} from '../utils/component-ref.util';
 import {
   addEnumArraySchema,
   addEnumSchema,
@@ -53,11 +58,17 @@ const defaultQueryOptions = {
 };
 
 /**
+ * Documents a query parameter. Pass `ref('PageSize')` (or `{ $ref: 'PageSize' }`)
+ * to reference a parameter registered with `DocumentBuilder.addComponentParameter()`.
+ *
  * @publicApi
  */
 export function ApiQuery(
-  options: ApiQueryOptions
+  options: ApiQueryOptions | ReferenceObject
 ): MethodDecorator & ClassDecorator {
+  if (isReferenceObject(options)) {
+    return createParamDecorator(toComponentRef('parameters', options), {});
+  }
   const apiQueryMetadata = options as ApiQueryMetadata;
   const [type, isArray] = getTypeIsArrayTuple(
     apiQueryMetadata.type,
@@ -68,6 +79,9 @@ export function ApiQuery(
     name: 'name' in options ? options.name : defaultQueryOptions.name,
     in: 'query',
     ...omit(options, 'enum'),
+    ...(options.examples
+      ? { examples: toComponentRefs('examples', options.examples) }
+      : {}),
     type
   };
 
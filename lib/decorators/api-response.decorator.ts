@@ -6,6 +6,11 @@ import {
   ResponseObject,
   SchemaObject
 } from '../interfaces/open-api-spec.interface';
+import {
+  isReferenceObject,
+  toComponentRef,
+  toComponentRefs
+} from '../utils/component-ref.util';
 import { getTypeIsArrayTuple } from './helpers';
 
 type ApiResponseExampleValue = any;
@@ -27,7 +32,7 @@ export interface ApiResponseCommonMetadata extends Omit<
 export type ApiResponseMetadata =
   | (ApiResponseCommonMetadata & { example?: ApiResponseExampleValue })
   | (ApiResponseCommonMetadata & {
-      examples?: { [key: string]: ApiResponseExamples };
+      examples?: { [key: string]: ApiResponseExamples | ReferenceObject };
     });
 
 export interface ApiResponseSchemaHost extends Omit<
@@ -41,12 +46,20 @@ export interface ApiResponseSchemaHost extends Omit<
 
 export type ApiResponseOptions = ApiResponseMetadata | ApiResponseSchemaHost;
 
+/**
+ * Reference to a response registered with `DocumentBuilder.addComponentResponse()`,
+ * e.g. `{ status: 404, ...ref('NotFound') }`.
+ */
+export interface ApiResponseReferenceOptions extends ReferenceObject {
+  status?: number | 'default' | '1XX' | '2XX' | '3XX' | '4XX' | '5XX';
+}
+
 export type ApiResponseNoStatusOptions =
   | (Omit<ApiResponseCommonMetadata, 'status'> & {
       example?: ApiResponseExampleValue;
     })
   | (Omit<ApiResponseCommonMetadata, 'status'> & {
-      examples?: { [key: string]: ApiResponseExamples };
+      examples?: { [key: string]: ApiResponseExamples | ReferenceObject };
     })
   | Omit<ApiResponseSchemaHost, 'status'>;
 
@@ -54,21 +67,13 @@ export type ApiResponseNoStatusOptions =
  * @publicApi
  */
 export function ApiResponse(
-  options: ApiResponseOptions,
+  options: ApiResponseOptions | ApiResponseReferenceOptions,
   { overrideExisting } = { overrideExisting: true }
 ): MethodDecorator & ClassDecorator {
-  const apiResponseMetadata = options as ApiResponseMetadata;
-  const [type, isArray] = getTypeIsArrayTuple(
-    apiResponseMetadata.type,
-    apiResponseMetadata.isArray
-  );
-
-  apiResponseMetadata.type = type;
-  apiResponseMetadata.isArray = isArray;
-  options.description = options.description ? options.description : '';
-
   const groupedMetadata = {
-    [options.status || 'default']: omit(options, 'status')
+    [options.status || 'default']: isReferenceObject(options)
+      ? toComponentRef('responses', { $ref: options.$ref })
+      : createResponseMetadata(options)
   };
   return (
     target: object,
@@ -110,6 +115,25 @@ export function ApiResponse(
   };
 }
 
+function createResponseMetadata(options: ApiResponseOptions) {
+  const apiResponseMetadata = options as ApiResponseMetadata;
+  const [type, isArray] = getTypeIsArrayTuple(
+    apiResponseMetadata.type,
+    apiResponseMetadata.isArray
+  );
+
+  apiResponseMetadata.type = type;
+  apiResponseMetadata.isArray = isArray;
+  options.description = options.description ? options.description : '';
+  if (options.headers) {
+    options.headers = toComponentRefs('headers', options.headers);
+  }
+  if ('examples' in options && options.examples) {
+    options.examples = toComponentRefs('examples', options.examples);
+  }
+  return omit(options, 'status');
+}
+
 interface HttpStatusInfo {
   code: number;
   functionName: string;
@@ -117,7 +141,7 @@ interface HttpStatusInfo {
 
 const decorators: {
   [key: string]: (
-    options?: ApiResponseNoStatusOptions
+    options?: ApiResponseNoStatusOptions | ReferenceObject
   ) => MethodDecorator & ClassDecorator;
 } = {};
 
@@ -139,7 +163,7 @@ const statusList: HttpStatusInfo[] = Object.keys(HttpStatus)
 
 statusList.forEach(({ code, functionName }) => {
   decorators[functionName] = function (
-    options: ApiResponseNoStatusOptions = {}
+    options: ApiResponseNoStatusOptions | ReferenceObject = {}
   ) {
     return ApiResponse({
       ...options,
@@ -0,0 +1,44 @@
+import { API_VISIBILITY_EXTENSION, DECORATORS } from '../constants';
+import { createPropertyDecorator } from './helpers';
+
+export type ApiVisibilityAudience =
+  | 'internal'
+  | 'partner'
+  | 'public'
+  | (string & {});
+
+/**
+ * Restricts a controller, an operation or a DTO property to the documents
+ * generated for the given audience(s) (see the `audience` document option).
+ * Elements without `@ApiVisibility()` are visible to every audience, and
+ * method-level visibility takes precedence over the controller one.
+ *
+ * @publicApi
+ */
+export function ApiVisibility(
+  visibility: ApiVisibilityAudience | ApiVisibilityAudience[]
+) {
+  const audiences = Array.isArray(visibility) ? visibility : [visibility];
+
+  return (
+    target: object | Function,
+    key?: string | symbol,
+    descriptor?: TypedPropertyDescriptor<any>
+  ): any => {
+    if (descriptor) {
+      Reflect.defineMetadata(
+        DECORATORS.API_VISIBILITY,
+        audiences,
+        descriptor.value
+      );
+      return descriptor;
+    }
+    if (key !== undefined) {
+      return createPropertyDecorator(DECORATORS.API_MODEL_PROPERTIES, {
+        [API_VISIBILITY_EXTENSION]: audiences
+      })(target, key as string);
+    }
+    Reflect.defineMetadata(DECORATORS.API_VISIBILITY, audiences, target);
+    return target;
+  };
+}
@@ -6,6 +6,7 @@ export * from './api-cookie.decorator';
 export * from './api-default-getter.decorator';
 export * from './api-exclude-endpoint.decorator';
 export * from './api-exclude-controller.decorator';
+export * from './api-visibility.decorator';
 export * from './api-extra-models.decorator';
 export * from './api-header.decorator';
 export * from './api-hide-property.decorator';
@@ -32,3 +33,13 @@ export * from './api-tag-group.decorator';
 export * from './api-callbacks.decorator';
 export * from './api-extension.decorator';
 export * from './api-schema.decorator';
+export * from './api-polymorphic.decorator';
+export * from './api-generic-response.decorator';
+export * from './api-paginated-response.decorator';
+export {
+  ApiProblemResponse,
+  ApiProblemResponseOptions,
+  ApiProblemStatus,
+  ApiThrows,
+  ProblemDetails
+} from './api-problem-response.decorator';
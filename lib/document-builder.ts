@@ -1,19 +1,36 @@
 import { Logger } from '@nestjs/common';
 import { clone, isString, isUndefined, negate, omit, pickBy } from 'lodash';
+import {
+  createProblemResponseOptions,
+  PROBLEM_DETAILS_MEDIA_TYPE,
+  ProblemDetails
+} from './decorators/api-problem-response.decorator';
 import { ApiResponseOptions } from './decorators/api-response.decorator';
 import { buildDocumentBase } from './fixtures/document.base';
-import { OpenAPIObject } from './interfaces';
+import { OpenAPIObject, ProblemDetailsOptions } from './interfaces';
 import {
+  ComponentsObject,
+  ExampleObject,
   ExtensionLocation,
   ExternalDocumentationObject,
+  HeaderObject,
   ParameterObject,
+  ResponseObject,
   SecurityRequirementObject,
   SecuritySchemeObject,
   ServerVariableObject,
   TagObject
 } from './interfaces/open-api-spec.interface';
+import { ModelPropertiesAccessor } from './services/model-properties-accessor';
+import { SchemaObjectFactory } from './services/schema-object-factory';
+import { SwaggerTypesMapper } from './services/swagger-types-mapper';
 import { GlobalParametersStorage } from './storages/global-parameters.storage';
 import { GlobalResponsesStorage } from './storages/global-responses.storage';
+import {
+  ReusableComponentType,
+  toComponentRefs
+} from './utils/component-ref.util';
+import { getSchemaPath } from './utils/get-schema-path.util';
 
 /**
  * @publicApi
@@ -227,6 +244,32 @@ export class DocumentBuilder {
     return this;
   }
 
+  public addComponentParameter(name: string, parameter: ParameterObject): this {
+    return this.addComponent('parameters', name, {
+      ...parameter,
+      ...(parameter.examples
+        ? { examples: toComponentRefs('examples', parameter.examples) }
+        : {})
+    });
+  }
+
+  public addComponentResponse(name: string, response: ResponseObject): this {
+    return this.addComponent('responses', name, {
+      ...response,
+      ...(response.headers
+        ? { headers: toComponentRefs('headers', response.headers) }
+        : {})
+    });
+  }
+
+  public addComponentHeader(name: string, header: HeaderObject): this {
+    return this.addComponent('headers', name, header);
+  }
+
+  public addComponentExample(name: string, example: ExampleObject): this {
+    return this.addComponent('examples', name, example);
+  }
+
   public addGlobalResponse(...respones: ApiResponseOptions[]): this {
     const groupedByStatus = respones.reduce(
       (acc, response) => {
@@ -241,6 +284,38 @@ export class DocumentBuilder {
     return this;
   }
 
+  public useProblemDetails(options: ProblemDetailsOptions = {}): this {
+    const schemas = {};
+    new SchemaObjectFactory(
+      new ModelPropertiesAccessor(),
+      new SwaggerTypesMapper()
+    ).exploreModelSchema(ProblemDetails, schemas);
+
+    this.document.components.schemas = {
+      ...(this.document.components.schemas || {}),
+      ...schemas
+    };
+    this.document.components.responses = {
+      ...(this.document.components.responses || {}),
+      ProblemDetails: {
+        description: 'Problem Details (RFC 9457)',
+        content: {
+          [PROBLEM_DETAILS_MEDIA_TYPE]: {
+            schema: { $ref: getSchemaPath(ProblemDetails) }
+          }
+        }
+      }
+    };
+    if (options.statuses?.length) {
+      this.addGlobalResponse(
+        ...options.statuses.map((status) =>
+          createProblemResponseOptions(status)
+        )
+      );
+    }
+    return this;
+  }
+
   public addGlobalParameters(
     // Examples should be specified under the "schema" object
     // Top level attributes are ignored
@@ -344,4 +419,14 @@ export class DocumentBuilder {
   public build(): Omit<OpenAPIObject, 'paths'> {
     return this.document;
   }
+
+  private addComponent<T extends ReusableComponentType>(
+    type: T,
+    name: string,
+    component: NonNullable<ComponentsObject[T]>[string]
+  ): this {
+    const components: ComponentsObject = this.document.components;
+    components[type] = { ...components[type], [name]: component };
+    return this;
+  }
 }
@@ -0,0 +1,137 @@
+import { Type } from '@nestjs/common';
+import { ApplicationConfig } from '@nestjs/core';
+import { omit } from 'lodash';
+import { DECORATORS } from '../constants';
+import { ApiProperty, ApiResponseOptions, ApiSchema } from '../decorators';
+import { getTypeIsArrayTuple } from '../decorators/helpers';
+import { SchemaObject } from '../interfaces/open-api-spec.interface';
+import { ErrorResponseMappings } from '../interfaces/swagger-document-options.interface';
+import { FactoriesNeededByResponseFactory } from '../services/response-object-factory';
+import { GlobalResponsesStorage } from '../storages/global-responses.storage';
+import {
+  getEnhancerClassNames,
+  getRouteEnhancers,
+  RouteEnhancer
+} from '../utils/get-route-enhancers.util';
+import { mapResponsesToSwaggerResponses } from './api-response.explorer';
+
+@ApiSchema({
+  description: 'Error returned by `ValidationPipe` for an invalid request'
+})
+class ValidationErrorResponse {
+  @ApiProperty({ type: 'integer', example: 400 })
+  statusCode: number;
+
+  @ApiProperty({
+    type: [String],
+    example: ['name must be a string'],
+    description: 'Constraint violations'
+  })
+  message: string[];
+
+  @ApiProperty({ example: 'Bad Request' })
+  error: string;
+}
+
+export const exploreInferredErrorResponsesMetadata = (
+  schemas: Record<string, SchemaObject>,
+  factories: FactoriesNeededByResponseFactory,
+  mappings: ErrorResponseMappings,
+  instance: object,
+  prototype: Type<unknown>,
+  method: Function,
+  metatype: Type<unknown>,
+  globalPrefix: string | undefined,
+  modulePath: string | undefined,
+  applicationConfig: ApplicationConfig
+) => {
+  const { guards, pipes, filters } = getRouteEnhancers(
+    metatype,
+    method,
+    applicationConfig
+  );
+  const inferred = [
+    ...guards.flatMap((guard) =>
+      inferErrorResponses(guard, mappings, getDefaultGuardResponses)
+    ),
+    ...pipes.flatMap((pipe) =>
+      inferErrorResponses(pipe, mappings, getDefaultPipeResponses)
+    ),
+    ...filters.flatMap((filter) =>
+      inferErrorResponses(filter, mappings, () => [])
+    )
+  ];
+
+  // Responses declared with `@ApiResponse()` (on the controller or globally)
+  // take precedence over the inferred ones
+  const declared = {
+    ...GlobalResponsesStorage.getAll(),
+    ...Reflect.getMetadata(DECORATORS.API_RESPONSE, metatype)
+  };
+  const responses = inferred.reduce(
+    (acc, response) => {
+      const status = response.status ?? 'default';
+      if (status in declared) {
+        return acc;
+      }
+      const [type, isArray] = getTypeIsArrayTuple(
+        (response as any).type,
+        (response as any).isArray
+      );
+      acc[status] = {
+        description: '',
+        ...omit(response, 'status'),
+        ...(type ? { type, isArray } : {})
+      };
+      return acc;
+    },
+    {} as Record<string, Omit<ApiResponseOptions, 'status'>>
+  );
+  if (Object.keys(responses).length === 0) {
+    return undefined;
+  }
+  return mapResponsesToSwaggerResponses(
+    responses,
+    schemas,
+    undefined,
+    factories
+  );
+};
+
+function inferErrorResponses(
+  enhancer: RouteEnhancer,
+  mappings: ErrorResponseMappings,
+  getDefaults: (classNames: string[]) => ApiResponseOptions[]
+): ApiResponseOptions[] {
+  const classNames = getEnhancerClassNames(enhancer);
+  const mappedName = classNames.find((name) => name in mappings);
+  if (mappedName) {
+    const mapping = mappings[mappedName];
+    return Array.isArray(mapping) ? mapping : [mapping];
+  }
+  return getDefaults(classNames);
+}
+
+function getDefaultGuardResponses(classNames: string[]): ApiResponseOptions[] {
+  const forbidden = { status: 403, description: 'Forbidden' };
+  // Matches `AuthGuard('jwt')` of `@nestjs/passport` (`MixinAuthGuard`) and
+  // its subclasses, e.g. `JwtAuthGuard`
+  return classNames.some((name) => name.endsWith('AuthGuard'))
+    ? [{ status: 401, description: 'Unauthorized' }, forbidden]
+    : [forbidden];
+}
+
+function getDefaultPipeResponses(classNames: string[]): ApiResponseOptions[] {
+  if (classNames.includes('ValidationPipe')) {
+    return [
+      {
+        status: 400,
+        description: 'Validation failed',
+        type: ValidationErrorResponse
+      }
+    ];
+  }
+  return classNames.some((name) => /^Parse\w*Pipe$/.test(name))
+    ? [{ status: 400, description: 'Bad Request' }]
+    : [];
+}
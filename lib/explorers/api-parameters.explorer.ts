@@ -11,6 +11,7 @@ import { ParametersMetadataMapper } from '../services/parameters-metadata-mapper
 import { SchemaObjectFactory } from '../services/schema-object-factory';
 import { SwaggerTypesMapper } from '../services/swagger-types-mapper';
 import { GlobalParametersStorage } from '../storages/global-parameters.storage';
+import { isReferenceObject } from '../utils/component-ref.util';
 
 const parameterMetadataAccessor = new ParameterMetadataAccessor();
 const modelPropertiesAccessor = new ModelPropertiesAccessor();
@@ -29,10 +30,17 @@ export const exploreApiParametersMetadata = (
   prototype: Type<unknown>,
   method: Function
 ) => {
-  const explicitParameters: any[] = Reflect.getMetadata(
+  const decoratedParameters: any[] = Reflect.getMetadata(
     DECORATORS.API_PARAMETERS,
     method
   );
+  // References to reusable parameters are emitted as is
+  const referenceParameters = (decoratedParameters || []).filter(
+    isReferenceObject
+  );
+  const explicitParameters = decoratedParameters?.filter(
+    (parameter) => !isReferenceObject(parameter)
+  );
   const globalParameters = GlobalParametersStorage.getAll();
   const parametersMetadata = parameterMetadataAccessor.explore(
     instance,
@@ -73,8 +81,11 @@ export const exploreApiParametersMetadata = (
     properties,
     schemas
   );
-  const parameters = swaggerTypesMapper.mapParamTypes(paramsWithDefinitions);
-  return parameters ? { parameters } : undefined;
+  const parameters = [
+    ...swaggerTypesMapper.mapParamTypes(paramsWithDefinitions),
+    ...referenceParameters
+  ];
+  return { parameters };
 };
 
 function removeBodyMetadataIfExplicitExists(
@@ -106,7 +106,7 @@ const getStatusCode = (method: Function) => {
 };
 
 const omitParamType = (param: Record<string, any>) => omit(param, 'type');
-const mapResponsesToSwaggerResponses = (
+export const mapResponsesToSwaggerResponses = (
   responses: ApiResponseMetadata[] | Record<string, ApiResponseMetadata>,
   schemas: Record<string, SchemaObject>,
   produces: string[] = ['application/json'],
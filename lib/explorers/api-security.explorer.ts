@@ -1,5 +1,12 @@
 import { Type } from '@nestjs/common';
+import { ApplicationConfig } from '@nestjs/core';
 import { DECORATORS } from '../constants';
+import { SecurityRequirementObject } from '../interfaces/open-api-spec.interface';
+import { SecurityResolvers } from '../interfaces/swagger-document-options.interface';
+import {
+  getEnhancerClassNames,
+  getRouteEnhancers
+} from '../utils/get-route-enhancers.util';
 
 export const exploreGlobalApiSecurityMetadata = (metatype: Type<unknown>) => {
   const security = Reflect.getMetadata(DECORATORS.API_SECURITY, metatype);
@@ -13,3 +20,54 @@ export const exploreApiSecurityMetadata = (
 ) => {
   return Reflect.getMetadata(DECORATORS.API_SECURITY, method);
 };
+
+export const exploreInferredApiSecurityMetadata = (
+  resolvers: SecurityResolvers,
+  publicMetadataKeys: Array<string | symbol>,
+  instance: object,
+  prototype: Type<unknown>,
+  method: Function,
+  metatype: Type<unknown>,
+  globalPrefix: string | undefined,
+  modulePath: string | undefined,
+  applicationConfig: ApplicationConfig
+) => {
+  // `@ApiSecurity()` on the handler always wins
+  if (Reflect.getMetadata(DECORATORS.API_SECURITY, method)) {
+    return undefined;
+  }
+  const isPublic = publicMetadataKeys.some(
+    (key) =>
+      Reflect.getMetadata(key, method) ?? Reflect.getMetadata(key, metatype)
+  );
+  // Returned as part of the operation root so that the empty array survives
+  // the merge and overrides both controller and document level requirements
+  if (isPublic) {
+    return { security: [] };
+  }
+  if (Reflect.getMetadata(DECORATORS.API_SECURITY, metatype)) {
+    return undefined;
+  }
+  const { guards } = getRouteEnhancers(metatype, method, applicationConfig);
+  const security = guards.reduce<SecurityRequirementObject[] | undefined>(
+    (requirements, guard) => {
+      const resolverName = getEnhancerClassNames(guard).find(
+        (name) => name in resolvers
+      );
+      if (!resolverName) {
+        return requirements;
+      }
+      const resolver = resolvers[resolverName];
+      const resolved = Array.isArray(resolver) ? resolver : [resolver];
+      // Every guard has to pass: combine each alternative of the previous
+      // guards with each alternative of this one
+      return requirements
+        ? requirements.flatMap((requirement) =>
+            resolved.map((alternative) => ({ ...requirement, ...alternative }))
+          )
+        : resolved;
+    },
+    undefined
+  );
+  return security ? { security } : undefined;
+};
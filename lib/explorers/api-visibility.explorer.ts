@@ -0,0 +1,9 @@
+import { Type } from '@nestjs/common';
+import { DECORATORS } from '../constants';
+
+export const exploreApiVisibilityMetadata = (
+  metatype: Type<unknown>,
+  method: object
+): string[] | undefined =>
+  Reflect.getMetadata(DECORATORS.API_VISIBILITY, method) ??
+  Reflect.getMetadata(DECORATORS.API_VISIBILITY, metatype);
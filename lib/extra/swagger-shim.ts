@@ -262,12 +262,68 @@ export function PartialType() {
 export function PickType() {
   return class {};
 }
+export function GenericType() {
+  return class {};
+}
 export function getSchemaPath() {
   return () => '';
 }
 export function refs() {
   return [];
 }
+export function validateDocument() {
+  return [];
+}
+export class DocumentValidationError extends Error {}
+export function diffDocuments() {
+  return { breaking: [], nonBreaking: [] };
+}
+export function ApiPolymorphic() {
+  return () => {};
+}
+export function ApiGenericResponse() {
+  return () => {};
+}
+export function ApiPaginatedResponse() {
+  return () => {};
+}
+export function ApiProblemResponse() {
+  return () => {};
+}
+export function ApiThrows() {
+  return () => {};
+}
+export function ApiVisibility() {
+  return () => {};
+}
+export class ProblemDetails {}
+export class OpenApiValidationInterceptor {
+  intercept() {}
+}
+export class OpenApiResponseValidationInterceptor {
+  intercept() {}
+}
+export function createMockServer() {
+  return {};
+}
+export function generateClient() {
+  return '';
+}
+export function generateTypes() {
+  return '';
+}
+export function ref() {
+  return {};
+}
+export function deduplicateInlineSchemas() {
+  return [];
+}
+export function dereference(document: unknown) {
+  return document;
+}
+export function exportStaticDocs() {
+  return [];
+}
 export function before() {
   return () => '';
 }
@@ -0,0 +1,457 @@
+import { OpenAPIObject } from '../interfaces';
+import { GenerateClientOptions } from '../interfaces/generate-client-options.interface';
+import {
+  MediaTypeObject,
+  OperationObject,
+  ParameterObject,
+  PathItemObject,
+  ReferenceObject,
+  RequestBodyObject,
+  ResponseObject
+} from '../interfaces/open-api-spec.interface';
+import { OPERATION_METHODS } from '../utils/for-each-operation.util';
+import { resolveJsonPointer } from '../utils/json-pointer.util';
+import {
+  getSchemaIdentifiers,
+  renderBanner,
+  renderDocComment,
+  renderSchemaDeclarations,
+  renderSchemaType,
+  SchemaIdentifiers,
+  toIdentifier,
+  toPropertyKey,
+  uniqueName
+} from './typescript-schema';
+
+type ParameterLocation = 'path' | 'query' | 'header';
+
+const PARAMETER_LOCATIONS: ParameterLocation[] = ['path', 'query', 'header'];
+const JSON_MEDIA_TYPE = /^application\/(.+\+)?json(;|$)/i;
+
+/**
+ * Top-level identifiers declared by `RUNTIME` and the webhook declarations.
+ * The internal ones are prefixed with `__` so that they cannot clash with the
+ * names of the operations.
+ */
+const RUNTIME_IDENTIFIERS = [
+  'ClientConfig',
+  'ApiError',
+  'configureClient',
+  'WebhookHandlers',
+  '__clientConfig',
+  '__RequestArgs',
+  '__send',
+  '__readBody',
+  '__readStream',
+  '__parseItem'
+];
+
+const RUNTIME = String.raw`export interface ClientConfig {
+  /** Prepended to every operation path. */
+  baseUrl?: string;
+  /** Headers sent with every request (e.g. "Authorization"). */
+  headers?: Record<string, string>;
+  /** Defaults to the global "fetch". */
+  fetch?: typeof fetch;
+}
+
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Sets the configuration shared by every operation. */
+export function configureClient(config: ClientConfig): void {
+  __clientConfig = { ...__clientConfig, ...config };
+}
+
+interface __RequestArgs {
+  path?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  header?: Record<string, unknown>;
+  body?: unknown;
+}
+
+async function __send(
+  method: string,
+  path: string,
+  args: __RequestArgs,
+  bodyMediaType: string | undefined,
+  config: ClientConfig | undefined
+): Promise<Response> {
+  const { baseUrl = '', headers = {}, fetch: fetchImpl = fetch } = {
+    ...__clientConfig,
+    ...config
+  };
+  let url =
+    baseUrl.replace(/\/+$/, '') +
+    path.replace(/\{([^}]+)\}/g, (_, name: string) =>
+      encodeURIComponent(String(args.path?.[name]))
+    );
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(args.query ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        search.append(
+          name,
+          typeof item === 'object' ? JSON.stringify(item) : String(item)
+        );
+      }
+    }
+  }
+  if (search.toString()) {
+    url += '?' + search.toString();
+  }
+  const requestHeaders: Record<string, string> = { ...headers };
+  for (const [name, value] of Object.entries(args.header ?? {})) {
+    if (value !== undefined && value !== null) {
+      requestHeaders[name] = String(value);
+    }
+  }
+  let body: BodyInit | undefined;
+  if (args.body !== undefined && bodyMediaType) {
+    if (/json/i.test(bodyMediaType)) {
+      body = JSON.stringify(args.body);
+      requestHeaders['content-type'] = bodyMediaType;
+    } else if (bodyMediaType === 'application/x-www-form-urlencoded') {
+      body = new URLSearchParams(args.body as Record<string, string>);
+    } else {
+      body = args.body as BodyInit;
+      if (bodyMediaType !== 'multipart/form-data') {
+        requestHeaders['content-type'] = bodyMediaType;
+      }
+    }
+  }
+  const response = await fetchImpl(url, {
+    method,
+    headers: requestHeaders,
+    body
+  });
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      await __readBody(response),
+      method + ' ' + path + ' failed with status ' + response.status
+    );
+  }
+  return response;
+}
+
+async function __readBody(response: Response): Promise<unknown> {
+  const contentType = response.headers.get('content-type') ?? '';
+  if (response.status === 204) {
+    return undefined;
+  }
+  if (/json/i.test(contentType)) {
+    const text = await response.text();
+    return text ? JSON.parse(text) : undefined;
+  }
+  return !contentType || /^text\//i.test(contentType)
+    ? response.text()
+    : response.blob();
+}
+
+async function* __readStream<T>(
+  response: Promise<Response>,
+  mediaType: string
+): AsyncGenerator<T, void, undefined> {
+  const { body } = await response;
+  if (!body) {
+    return;
+  }
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const eventStream = mediaType === 'text/event-stream';
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const chunks = buffer.split(eventStream ? /\r?\n\r?\n/ : /\r?\n|\x1e/);
+    buffer = done ? '' : (chunks.pop() ?? '');
+    for (const chunk of chunks) {
+      const data = eventStream
+        ? chunk
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith('data:'))
+            .map((line) => line.slice(5).replace(/^ /, ''))
+            .join('\n')
+        : chunk.trim();
+      if (data) {
+        yield __parseItem(data) as T;
+      }
+    }
+    if (done) {
+      return;
+    }
+  }
+}
+
+function __parseItem(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+`;
+
+/**
+ * Generates the source of a dependency-free TypeScript client for `document`:
+ * one interface or type alias per entry of `components.schemas`, one
+ * `fetch`-based function per operation (named after its `operationId`) and
+ * one handler type per webhook.
+ *
+ * Streaming responses (media types with an `itemSchema`) are exposed as
+ * async iterables, and `query` operations are sent with the `QUERY` method.
+ *
+ * @example writeFileSync('client.ts', generateClient(document))
+ *
+ * @publicApi
+ */
+export function generateClient(
+  document: OpenAPIObject,
+  options: GenerateClientOptions = {}
+): string {
+  const resolve = <T>(value: T | ReferenceObject | undefined): T | undefined =>
+    value && typeof value === 'object' && '$ref' in value
+      ? (resolveJsonPointer(document, value.$ref) as T)
+      : (value as T);
+  const baseUrl = options.baseUrl ?? document.servers?.[0]?.url ?? '';
+
+  const identifiers = getSchemaIdentifiers(document, RUNTIME_IDENTIFIERS);
+  const names = new Set(RUNTIME_IDENTIFIERS);
+  const functions: string[] = [];
+  for (const [path, pathItem] of Object.entries(document.paths || {})) {
+    for (const method of OPERATION_METHODS) {
+      const operation = pathItem[method];
+      if (!operation) {
+        continue;
+      }
+      const name = uniqueName(
+        toIdentifier(operation.operationId || `${method}_${path}`),
+        names
+      );
+      functions.push(
+        renderOperation(
+          name,
+          method,
+          path,
+          pathItem,
+          operation,
+          resolve,
+          identifiers
+        )
+      );
+    }
+  }
+  const webhooks = renderWebhooks(document, resolve, identifiers);
+
+  return [
+    renderBanner(options.banner),
+    renderSchemaDeclarations(document, identifiers),
+    `let __clientConfig: ClientConfig = { baseUrl: ${JSON.stringify(baseUrl)} };\n\n${RUNTIME}`,
+    ...functions,
+    ...(webhooks ? [webhooks] : [])
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
+
+function renderOperation(
+  name: string,
+  method: string,
+  path: string,
+  pathItem: PathItemObject,
+  operation: OperationObject,
+  resolve: <T>(value: T | ReferenceObject | undefined) => T | undefined,
+  identifiers: SchemaIdentifiers
+): string {
+  const parameters = new Map<string, ParameterObject>();
+  for (const item of [
+    ...(pathItem.parameters || []),
+    ...(operation.parameters || [])
+  ]) {
+    const parameter = resolve<ParameterObject>(item);
+    if (parameter && parameter.in !== 'cookie') {
+      parameters.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  }
+
+  const members: Array<{ required: boolean; source: string }> = [];
+  for (const location of PARAMETER_LOCATIONS) {
+    const group = [...parameters.values()].filter(
+      (parameter) => parameter.in === location
+    );
+    if (group.length === 0) {
+      continue;
+    }
+    const required = group.some((parameter) => parameter.required);
+    const properties = group.map((parameter) => {
+      const doc = renderDocComment(
+        [
+          parameter.description,
+          parameter.deprecated ? '@deprecated' : undefined
+        ],
+        '      '
+      );
+      const schema =
+        parameter.schema ?? Object.values(parameter.content || {})[0]?.schema;
+      const optional = parameter.required ? '' : '?';
+      return `${doc}      ${toPropertyKey(parameter.name)}${optional}: ${renderSchemaType(schema, '      ', identifiers)};`;
+    });
+    members.push({
+      required,
+      source: `    ${location}${required ? '' : '?'}: {\n${properties.join('\n')}\n    };`
+    });
+  }
+
+  const requestBody = resolve<RequestBodyObject>(operation.requestBody);
+  const bodyMediaType = requestBody && selectMediaType(requestBody.content);
+  if (bodyMediaType) {
+    const media = requestBody.content[bodyMediaType];
+    const type = bodyMediaType.startsWith('multipart/')
+      ? 'FormData'
+      : renderSchemaType(media.schema, '    ', identifiers);
+    members.push({
+      required: !!requestBody.required,
+      source: `    body${requestBody.required ? '' : '?'}: ${type};`
+    });
+  }
+
+  const argsType =
+    members.length > 0
+      ? `{\n${members.map((member) => member.source).join('\n')}\n  }`
+      : 'Record<string, never>';
+  const argsParameter = members.some((member) => member.required)
+    ? `args: ${argsType}`
+    : `args: ${argsType} = {}`;
+  const doc = renderDocComment([
+    operation.summary,
+    operation.description,
+    operation.deprecated ? '@deprecated' : undefined
+  ]);
+  const signature = `(\n  ${argsParameter},\n  config?: ClientConfig\n)`;
+  const request = `__send(${JSON.stringify(method.toUpperCase())}, ${JSON.stringify(path)}, args, ${JSON.stringify(bodyMediaType)}, config)`;
+
+  const result = renderResult(operation, resolve, identifiers);
+  if (result.stream) {
+    return `${doc}export function ${name}${signature}: AsyncIterable<${result.type}> {\n  return __readStream<${result.type}>(\n    ${request},\n    ${JSON.stringify(result.stream)}\n  );\n}\n`;
+  }
+  const body =
+    result.type === 'void'
+      ? `  await ${request};\n`
+      : `  const response = await ${request};\n  return (await __readBody(response)) as ${result.type};\n`;
+  return `${doc}export async function ${name}${signature}: Promise<${result.type}> {\n${body}}\n`;
+}
+
+function renderWebhooks(
+  document: OpenAPIObject,
+  resolve: <T>(value: T | ReferenceObject | undefined) => T | undefined,
+  identifiers: SchemaIdentifiers
+): string | undefined {
+  const handlers = Object.entries(document.webhooks || {}).flatMap(
+    ([name, pathItem]) => {
+      const operation = OPERATION_METHODS.map(
+        (method) => pathItem[method]
+      ).find(Boolean);
+      if (!operation) {
+        return [];
+      }
+      const requestBody = resolve<RequestBodyObject>(operation.requestBody);
+      const mediaType = requestBody && selectMediaType(requestBody.content);
+      const payload = mediaType
+        ? renderSchemaType(
+            requestBody.content[mediaType].schema,
+            '',
+            identifiers
+          )
+        : 'void';
+      const result = renderResult(operation, resolve, identifiers).type;
+      const typeName = `${toIdentifier(name).replace(/^[a-z]/, (char) => char.toUpperCase())}WebhookHandler`;
+      const doc = renderDocComment([
+        operation.summary,
+        operation.description,
+        operation.deprecated ? '@deprecated' : undefined
+      ]);
+      return [
+        {
+          name,
+          typeName,
+          source: `${doc}export type ${typeName} = (\n  payload: ${payload}\n) => ${result} | Promise<${result}>;\n`
+        }
+      ];
+    }
+  );
+  if (handlers.length === 0) {
+    return undefined;
+  }
+  const members = handlers
+    .map(({ name, typeName }) => `  ${toPropertyKey(name)}?: ${typeName};`)
+    .join('\n');
+  return [
+    ...handlers.map(({ source }) => source),
+    `/** Handlers for the webhooks sent by the API, keyed by webhook name. */\nexport interface WebhookHandlers {\n${members}\n}\n`
+  ].join('\n');
+}
+
+/**
+ * Renders the type resolved by an operation out of its `2XX` responses
+ * (or its `default` response when no `2XX` response is documented).
+ */
+function renderResult(
+  operation: OperationObject,
+  resolve: <T>(value: T | ReferenceObject | undefined) => T | undefined,
+  identifiers: SchemaIdentifiers
+): { type: string; stream?: string } {
+  const responses = operation.responses || {};
+  const successKeys = Object.keys(responses).filter((status) =>
+    status.startsWith('2')
+  );
+  const keys =
+    successKeys.length > 0
+      ? successKeys
+      : 'default' in responses
+        ? ['default']
+        : [];
+
+  const types: string[] = [];
+  for (const key of keys) {
+    const content = resolve<ResponseObject>(responses[key])?.content;
+    const mediaType = content && selectMediaType(content);
+    if (!mediaType) {
+      types.push('void');
+      continue;
+    }
+    const media: MediaTypeObject = content[mediaType];
+    if (media.itemSchema) {
+      return {
+        type: renderSchemaType(media.itemSchema, '', identifiers),
+        stream: mediaType
+      };
+    }
+    types.push(renderSchemaType(media.schema, '', identifiers));
+  }
+  const unique = [...new Set(types)];
+  return {
+    type: unique.length === 0 ? 'void' : unique.join(' | ')
+  };
+}
+
+/**
+ * Picks the JSON media type of `content`, falling back to the first one.
+ */
+function selectMediaType(
+  content: Record<string, MediaTypeObject> | undefined
+): string | undefined {
+  const mediaTypes = Object.keys(content || {});
+  return (
+    mediaTypes.find((mediaType) => JSON_MEDIA_TYPE.test(mediaType)) ??
+    mediaTypes[0]
+  );
+}
@@ -0,0 +1,24 @@
+import { OpenAPIObject } from '../interfaces';
+import { GenerateTypesOptions } from '../interfaces/generate-types-options.interface';
+import { renderBanner, renderSchemaDeclarations } from './typescript-schema';
+
+/**
+ * Generates the content of a `.d.ts` file declaring one interface or type
+ * alias per entry of `components.schemas`.
+ *
+ * Named enums (`enumName`) become literal unions, `oneOf`/`anyOf` become
+ * unions, OAS 3.1 `type` arrays and `nullable` become unions with `null`,
+ * `readOnly` properties are `readonly` and `writeOnly` properties are tagged
+ * with `@writeOnly`.
+ *
+ * @example writeFileSync('api.d.ts', generateTypes(document))
+ *
+ * @publicApi
+ */
+export function generateTypes(
+  document: OpenAPIObject,
+  options: GenerateTypesOptions = {}
+): string {
+  const declarations = renderSchemaDeclarations(document);
+  return `${renderBanner(options.banner)}\n${declarations || 'export {};\n'}`;
+}
@@ -0,0 +1,2 @@
+export * from './generate-client';
+export * from './generate-types';
@@ -0,0 +1,343 @@
+import { OpenAPIObject } from '../interfaces';
+import {
+  ReferenceObject,
+  SchemaObject
+} from '../interfaces/open-api-spec.interface';
+
+type Schema = SchemaObject | ReferenceObject | boolean;
+
+/**
+ * Identifier of the declaration of each entry of `components.schemas`, keyed
+ * by schema name.
+ */
+export type SchemaIdentifiers = Map<string, string>;
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+const RESERVED_WORDS = new Set(
+  (
+    'break case catch class const continue debugger default delete do else ' +
+    'enum export extends false finally for function if import in instanceof ' +
+    'new null return super switch this throw true try typeof var void while ' +
+    'with yield let static implements interface package private protected public'
+  ).split(' ')
+);
+
+const DEFAULT_BANNER = 'Generated by nestjs-openapi-next. Do not edit.';
+
+/**
+ * Renders the comment heading generated files.
+ */
+export function renderBanner(banner = DEFAULT_BANNER): string {
+  return `/* eslint-disable */\n// ${banner}\n`;
+}
+
+/**
+ * Turns an arbitrary name (schema name, `operationId`, webhook name) into a
+ * valid TypeScript identifier.
+ */
+export function toIdentifier(name: string): string {
+  const identifier = name.replace(/[^A-Za-z0-9_$]/g, '_');
+  return /^[0-9]/.test(identifier) || RESERVED_WORDS.has(identifier)
+    ? `_${identifier}`
+    : identifier;
+}
+
+/**
+ * Suffixes `name` with a counter until it is not in `names`, and reserves the
+ * result.
+ */
+export function uniqueName(name: string, names: Set<string>): string {
+  let candidate = name;
+  for (let index = 2; names.has(candidate); index++) {
+    candidate = `${name}${index}`;
+  }
+  names.add(candidate);
+  return candidate;
+}
+
+/**
+ * Assigns a distinct identifier to each entry of `components.schemas`, none of
+ * which is in `reserved`.
+ */
+export function getSchemaIdentifiers(
+  document: OpenAPIObject,
+  reserved: Iterable<string> = []
+): SchemaIdentifiers {
+  const names = new Set(reserved);
+  return new Map(
+    Object.keys(document.components?.schemas || {}).map((name) => [
+      name,
+      uniqueName(toIdentifier(name), names)
+    ])
+  );
+}
+
+/**
+ * Renders a property key, quoting it when it is not a valid identifier.
+ */
+export function toPropertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Renders a JSDoc block out of a schema or operation description, or an empty
+ * string when there is nothing to document.
+ */
+export function renderDocComment(
+  lines: Array<string | undefined>,
+  indent = ''
+): string {
+  const content = lines
+    .filter((line): line is string => !!line)
+    .flatMap((line) => line.replace(/\*\//g, '*\\/').split('\n'));
+  if (content.length === 0) {
+    return '';
+  }
+  if (content.length === 1) {
+    return `${indent}/** ${content[0]} */\n`;
+  }
+  return `${indent}/**\n${content.map((line) => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+}
+
+/**
+ * Renders the TypeScript type of a schema. Component references become
+ * references to the declarations emitted by `renderSchemaDeclarations()`,
+ * and both the OAS 3.0 `nullable` keyword and OAS 3.1 `type` arrays are
+ * rendered as unions with `null`.
+ */
+export function renderSchemaType(
+  schema: Schema | undefined,
+  indent = '',
+  identifiers: SchemaIdentifiers = new Map()
+): string {
+  if (schema === undefined || schema === true) {
+    return 'unknown';
+  }
+  if (schema === false) {
+    return 'never';
+  }
+  if ('$ref' in schema && typeof schema.$ref === 'string') {
+    if (!schema.$ref.startsWith(SCHEMA_REF_PREFIX)) {
+      return 'unknown';
+    }
+    const name = decodeRefName(schema.$ref);
+    return identifiers.get(name) ?? toIdentifier(name);
+  }
+  const schemaObject = schema as SchemaObject;
+  const type = renderNonNullableType(schemaObject, indent, identifiers);
+  return schemaObject.nullable && type !== 'unknown'
+    ? union([type, 'null'])
+    : type;
+}
+
+/**
+ * Renders one `export interface`/`export type` declaration per entry of
+ * `components.schemas`, named after `identifiers`.
+ */
+export function renderSchemaDeclarations(
+  document: OpenAPIObject,
+  identifiers: SchemaIdentifiers = getSchemaIdentifiers(document)
+): string {
+  return Object.entries(document.components?.schemas || {})
+    .map(([name, schema]) => {
+      const identifier = identifiers.get(name);
+      const doc =
+        typeof schema === 'object' && !('$ref' in schema)
+          ? renderDocComment([
+              schema.description,
+              schema.deprecated ? '@deprecated' : undefined
+            ])
+          : '';
+      const type = renderSchemaType(schema, '', identifiers);
+      return isInterfaceCandidate(schema) && type.startsWith('{')
+        ? `${doc}export interface ${identifier} ${type}\n`
+        : `${doc}export type ${identifier} = ${type};\n`;
+    })
+    .join('\n');
+}
+
+function renderNonNullableType(
+  schema: SchemaObject,
+  indent: string,
+  identifiers: SchemaIdentifiers
+): string {
+  if ('const' in schema) {
+    return literal(schema.const);
+  }
+  if (schema.enum) {
+    return union(schema.enum.map(literal));
+  }
+  const alternatives = schema.oneOf || schema.anyOf;
+  const choice = alternatives
+    ? union(
+        alternatives.map((item) => renderSchemaType(item, indent, identifiers))
+      )
+    : undefined;
+  if (schema.allOf) {
+    const parts = schema.allOf.map((item) =>
+      renderSchemaType(item, indent, identifiers)
+    );
+    const own = schema.properties
+      ? renderObjectType(schema, indent, identifiers)
+      : undefined;
+    return intersection([
+      ...parts,
+      ...(own ? [own] : []),
+      ...(choice ? [choice] : [])
+    ]);
+  }
+  if (choice) {
+    return choice;
+  }
+
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type !== undefined
+      ? [schema.type]
+      : [inferType(schema)];
+  return union(
+    types.map((type) => renderTypeKeyword(type, schema, indent, identifiers))
+  );
+}
+
+function renderTypeKeyword(
+  type: string | undefined,
+  schema: SchemaObject,
+  indent: string,
+  identifiers: SchemaIdentifiers
+): string {
+  switch (type) {
+    case 'string':
+      return schema.format === 'binary' ? 'Blob' : 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return renderArrayType(schema, indent, identifiers);
+    case 'object':
+      return renderObjectType(schema, indent, identifiers);
+    default:
+      return 'unknown';
+  }
+}
+
+function renderArrayType(
+  schema: SchemaObject,
+  indent: string,
+  identifiers: SchemaIdentifiers
+): string {
+  const rest =
+    schema.items === undefined || schema.items === true
+      ? 'unknown'
+      : schema.items === false
+        ? undefined
+        : renderSchemaType(schema.items, indent, identifiers);
+  if (schema.prefixItems) {
+    const tuple = schema.prefixItems.map((item) =>
+      renderSchemaType(item, indent, identifiers)
+    );
+    return `[${[...tuple, ...(rest ? [`...${wrap(rest)}[]`] : [])].join(', ')}]`;
+  }
+  return `${wrap(rest ?? 'never')}[]`;
+}
+
+function renderObjectType(
+  schema: SchemaObject,
+  indent: string,
+  identifiers: SchemaIdentifiers
+): string {
+  const properties = Object.entries(schema.properties || {});
+  const additional = schema.additionalProperties;
+  if (
+    properties.length === 0 &&
+    (additional === undefined || additional === true)
+  ) {
+    return 'Record<string, unknown>';
+  }
+  if (properties.length === 0 && typeof additional === 'object') {
+    return `Record<string, ${renderSchemaType(additional, indent, identifiers)}>`;
+  }
+
+  const memberIndent = `${indent}  `;
+  const required = new Set(schema.required || []);
+  const members = properties.map(([name, property]) => {
+    // OAS 3.1 allows `description`, `readOnly`, etc. next to a `$ref`
+    const annotations: Partial<SchemaObject> =
+      typeof property === 'object' ? property : {};
+    const doc = renderDocComment(
+      [
+        annotations.description,
+        annotations.deprecated ? '@deprecated' : undefined,
+        annotations.writeOnly ? '@writeOnly' : undefined
+      ],
+      memberIndent
+    );
+    const modifier = annotations.readOnly ? 'readonly ' : '';
+    const optional = required.has(name) ? '' : '?';
+    return `${doc}${memberIndent}${modifier}${toPropertyKey(name)}${optional}: ${renderSchemaType(property, memberIndent, identifiers)};`;
+  });
+  if (additional !== undefined && additional !== false) {
+    members.push(
+      `${memberIndent}[key: string]: ${additional === true ? 'unknown' : 'any'};`
+    );
+  }
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+function inferType(schema: SchemaObject): string | undefined {
+  if (schema.properties || schema.additionalProperties !== undefined) {
+    return 'object';
+  }
+  return schema.items !== undefined || schema.prefixItems ? 'array' : undefined;
+}
+
+function isInterfaceCandidate(schema: Schema): boolean {
+  return (
+    typeof schema === 'object' &&
+    !('$ref' in schema) &&
+    !schema.allOf &&
+    !schema.oneOf &&
+    !schema.anyOf &&
+    !schema.nullable &&
+    !Array.isArray(schema.type)
+  );
+}
+
+function decodeRefName(ref: string): string {
+  return ref
+    .slice(SCHEMA_REF_PREFIX.length)
+    .replace(/~1/g, '/')
+    .replace(/~0/g, '~');
+}
+
+function literal(value: unknown): string {
+  return value === null ||
+    ['string', 'number', 'boolean'].includes(typeof value)
+    ? JSON.stringify(value)
+    : 'unknown';
+}
+
+function union(types: string[]): string {
+  const unique = [...new Set(types)];
+  if (unique.includes('unknown')) {
+    return 'unknown';
+  }
+  return unique.length === 0 ? 'never' : unique.join(' | ');
+}
+
+function intersection(types: string[]): string {
+  const unique = [...new Set(types)].filter((type) => type !== 'unknown');
+  return unique.length === 0 ? 'unknown' : unique.map(wrap).join(' & ');
+}
+
+/**
+ * Parenthesizes union and intersection types used as operands.
+ */
+function wrap(type: string): string {
+  return /^[^{[]*[|&]/.test(type) ? `(${type})` : type;
+}
@@ -1,7 +1,10 @@
 import 'reflect-metadata';
 export * from './decorators';
 export * from './document-builder';
+export * from './generators';
+export * from './interceptors';
 export * from './interfaces';
+export * from './mock-server';
 export * from './swagger-module';
 export * from './type-helpers';
 export * from './utils';
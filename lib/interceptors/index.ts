@@ -0,0 +1,2 @@
+export * from './openapi-response-validation.interceptor';
+export * from './openapi-validation.interceptor';
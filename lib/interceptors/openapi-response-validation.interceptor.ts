@@ -0,0 +1,197 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  InternalServerErrorException,
+  Logger,
+  NestInterceptor,
+  StreamableFile
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { tap } from 'rxjs/operators';
+import { OpenAPIObject } from '../interfaces';
+import {
+  ResponseObject,
+  ResponsesObject
+} from '../interfaces/open-api-spec.interface';
+import { SchemaViolation } from '../interfaces/schema-violation.interface';
+import { SchemaValidator } from '../services/schema-validator';
+import { matchMediaType } from '../utils/match-media-type.util';
+import { RouteOperation, RouteOperations } from './route-operations';
+
+export interface OpenApiResponseValidationInterceptorOptions {
+  /**
+   * Set to `false` to turn the interceptor into a no-op (e.g. in production).
+   * @default process.env.NODE_ENV !== 'production'
+   */
+  enabled?: boolean;
+  /**
+   * `'warn'` logs mismatches, `'error'` fails the request with the exception
+   * returned by `exceptionFactory`.
+   * @default 'warn'
+   */
+  mode?: 'warn' | 'error';
+  /**
+   * Builds the exception thrown in `'error'` mode.
+   * Defaults to an `InternalServerErrorException` listing the violations.
+   */
+  exceptionFactory?: (violations: SchemaViolation[]) => unknown;
+}
+
+const JSON_MEDIA_TYPE = /^application\/(.+\+)?json(;|$)/i;
+
+/**
+ * Checks the responses returned by route handlers against the operation
+ * documented for them: the status code must be documented and the body must
+ * match the schema of the response (e.g. required properties,
+ * `additionalProperties: false`). Only JSON bodies are validated, and
+ * exceptions handled by exception filters are not checked.
+ *
+ * Meant for development and tests: it is disabled when `NODE_ENV` is
+ * `production` unless `enabled` says otherwise. The document must be one
+ * returned by `SwaggerModule.createDocument()` or
+ * `SwaggerModule.createDocuments()`.
+ *
+ * @example app.useGlobalInterceptors(new OpenApiResponseValidationInterceptor(document, { mode: 'error' }))
+ *
+ * @publicApi
+ */
+export class OpenApiResponseValidationInterceptor implements NestInterceptor {
+  private readonly logger = new Logger(
+    OpenApiResponseValidationInterceptor.name
+  );
+  private readonly validator?: SchemaValidator;
+  private readonly operations?: RouteOperations;
+
+  constructor(
+    document: OpenAPIObject,
+    private readonly options: OpenApiResponseValidationInterceptorOptions = {}
+  ) {
+    const enabled = options.enabled ?? process.env.NODE_ENV !== 'production';
+    if (enabled) {
+      this.validator = new SchemaValidator(document);
+      this.operations = new RouteOperations(
+        document,
+        OpenApiResponseValidationInterceptor.name
+      );
+    }
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (!this.operations || context.getType() !== 'http') {
+      return next.handle();
+    }
+    const http = context.switchToHttp();
+    const operation = this.operations.find(
+      context.getClass(),
+      context.getHandler(),
+      http.getRequest().method
+    );
+    if (!operation) {
+      return next.handle();
+    }
+    return next.handle().pipe(
+      tap((body) => {
+        const violations = this.validateResponse(
+          operation,
+          http.getResponse(),
+          body
+        );
+        if (violations.length > 0) {
+          this.report(violations, context);
+        }
+      })
+    );
+  }
+
+  private validateResponse(
+    operation: RouteOperation,
+    response: Record<string, any>,
+    body: unknown
+  ): SchemaViolation[] {
+    const status = String(response.statusCode);
+    const responses: ResponsesObject = operation.operation.responses || {};
+    const key = [status, `${status[0]}XX`, 'default'].find(
+      (candidate) => candidate in responses
+    );
+    if (!key) {
+      return [
+        {
+          keyword: 'status',
+          message: `status ${status} is not documented`,
+          pointer: '/status'
+        }
+      ];
+    }
+
+    const content = this.operations.resolve<ResponseObject>(
+      responses[key]
+    )?.content;
+    if (body === undefined || !content) {
+      return [];
+    }
+    const contentType =
+      typeof response.getHeader === 'function'
+        ? response.getHeader('content-type')
+        : undefined;
+    const mediaType = matchMediaType(
+      content,
+      contentType ? String(contentType) : 'application/json'
+    );
+    if (!mediaType) {
+      return contentType
+        ? [
+            {
+              keyword: 'contentType',
+              message: `must be one of ${Object.keys(content).join(', ')}`,
+              pointer: '/header/content-type'
+            }
+          ]
+        : [];
+    }
+    if (!JSON_MEDIA_TYPE.test(mediaType) || !content[mediaType].schema) {
+      return [];
+    }
+
+    const value = toJsonValue(body);
+    return value === undefined
+      ? []
+      : this.validator.validate(
+          content[mediaType].schema,
+          value,
+          ['body'],
+          'response'
+        );
+  }
+
+  private report(violations: SchemaViolation[], context: ExecutionContext) {
+    if (this.options.mode === 'error') {
+      throw this.options.exceptionFactory
+        ? this.options.exceptionFactory(violations)
+        : new InternalServerErrorException({
+            statusCode: 500,
+            message: 'Response validation failed',
+            errors: violations
+          });
+    }
+    const handler = `${context.getClass().name}.${context.getHandler().name}`;
+    violations.forEach((violation) =>
+      this.logger.warn(`${handler}: ${violation.pointer} ${violation.message}`)
+    );
+  }
+}
+
+/**
+ * Returns `body` as it will be serialized (class instances become plain
+ * objects, dates become strings), or `undefined` for non-JSON bodies.
+ */
+function toJsonValue(body: unknown): unknown {
+  if (body instanceof StreamableFile || Buffer.isBuffer(body)) {
+    return undefined;
+  }
+  try {
+    const json = JSON.stringify(body);
+    return json === undefined ? undefined : JSON.parse(json);
+  } catch {
+    return undefined;
+  }
+}
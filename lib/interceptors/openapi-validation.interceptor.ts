@@ -0,0 +1,255 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  NestInterceptor
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { OpenAPIObject } from '../interfaces';
+import {
+  ParameterLocation,
+  ParameterObject,
+  ReferenceObject,
+  RequestBodyObject,
+  SchemaObject
+} from '../interfaces/open-api-spec.interface';
+import { SchemaViolation } from '../interfaces/schema-violation.interface';
+import { SchemaValidator } from '../services/schema-validator';
+import { toJsonPointer } from '../utils/json-pointer.util';
+import { matchMediaType } from '../utils/match-media-type.util';
+import { RouteOperation, RouteOperations } from './route-operations';
+
+/**
+ * Parts of a request that can be validated. Parameters use their `in`
+ * location, the request body uses `body`.
+ */
+export type RequestValidationTarget = ParameterLocation | 'body';
+
+export interface OpenApiValidationInterceptorOptions {
+  /**
+   * Parts of the request to validate.
+   * @default ['path', 'query', 'header', 'cookie', 'body']
+   */
+  validate?: RequestValidationTarget[];
+  /**
+   * Builds the exception thrown when the request does not match the operation.
+   * Defaults to a `BadRequestException` listing the violations.
+   */
+  exceptionFactory?: (violations: SchemaViolation[]) => unknown;
+}
+
+/**
+ * Request body media types that are parsed by dedicated middleware (file
+ * uploads, raw streams) and therefore not validated.
+ */
+const UNVALIDATED_MEDIA_TYPES = [/^multipart\//, /^application\/octet-stream/];
+
+/**
+ * Validates the path, query, header and cookie parameters and the body of
+ * incoming requests against the operation documented for the route handler.
+ *
+ * The document must be one returned by `SwaggerModule.createDocument()` or
+ * `SwaggerModule.createDocuments()`, so that each handler can be linked to its
+ * operation through the `operationId` recorded by the explorer. Handlers
+ * without a documented operation are left untouched.
+ *
+ * @example app.useGlobalInterceptors(new OpenApiValidationInterceptor(document))
+ *
+ * @publicApi
+ */
+export class OpenApiValidationInterceptor implements NestInterceptor {
+  private readonly validator: SchemaValidator;
+  private readonly operations: RouteOperations;
+  private readonly targets: Set<RequestValidationTarget>;
+
+  constructor(
+    private readonly document: OpenAPIObject,
+    private readonly options: OpenApiValidationInterceptorOptions = {}
+  ) {
+    this.validator = new SchemaValidator(document);
+    this.targets = new Set(
+      options.validate ?? ['path', 'query', 'header', 'cookie', 'body']
+    );
+    this.operations = new RouteOperations(
+      document,
+      OpenApiValidationInterceptor.name
+    );
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+    const request = context.switchToHttp().getRequest();
+    const operation = this.operations.find(
+      context.getClass(),
+      context.getHandler(),
+      request.method
+    );
+    if (operation) {
+      const violations = this.validateRequest(operation, request);
+      if (violations.length > 0) {
+        throw this.options.exceptionFactory
+          ? this.options.exceptionFactory(violations)
+          : new BadRequestException({
+              statusCode: 400,
+              message: 'Request validation failed',
+              errors: violations
+            });
+      }
+    }
+    return next.handle();
+  }
+
+  private validateRequest(
+    operation: RouteOperation,
+    request: Record<string, any>
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const sources: Record<ParameterLocation, Record<string, unknown>> = {
+      path: request.params,
+      query: request.query,
+      header: request.headers,
+      cookie: request.cookies
+    };
+
+    for (const parameter of operation.parameters) {
+      const values = sources[parameter.in];
+      if (!this.targets.has(parameter.in) || !values) {
+        continue;
+      }
+      const name =
+        parameter.in === 'header'
+          ? parameter.name.toLowerCase()
+          : parameter.name;
+      const raw = values[name];
+      if (raw === undefined) {
+        if (parameter.required) {
+          violations.push({
+            keyword: 'required',
+            message: 'is required',
+            pointer: toJsonPointer([parameter.in, parameter.name])
+          });
+        }
+        continue;
+      }
+      const schema =
+        parameter.schema ??
+        Object.values(parameter.content || {}).find((media) => media.schema)
+          ?.schema;
+      violations.push(
+        ...this.validator.validate(
+          schema,
+          this.coerceParameter(parameter, schema, raw),
+          [parameter.in, parameter.name]
+        )
+      );
+    }
+
+    const requestBody = this.operations.resolve(
+      operation.operation.requestBody
+    );
+    if (this.targets.has('body') && requestBody) {
+      violations.push(...this.validateBody(requestBody, request));
+    }
+    return violations;
+  }
+
+  private validateBody(
+    requestBody: RequestBodyObject,
+    request: Record<string, any>
+  ): SchemaViolation[] {
+    const contentType: string | undefined = request.headers['content-type'];
+    const hasBody =
+      request.body !== undefined && request.body !== null && !!contentType;
+    if (!hasBody) {
+      return requestBody.required
+        ? [{ keyword: 'required', message: 'is required', pointer: '/body' }]
+        : [];
+    }
+
+    const content = requestBody.content || {};
+    const mediaType = matchMediaType(content, contentType);
+    if (!mediaType) {
+      return [
+        {
+          keyword: 'contentType',
+          message: `must be one of ${Object.keys(content).join(', ')}`,
+          pointer: '/header/content-type'
+        }
+      ];
+    }
+    if (UNVALIDATED_MEDIA_TYPES.some((pattern) => pattern.test(mediaType))) {
+      return [];
+    }
+    return this.validator.validate(content[mediaType].schema, request.body, [
+      'body'
+    ]);
+  }
+
+  /**
+   * Converts the string values of path, query, header and cookie parameters
+   * to the types declared by the parameter schema.
+   */
+  private coerceParameter(
+    parameter: ParameterObject,
+    schema: SchemaObject | ReferenceObject | undefined,
+    raw: unknown
+  ): unknown {
+    const resolved = this.validator.resolve(schema);
+    if (typeof resolved !== 'object') {
+      return raw;
+    }
+    if (!getTypes(resolved).includes('array')) {
+      return coerceScalar(resolved, raw);
+    }
+
+    const explode =
+      parameter.explode ??
+      (parameter.in === 'query' || parameter.in === 'cookie');
+    const items = Array.isArray(raw)
+      ? raw
+      : typeof raw === 'string'
+        ? explode
+          ? [raw]
+          : raw.split(',')
+        : raw;
+    const itemSchema =
+      resolved.items !== undefined
+        ? this.validator.resolve(resolved.items)
+        : undefined;
+    return Array.isArray(items) && typeof itemSchema === 'object'
+      ? items.map((item) => coerceScalar(itemSchema, item))
+      : items;
+  }
+}
+
+function getTypes(schema: SchemaObject): string[] {
+  if (schema.type === undefined) {
+    return schema.items !== undefined ? ['array'] : [];
+  }
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function coerceScalar(schema: SchemaObject, raw: unknown): unknown {
+  const types = getTypes(schema);
+  if (typeof raw !== 'string' || types.includes('string')) {
+    return raw;
+  }
+  for (const type of types) {
+    if (
+      (type === 'number' || type === 'integer') &&
+      raw.trim() !== '' &&
+      !Number.isNaN(Number(raw))
+    ) {
+      return Number(raw);
+    }
+    if (type === 'boolean' && (raw === 'true' || raw === 'false')) {
+      return raw === 'true';
+    }
+    if (type === 'null' && raw === 'null') {
+      return null;
+    }
+  }
+  return raw;
+}
@@ -0,0 +1,124 @@
+import { OpenAPIObject } from '../interfaces';
+import {
+  OperationObject,
+  ParameterObject,
+  ReferenceObject
+} from '../interfaces/open-api-spec.interface';
+import { OperationSourcesStorage } from '../storages/operation-sources.storage';
+import { forEachOperation } from '../utils/for-each-operation.util';
+import { resolveJsonPointer } from '../utils/json-pointer.util';
+
+export interface RouteOperation {
+  controller: Function;
+  method: string;
+  operation: OperationObject;
+  /**
+   * Path item and operation parameters, with `$ref`s resolved and operation
+   * parameters overriding path item ones.
+   */
+  parameters: ParameterObject[];
+}
+
+/**
+ * Links route handlers to the operations generated for them, through the
+ * `operationId`s recorded by the explorer when the document was created.
+ */
+export class RouteOperations {
+  private readonly operations = new Map<Function, RouteOperation[]>();
+
+  constructor(
+    private readonly document: OpenAPIObject,
+    consumer: string
+  ) {
+    const sources = OperationSourcesStorage.get(document);
+    if (!sources) {
+      throw new Error(
+        `${consumer} requires a document returned by SwaggerModule.createDocument() or SwaggerModule.createDocuments().`
+      );
+    }
+
+    const operationsById = new Map<string, OperationObject>();
+    const operationsByRoute = new Map<string, OperationObject>();
+    const pathParameters = new Map<
+      OperationObject,
+      Array<ParameterObject | ReferenceObject>
+    >();
+    forEachOperation(document, ({ location, key, method, operation }) => {
+      if (location !== 'paths') {
+        return;
+      }
+      if (operation.operationId) {
+        operationsById.set(operation.operationId, operation);
+      }
+      operationsByRoute.set(`${key} ${method}`, operation);
+      pathParameters.set(operation, document.paths[key].parameters || []);
+    });
+
+    for (const source of sources) {
+      if (source.location !== 'paths') {
+        continue;
+      }
+      const operation = source.operationId
+        ? operationsById.get(source.operationId)
+        : operationsByRoute.get(`${source.key} ${source.method}`);
+      if (!operation) {
+        continue;
+      }
+      const parameters = new Map<string, ParameterObject>();
+      for (const item of [
+        ...pathParameters.get(operation),
+        ...(operation.parameters || [])
+      ]) {
+        const parameter = this.resolve(item);
+        if (parameter) {
+          parameters.set(getParameterKey(parameter), parameter);
+        }
+      }
+      const routeOperations = this.operations.get(source.handler) || [];
+      routeOperations.push({
+        controller: source.controller,
+        method: source.method,
+        operation,
+        parameters: [...parameters.values()]
+      });
+      this.operations.set(source.handler, routeOperations);
+    }
+  }
+
+  find(
+    controller: Function,
+    handler: Function,
+    requestMethod: string
+  ): RouteOperation | undefined {
+    const candidates = (this.operations.get(handler) || []).filter(
+      (operation) => operation.controller === controller
+    );
+    const method = String(requestMethod).toLowerCase();
+    return (
+      candidates.find((operation) => operation.method === method) ??
+      candidates[0]
+    );
+  }
+
+  /**
+   * Resolves a component `$ref` (e.g. to `#/components/responses/...`).
+   */
+  resolve<T>(value: T | ReferenceObject | undefined): T | undefined {
+    return value && '$ref' in (value as object)
+      ? (resolveJsonPointer(
+          this.document,
+          (value as ReferenceObject).$ref
+        ) as T)
+      : (value as T);
+  }
+}
+
+/**
+ * Identifies a parameter by location and name. Header names are
+ * case-insensitive.
+ */
+function getParameterKey(parameter: ParameterObject): string {
+  return parameter.in === 'header'
+    ? `header ${parameter.name.toLowerCase()}`
+    : `${parameter.in} ${parameter.name}`;
+}
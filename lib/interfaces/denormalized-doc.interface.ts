@@ -8,6 +8,10 @@ export interface DenormalizedDoc extends Partial<OpenAPIObject> {
   root?: {
     method: string;
     path: string;
+    /**
+     * URI version segment of the route (e.g. `v1`). Not emitted in the document.
+     */
+    version?: string;
     /**
      * When true, this operation is emitted under `document.webhooks` instead of `document.paths`.
      */
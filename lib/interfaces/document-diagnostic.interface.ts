@@ -0,0 +1,41 @@
+export type DocumentDiagnosticCode =
+  /**
+   * A local `$ref` points to a component that does not exist.
+   */
+  | 'unresolved-ref'
+  /**
+   * Two or more operations share the same `operationId`.
+   */
+  | 'duplicate-operation-id'
+  /**
+   * A parameter declared with `in: 'path'` is missing from the route template.
+   */
+  | 'path-param-not-in-template'
+  /**
+   * `type: 'null'` is used in an OAS 3.0 document.
+   */
+  | 'null-type-in-oas30'
+  /**
+   * A keyword or structure that the declared `openapi` version does not support.
+   */
+  | 'unsupported-feature';
+
+/**
+ * @publicApi
+ */
+export interface DocumentDiagnostic {
+  code: DocumentDiagnosticCode;
+  message: string;
+  /**
+   * JSON Pointer to the offending location in the document.
+   */
+  pointer: string;
+  /**
+   * Name of the controller the offending operation was generated from.
+   */
+  controller?: string;
+  /**
+   * Name of the handler the offending operation was generated from.
+   */
+  method?: string;
+}
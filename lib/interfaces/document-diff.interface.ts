@@ -0,0 +1,49 @@
+export type DocumentChangeSeverity = 'breaking' | 'non-breaking';
+
+export type DocumentChangeCode =
+  | 'operation-removed'
+  | 'operation-added'
+  | 'operation-id-changed'
+  | 'operation-deprecated'
+  | 'parameter-removed'
+  | 'parameter-added'
+  | 'parameter-became-required'
+  | 'parameter-became-optional'
+  | 'request-body-added'
+  | 'request-body-removed'
+  | 'request-body-became-required'
+  | 'request-body-became-optional'
+  | 'response-removed'
+  | 'response-added'
+  | 'media-type-removed'
+  | 'media-type-added'
+  | 'schema-ref-changed'
+  | 'type-changed'
+  | 'enum-narrowed'
+  | 'enum-widened'
+  | 'property-removed'
+  | 'property-added'
+  | 'property-became-required'
+  | 'property-became-optional';
+
+/**
+ * @publicApi
+ */
+export interface DocumentChange {
+  code: DocumentChangeCode;
+  severity: DocumentChangeSeverity;
+  message: string;
+  /**
+   * JSON Pointer to the changed location. Removals point into the old
+   * document, everything else into the new one.
+   */
+  pointer: string;
+}
+
+/**
+ * @publicApi
+ */
+export interface DocumentDiff {
+  breaking: DocumentChange[];
+  nonBreaking: DocumentChange[];
+}
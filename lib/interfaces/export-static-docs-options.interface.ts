@@ -0,0 +1,28 @@
+import { SwaggerCustomOptions } from './swagger-custom-options.interface';
+import { UiRenderer } from './ui-renderer-options.interface';
+
+/**
+ * @publicApi
+ */
+export interface ExportStaticDocsOptions extends Pick<
+  SwaggerCustomOptions,
+  | 'explorer'
+  | 'swaggerOptions'
+  | 'customCss'
+  | 'customCssUrl'
+  | 'customJs'
+  | 'customJsStr'
+  | 'customfavIcon'
+  | 'customSiteTitle'
+  | 'customSwaggerUiPath'
+  | 'uiScriptUrl'
+  | 'redocOptions'
+  | 'scalarOptions'
+  | 'rapidocOptions'
+> {
+  /**
+   * Documentation UI to export.
+   * @default 'swagger'
+   */
+  ui?: UiRenderer;
+}
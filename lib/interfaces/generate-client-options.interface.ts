@@ -0,0 +1,12 @@
+import { GenerateTypesOptions } from './generate-types-options.interface';
+
+/**
+ * @publicApi
+ */
+export interface GenerateClientOptions extends GenerateTypesOptions {
+  /**
+   * Base URL used by the generated client until `configureClient()` is called.
+   * @default the URL of the first entry of `document.servers`, if any
+   */
+  baseUrl?: string;
+}
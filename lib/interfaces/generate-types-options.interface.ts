@@ -0,0 +1,10 @@
+/**
+ * @publicApi
+ */
+export interface GenerateTypesOptions {
+  /**
+   * Comment emitted at the top of the generated file.
+   * @default 'Generated by nestjs-openapi-next. Do not edit.'
+   */
+  banner?: string;
+}
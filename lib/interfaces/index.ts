@@ -1,3 +1,15 @@
 export { OpenAPIObject } from './open-api-spec.interface';
 export * from './swagger-custom-options.interface';
+export * from './swagger-auth-options.interface';
+export * from './ui-renderer-options.interface';
 export * from './swagger-document-options.interface';
+export * from './swagger-multi-document-options.interface';
+export * from './swagger-cli-config.interface';
+export * from './document-diagnostic.interface';
+export * from './document-diff.interface';
+export * from './schema-violation.interface';
+export * from './mock-server-options.interface';
+export * from './generate-client-options.interface';
+export * from './generate-types-options.interface';
+export * from './export-static-docs-options.interface';
+export * from './problem-details-options.interface';
@@ -0,0 +1,11 @@
+/**
+ * @publicApi
+ */
+export interface MockServerOptions {
+  /**
+   * Number of items sent by mocked streaming responses
+   * (e.g. `@ApiStreamingResponse()` with `text/event-stream`).
+   * @default 3
+   */
+  streamItemCount?: number;
+}
@@ -0,0 +1,23 @@
+import { Type } from '@nestjs/common';
+
+/**
+ * Links an emitted operation back to the controller method it was generated from.
+ */
+export interface OperationSource {
+  /**
+   * Root map holding the operation.
+   */
+  location: 'paths' | 'webhooks';
+  /**
+   * Path template (for `paths`) or webhook name (for `webhooks`).
+   */
+  key: string;
+  method: string;
+  operationId?: string;
+  /**
+   * URI version segment of the route (e.g. `v1`), when URI versioning is enabled.
+   */
+  version?: string;
+  controller: Type<unknown>;
+  handler: Function;
+}
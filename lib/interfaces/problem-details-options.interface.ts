@@ -0,0 +1,10 @@
+/**
+ * @publicApi
+ */
+export interface ProblemDetailsOptions {
+  /**
+   * Statuses documented as `application/problem+json` responses on every
+   * operation, e.g. `[500]` or `['default']`.
+   */
+  statuses?: Array<number | 'default' | '4XX' | '5XX'>;
+}
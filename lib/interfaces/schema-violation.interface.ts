@@ -0,0 +1,15 @@
+/**
+ * @publicApi
+ */
+export interface SchemaViolation {
+  /**
+   * JSON Schema keyword that failed (e.g. `type`, `required`, `enum`).
+   */
+  keyword: string;
+  message: string;
+  /**
+   * JSON Pointer to the offending value, prefixed with its location
+   * (e.g. `/body/owner/name`, `/query/limit`).
+   */
+  pointer: string;
+}
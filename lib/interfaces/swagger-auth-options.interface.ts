@@ -0,0 +1,57 @@
+/**
+ * Protects the UI and definition routes with HTTP Basic authentication.
+ *
+ * @publicApi
+ */
+export interface SwaggerBasicAuthOptions {
+  type: 'basic';
+  username: string;
+  password: string;
+  /**
+   * @default 'API documentation'
+   */
+  realm?: string;
+}
+
+/**
+ * Protects the UI and definition routes with an API key sent in a request
+ * header.
+ *
+ * @publicApi
+ */
+export interface SwaggerApiKeyAuthOptions {
+  type: 'apiKey';
+  /**
+   * Accepted key(s).
+   */
+  keys: string | string[];
+  /**
+   * Name of the request header holding the key.
+   * @default 'X-API-Key'
+   */
+  header?: string;
+}
+
+/**
+ * Protects the UI and definition routes with a custom check.
+ *
+ * @publicApi
+ */
+export interface SwaggerCustomAuthOptions<TRequest = any> {
+  type: 'custom';
+  authorize: (req: TRequest) => boolean | Promise<boolean>;
+  /**
+   * `WWW-Authenticate` header sent along with the 401 responses.
+   * @default 'Bearer realm="API documentation"'
+   */
+  challenge?: string;
+}
+
+/**
+ * @publicApi
+ */
+export type SwaggerAuthOptions<TRequest = any> =
+  | SwaggerBasicAuthOptions
+  | SwaggerApiKeyAuthOptions
+  | SwaggerCustomAuthOptions<TRequest>
+  | SwaggerCustomAuthOptions<TRequest>['authorize'];
@@ -0,0 +1,42 @@
+import { INestApplication } from '@nestjs/common';
+import { DocumentBuilder } from '../document-builder';
+import { OpenAPIObject } from './open-api-spec.interface';
+import { SwaggerDocumentOptions } from './swagger-document-options.interface';
+
+/**
+ * Shape of the module passed to `nestjs-openapi-next generate --config`.
+ * Every field may also be exported as a named export of the config module.
+ *
+ * @publicApi
+ */
+export interface SwaggerCliConfig {
+  /**
+   * Document configuration, either as a `DocumentBuilder` instance or the
+   * result of `DocumentBuilder.build()`.
+   */
+  config?:
+    | DocumentBuilder
+    | Omit<OpenAPIObject, 'paths'>
+    | (() =>
+        | DocumentBuilder
+        | Omit<OpenAPIObject, 'paths'>
+        | Promise<DocumentBuilder | Omit<OpenAPIObject, 'paths'>>);
+
+  /**
+   * Options forwarded to `SwaggerModule.createDocument()`.
+   */
+  options?: SwaggerDocumentOptions;
+
+  /**
+   * Metadata generated by the CLI plugin (`PluginMetadataGenerator`).
+   * When set, it is loaded through `SwaggerModule.loadPluginMetadata()`
+   * before the document is created.
+   */
+  metadata?: () => Promise<Record<string, any>>;
+
+  /**
+   * Hook to apply the application-level configuration usually done in
+   * `main.ts` (e.g. `setGlobalPrefix()` or `enableVersioning()`).
+   */
+  configureApp?: (app: INestApplication) => void | Promise<void>;
+}
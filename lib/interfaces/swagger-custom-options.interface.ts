@@ -1,5 +1,14 @@
 import { OpenAPIObject } from './open-api-spec.interface';
+import { SwaggerAuthOptions } from './swagger-auth-options.interface';
 import { SwaggerUiOptions } from './swagger-ui-options.interface';
+import {
+  RapiDocOptions,
+  RedocOptions,
+  ScalarOptions,
+  UiRenderer
+} from './ui-renderer-options.interface';
+
+export type DocumentContentEncoding = 'br' | 'gzip';
 
 /**
  * @publicApi
@@ -23,19 +32,51 @@ export interface SwaggerCustomOptions {
   /**
    * If `false`, the Swagger UI will not be served. Only API definitions (JSON and YAML)
    * will be accessible (on `/{path}-json` and `/{path}-yaml`). To fully disable both the Swagger UI and API definitions, use `raw: false`.
+   * Pass `'redoc'`, `'scalar'` or `'rapidoc'` to serve another documentation UI instead (`true` is the same as `'swagger'`).
    * Default: `true`.
    */
-  ui?: boolean;
+  ui?: boolean | UiRenderer;
+
+  /**
+   * URL of the script of the Redoc, Scalar or RapiDoc renderer.
+   * Default: served from `node_modules` when the renderer package (`redoc`, `@scalar/api-reference` or `rapidoc`) is installed, loaded from a CDN otherwise.
+   */
+  uiScriptUrl?: string;
+
+  /**
+   * Additional Redoc options, used with `ui: 'redoc'`.
+   */
+  redocOptions?: RedocOptions;
+
+  /**
+   * Additional Scalar options, used with `ui: 'scalar'`.
+   */
+  scalarOptions?: ScalarOptions;
+
+  /**
+   * Additional RapiDoc attributes, used with `ui: 'rapidoc'`.
+   */
+  rapidocOptions?: RapiDocOptions;
 
   /**
    * If `true`, raw definitions for all formats will be served.
    * Alternatively, you can pass an array to specify the formats to be served, e.g., `raw: ['json']` to serve only JSON definitions.
    * If omitted or set to an empty array, no definitions (JSON or YAML) will be served.
    * Use this option to control the availability of Swagger-related endpoints.
+   * Each definition endpoint also serves the other enabled format when the `Accept` header asks for it
+   * (`application/json`, `application/yaml`, `application/vnd.oai.openapi`, ...).
    * Default: `true`.
    */
   raw?: boolean | Array<'json' | 'yaml'>;
 
+  /**
+   * Restricts access to the UI and to the JSON and YAML definitions: HTTP Basic credentials (`{ type: 'basic', username, password }`),
+   * API keys sent in a header (`{ type: 'apiKey', keys }`), or a custom `(req) => boolean | Promise<boolean>` check.
+   * Unauthorized requests are answered with `401 Unauthorized` and a `WWW-Authenticate` header.
+   * The static Swagger UI assets (scripts, stylesheets and icons) remain public.
+   */
+  auth?: SwaggerAuthOptions;
+
   /**
    * Url point the API definition to load in Swagger UI.
    */
@@ -63,6 +104,19 @@ export interface SwaggerCustomOptions {
     document: OpenAPIObject
   ) => OpenAPIObject;
 
+  /**
+   * `Cache-Control` header of the JSON and YAML definitions, e.g. `'public, max-age=300'`.
+   * The definitions are always served with a strong `ETag`, and `If-None-Match` requests are answered with `304 Not Modified`.
+   */
+  cacheControl?: string;
+
+  /**
+   * If `true`, the JSON and YAML definitions are compressed with brotli or gzip, depending on the `Accept-Encoding` header of the request.
+   * Alternatively, you can pass an array to restrict the encodings, e.g., `compression: ['gzip']`.
+   * Default: `false`.
+   */
+  compression?: boolean | DocumentContentEncoding[];
+
   /**
    * If `true`, the selector of OpenAPI definitions is displayed in the Swagger UI interface.
    * Default: `false`.
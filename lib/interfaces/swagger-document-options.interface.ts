@@ -1,9 +1,60 @@
+import { ApiResponseOptions } from '../decorators/api-response.decorator';
+import { SecurityRequirementObject } from './open-api-spec.interface';
+
 export type OperationIdFactory = (
   controllerKey: string,
   methodKey: string,
   version?: string
 ) => string;
 
+export type ErrorResponseMappings = Record<
+  string,
+  ApiResponseOptions | ApiResponseOptions[]
+>;
+
+export type SecurityResolvers = Record<
+  string,
+  SecurityRequirementObject | SecurityRequirementObject[]
+>;
+
+export interface DeduplicateInlineSchemasOptions {
+  /**
+   * Number of identical occurrences from which an inline object is hoisted.
+   * @default 2
+   */
+  minOccurrences?: number;
+  /**
+   * Called with the references of the hoisted components, e.g. to inline
+   * them back later with `dereference()`.
+   */
+  onDeduplicate?: (refs: string[]) => void;
+}
+
+export interface DocumentAudienceOptions {
+  /**
+   * Audience(s) the document is generated for.
+   */
+  include: string | string[];
+  /**
+   * Name of the schemas whose shape changes once the hidden properties are
+   * stripped.
+   * @default `${name}${Audience}`, e.g. `CatDtoPublic`
+   */
+  renameSchema?: (name: string, audiences: string[]) => string;
+}
+
+export interface PruneUnreachableSchemasOptions {
+  /**
+   * Models (classes or schema names) kept even when no operation references
+   * them, e.g. models meant to be public. Schemas they reference are kept too.
+   */
+  keep?: Array<string | Function>;
+  /**
+   * Called with the names of the removed schemas.
+   */
+  onPrune?: (schemaNames: string[]) => void;
+}
+
 /**
  * @publicApi
  */
@@ -56,4 +107,105 @@ export interface SwaggerDocumentOptions {
    * @default true
    */
   autoTagControllers?: boolean;
+
+  /**
+   * Validates the generated document against the structural rules of its
+   * declared `openapi` version (dangling `$ref`s, duplicate `operationId`s,
+   * path parameters missing from the route template, version-specific keywords).
+   * - `'warn'`: every issue is logged.
+   * - `'error'`: a `DocumentValidationError` holding the diagnostics is thrown.
+   * @default undefined (no validation)
+   */
+  validate?: 'warn' | 'error';
+
+  /**
+   * Removes the `components.schemas` entries that are not reachable through
+   * `$ref`s from `paths`, `webhooks` (including callbacks) or the other
+   * components, e.g. models registered with `@ApiExtraModels()` whose
+   * endpoints were excluded.
+   * @default false
+   */
+  pruneUnreachableSchemas?: boolean | PruneUnreachableSchemasOptions;
+
+  /**
+   * If `true`, the document keys are emitted in a canonical order so that
+   * regenerated documents do not churn: `openapi`, `info` and `servers` first,
+   * then paths sorted alphabetically with HTTP methods in RFC order, and
+   * component entries and tags sorted by name.
+   * @default false
+   */
+  sortOutput?: boolean;
+
+  /**
+   * If `true`, request bodies and responses whose JSON media type has neither
+   * `example` nor `examples` get an example synthesized from the schema
+   * (honoring `format`, `enum`, `const`, bounds, `pattern` and `prefixItems`),
+   * so that Swagger UI shows realistic payloads instead of bare types.
+   * Explicit examples are never overwritten.
+   * @default false
+   */
+  autoExamples?: boolean;
+
+  /**
+   * If `true`, structurally identical inline object schemas, parameters and
+   * responses (e.g. produced by `@ApiResponse({ schema })` or object literal
+   * types) are hoisted into `components` under stable generated names and
+   * replaced with `$ref`s. Use `dereference()` to inline them back.
+   * @default false
+   */
+  deduplicateInlineSchemas?: boolean | DeduplicateInlineSchemasOptions;
+
+  /**
+   * If `true`, error responses are inferred from the guards, pipes and
+   * exception filters applied to each route (global ones included):
+   * - guards document a `403` response, and those named like `AuthGuard`
+   *   (e.g. `JwtAuthGuard` or `AuthGuard('jwt')`) a `401` as well;
+   * - `ValidationPipe` documents a `400` response with a validation-error schema;
+   * - `Parse*Pipe` (e.g. `ParseIntPipe`) documents a `400` response.
+   * Responses declared with `@ApiResponse()` take precedence.
+   * @default false
+   */
+  inferErrorResponses?: boolean;
+
+  /**
+   * Error responses documented by `inferErrorResponses` for a guard, pipe or
+   * exception filter, keyed by class name. A mapping registered for a base
+   * class also applies to its subclasses and replaces the default responses;
+   * map a class to `[]` to document nothing for it.
+   *
+   * @example { RolesGuard: { status: 403, description: 'Missing role' } }
+   */
+  errorResponseMappings?: ErrorResponseMappings;
+
+  /**
+   * Security requirements emitted on every operation guarded by a given guard
+   * (global guards included), keyed by class name. A resolver registered for
+   * a base class also applies to its subclasses. An array lists alternative
+   * requirements; the requirements of several guards are combined.
+   * Operations with an `@ApiSecurity()` decorator (or a derived one such as
+   * `@ApiBearerAuth()`) keep their explicit requirements.
+   *
+   * @example { JwtAuthGuard: { bearer: [] }, ApiKeyGuard: { api_key: [] } }
+   */
+  securityResolvers?: SecurityResolvers;
+
+  /**
+   * Metadata keys which, when set to a truthy value on a handler or its
+   * controller (e.g. by a `@Public()` decorator built on `SetMetadata()`),
+   * turn the guards off. Those operations are emitted with `security: []`.
+   * Only used together with `securityResolvers`.
+   * @default ['isPublic']
+   */
+  publicMetadataKeys?: Array<string | symbol>;
+
+  /**
+   * Generates the document for the given audience(s): operations and DTO
+   * properties restricted with `@ApiVisibility()` to other audiences are left
+   * out, and the schemas whose shape changes are renamed (see
+   * `DocumentAudienceOptions.renameSchema`). Without this option, every
+   * operation and property is documented.
+   *
+   * @example 'partner'
+   */
+  audience?: string | string[] | DocumentAudienceOptions;
 }
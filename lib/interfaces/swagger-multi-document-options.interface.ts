@@ -0,0 +1,50 @@
+import { Type } from '@nestjs/common';
+import { OperationObject } from './open-api-spec.interface';
+import { SwaggerDocumentOptions } from './swagger-document-options.interface';
+
+/**
+ * Operation handed to a custom `splitBy` function.
+ */
+export interface DocumentSplitOperation {
+  /**
+   * Root map holding the operation.
+   */
+  location: 'paths' | 'webhooks';
+  /**
+   * Path template (for `paths`) or webhook name (for `webhooks`).
+   */
+  key: string;
+  method: string;
+  operation: OperationObject;
+  /**
+   * URI version segment of the route (e.g. `v1`), when URI versioning is enabled.
+   */
+  version?: string;
+  /**
+   * Controller the operation was generated from. Unset for operations
+   * provided through the document config.
+   */
+  controller?: Type<unknown>;
+  handler?: Function;
+}
+
+/**
+ * - `'version'`: one document per URI version (`v1`, `v2`, ...).
+ * - `'tag'`: one document per operation tag. Operations with several tags
+ *   appear in each of their documents.
+ * - function: returns the document name(s) an operation belongs to.
+ *
+ * Operations without a version, without tags, or for which the function
+ * returns `undefined` are grouped under `'default'`.
+ */
+export type DocumentSplitStrategy =
+  | 'version'
+  | 'tag'
+  | ((operation: DocumentSplitOperation) => string | string[] | undefined);
+
+/**
+ * @publicApi
+ */
+export interface SwaggerMultiDocumentOptions extends SwaggerDocumentOptions {
+  splitBy: DocumentSplitStrategy;
+}
@@ -0,0 +1,53 @@
+/**
+ * Documentation UI served by `SwaggerModule.setup()`.
+ *
+ * @publicApi
+ */
+export type UiRenderer = 'swagger' | 'redoc' | 'scalar' | 'rapidoc';
+
+/**
+ * @see https://redocly.com/docs/redoc/config
+ *
+ * @publicApi
+ */
+export interface RedocOptions {
+  hideDownloadButton?: boolean;
+  disableSearch?: boolean;
+  expandResponses?: string;
+  hideHostname?: boolean;
+  jsonSampleExpandLevel?: number | 'all';
+  requiredPropsFirst?: boolean;
+  sortPropsAlphabetically?: boolean;
+  theme?: Record<string, any>;
+  [key: string]: any;
+}
+
+/**
+ * @see https://github.com/scalar/scalar/blob/main/documentation/configuration.md
+ *
+ * @publicApi
+ */
+export interface ScalarOptions {
+  theme?: string;
+  layout?: 'modern' | 'classic';
+  darkMode?: boolean;
+  hideModels?: boolean;
+  hideDownloadButton?: boolean;
+  [key: string]: any;
+}
+
+/**
+ * Attributes of the `<rapi-doc>` element, in camel case
+ * (e.g. `renderStyle: 'read'` for `render-style="read"`).
+ *
+ * @see https://rapidocweb.com/api.html
+ *
+ * @publicApi
+ */
+export interface RapiDocOptions {
+  theme?: 'light' | 'dark';
+  renderStyle?: 'read' | 'view' | 'focused';
+  showHeader?: boolean;
+  allowTry?: boolean;
+  [key: string]: string | number | boolean | undefined;
+}
@@ -0,0 +1,19 @@
+import { createServer, Server } from 'http';
+import { OpenAPIObject } from '../interfaces';
+import { MockServerOptions } from '../interfaces/mock-server-options.interface';
+import { createMockRequestHandler } from './mock-request-handler';
+
+/**
+ * Creates a standalone HTTP server answering every operation of
+ * `document.paths` with examples taken from the document or synthesized from
+ * the response schemas. Call `listen()` on the result to start it.
+ *
+ * @publicApi
+ */
+export function createMockServer(
+  document: OpenAPIObject,
+  options?: MockServerOptions
+): Server {
+  const handler = createMockRequestHandler(document, options);
+  return createServer((req, res) => handler(req, res));
+}
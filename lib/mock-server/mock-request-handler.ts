@@ -0,0 +1,240 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { OpenAPIObject } from '../interfaces';
+import { MockServerOptions } from '../interfaces/mock-server-options.interface';
+import {
+  ExampleObject,
+  MediaTypeObject,
+  OperationObject,
+  PathItemObject,
+  ReferenceObject,
+  ResponseObject
+} from '../interfaces/open-api-spec.interface';
+import { SchemaExampleGenerator } from '../services/schema-example-generator';
+import { OPERATION_METHODS } from '../utils/for-each-operation.util';
+import { resolveJsonPointer } from '../utils/json-pointer.util';
+
+export type MockRequestHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname?: string
+) => void;
+
+interface MockRoute {
+  pattern: RegExp;
+  pathItem: PathItemObject;
+}
+
+const JSON_MEDIA_TYPE = /^application\/(.+\+)?json$/i;
+const STREAM_SEPARATORS: Record<string, [string, string]> = {
+  'text/event-stream': ['data: ', '\n\n'],
+  'application/json-seq': ['\x1e', '\n']
+};
+
+/**
+ * Creates a request handler answering every operation of `document.paths`
+ * with the documented examples, or with examples synthesized from the
+ * response schemas.
+ *
+ * The response can be picked with a `Prefer: code=404` and/or
+ * `Prefer: example=<name>` request header; otherwise the first documented
+ * `2XX` response is used.
+ */
+export function createMockRequestHandler(
+  document: OpenAPIObject,
+  options: MockServerOptions = {}
+): MockRequestHandler {
+  const routes = compileRoutes(document);
+  const generator = new SchemaExampleGenerator(document);
+  const resolve = <T>(value: T | ReferenceObject | undefined): T | undefined =>
+    value && typeof value === 'object' && '$ref' in value
+      ? (resolveJsonPointer(document, value.$ref) as T)
+      : (value as T);
+
+  return (
+    req,
+    res,
+    pathname = new URL(req.url, 'http://localhost').pathname
+  ) => {
+    const normalizedPath =
+      pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+    const route = routes.find((item) => item.pattern.test(normalizedPath));
+    if (!route) {
+      return sendJson(res, 404, {
+        statusCode: 404,
+        message: `No mocked operation for ${req.method} ${normalizedPath}`
+      });
+    }
+    const operation = route.pathItem[
+      String(req.method).toLowerCase() as keyof PathItemObject
+    ] as OperationObject | undefined;
+    if (!operation) {
+      res.setHeader(
+        'Allow',
+        OPERATION_METHODS.filter((method) => route.pathItem[method])
+          .map((method) => method.toUpperCase())
+          .join(', ')
+      );
+      return sendJson(res, 405, {
+        statusCode: 405,
+        message: `Method ${req.method} is not documented for ${normalizedPath}`
+      });
+    }
+
+    const prefer = parsePreferHeader(req.headers.prefer);
+    const responses = operation.responses || {};
+    const statusKey = selectStatus(Object.keys(responses), prefer.code);
+    if (!statusKey) {
+      res.statusCode = 204;
+      return res.end();
+    }
+    res.statusCode =
+      statusKey === 'default'
+        ? Number(prefer.code ?? 200)
+        : Number(statusKey.replace(/X/gi, '0'));
+
+    const content = resolve<ResponseObject>(responses[statusKey])?.content;
+    const mediaType = content && negotiate(content, req.headers.accept);
+    if (!mediaType) {
+      return res.end();
+    }
+    const media = content[mediaType];
+    const contentType = mediaType.includes('*')
+      ? 'application/json'
+      : mediaType;
+    res.setHeader('Content-Type', contentType);
+
+    if (media.itemSchema || contentType in STREAM_SEPARATORS) {
+      const [prefix, suffix] = STREAM_SEPARATORS[contentType] ?? ['', '\n'];
+      const item = media.itemSchema
+        ? generator.generate(media.itemSchema)
+        : getExample(media, prefer.example, resolve, generator);
+      for (let index = 0; index < (options.streamItemCount ?? 3); index++) {
+        res.write(`${prefix}${JSON.stringify(item)}${suffix}`);
+      }
+      return res.end();
+    }
+
+    const example = getExample(media, prefer.example, resolve, generator);
+    if (example === undefined) {
+      return res.end();
+    }
+    res.end(
+      typeof example === 'string' && !JSON_MEDIA_TYPE.test(contentType)
+        ? example
+        : JSON.stringify(example)
+    );
+  };
+}
+
+function compileRoutes(document: OpenAPIObject): MockRoute[] {
+  return Object.entries(document.paths || {})
+    .map(([path, pathItem]) => {
+      const segments = path.split('/');
+      const pattern = segments
+        .map((segment) =>
+          segment
+            .split(/(\{[^}]+\})/)
+            .map((part) =>
+              /^\{[^}]+\}$/.test(part)
+                ? '[^/]+'
+                : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+            )
+            .join('')
+        )
+        .join('/');
+      return {
+        pattern: new RegExp(`^${pattern.replace(/\/+$/, '') || '/'}$`),
+        pathItem,
+        templated: (path.match(/\{[^}]+\}/g) || []).length
+      };
+    })
+    .sort((a, b) => a.templated - b.templated)
+    .map(({ pattern, pathItem }) => ({ pattern, pathItem }));
+}
+
+function parsePreferHeader(header: string | string[] | undefined): {
+  code?: string;
+  example?: string;
+} {
+  const value = Array.isArray(header) ? header.join(',') : header || '';
+  return {
+    code: /(?:^|[\s,;])code=(\d{3})/.exec(value)?.[1],
+    example: /(?:^|[\s,;])example=([^\s,;]+)/.exec(value)?.[1]
+  };
+}
+
+function selectStatus(
+  statuses: string[],
+  preferred: string | undefined
+): string | undefined {
+  if (preferred) {
+    const match = [preferred, `${preferred[0]}XX`, 'default'].find((status) =>
+      statuses.includes(status)
+    );
+    if (match) {
+      return match;
+    }
+  }
+  return (
+    statuses.filter((status) => /^2/.test(status)).sort()[0] ??
+    (statuses.includes('default') ? 'default' : statuses.sort()[0])
+  );
+}
+
+/**
+ * Picks the first media type of `content` accepted by the `Accept` header,
+ * preferring JSON when any media type is acceptable.
+ */
+function negotiate(
+  content: Record<string, MediaTypeObject>,
+  accept: string | undefined
+): string | undefined {
+  const mediaTypes = Object.keys(content);
+  const ranges = (accept || '*/*')
+    .split(',')
+    .map((range) => range.split(';')[0].trim().toLowerCase())
+    .filter(Boolean);
+  for (const range of ranges) {
+    const candidates = mediaTypes.filter((mediaType) => {
+      const essence = mediaType.split(';')[0].toLowerCase();
+      return (
+        range === '*/*' ||
+        essence === range ||
+        (range.endsWith('/*') && essence.startsWith(range.slice(0, -1)))
+      );
+    });
+    if (candidates.length > 0) {
+      return (
+        candidates.find((mediaType) => JSON_MEDIA_TYPE.test(mediaType)) ??
+        candidates[0]
+      );
+    }
+  }
+  return mediaTypes[0];
+}
+
+function getExample(
+  media: MediaTypeObject,
+  name: string | undefined,
+  resolve: <T>(value: T | ReferenceObject | undefined) => T | undefined,
+  generator: SchemaExampleGenerator
+): unknown {
+  const examples = media.examples || {};
+  const named = name ? resolve<ExampleObject>(examples[name]) : undefined;
+  if (named) {
+    return named.value;
+  }
+  if (media.example !== undefined) {
+    return media.example;
+  }
+  const first = Object.values(examples)
+    .map((example) => resolve<ExampleObject>(example))
+    .find((example) => example && 'value' in example);
+  return first ? first.value : generator.generate(media.schema);
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
@@ -46,12 +46,13 @@ export class ResponseObjectFactory {
     response = omit(response, ['isArray']);
 
     const isStreaming = (response as any).isStreaming;
-    const streamingContentType = (response as any).contentType as
+    // Media type marker set by `@ApiStreamingResponse()` and `@ApiProblemResponse()`
+    const markedContentType = (response as any).contentType as
       | string
       | undefined;
     if (isStreaming) {
       const exampleKeys = ['example', 'examples'];
-      const contentType = streamingContentType || produces?.[0];
+      const contentType = markedContentType || produces?.[0];
 
       let itemSchema: any;
       if (type) {
@@ -87,6 +88,11 @@ export class ResponseObjectFactory {
       };
     }
 
+    if (markedContentType) {
+      produces = [markedContentType];
+      response = omit(response, ['contentType']) as ApiResponseMetadata;
+    }
+
     if (!type) {
       return this.responseObjectMapper.wrapSchemaWithContent(
         response as ApiResponseSchemaHost,
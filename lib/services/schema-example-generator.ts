@@ -0,0 +1,368 @@
+import { cloneDeep, isPlainObject } from 'lodash';
+import { OpenAPIObject } from '../interfaces';
+import {
+  ReferenceObject,
+  SchemaObject
+} from '../interfaces/open-api-spec.interface';
+import { resolveJsonPointer } from '../utils/json-pointer.util';
+
+type Schema = SchemaObject | ReferenceObject | boolean;
+
+const FORMAT_EXAMPLES: Record<string, string> = {
+  date: '1970-01-01',
+  'date-time': '1970-01-01T00:00:00.000Z',
+  time: '00:00:00Z',
+  duration: 'P1D',
+  email: 'user@example.com',
+  hostname: 'example.com',
+  ipv4: '127.0.0.1',
+  ipv6: '::1',
+  uri: 'https://example.com',
+  url: 'https://example.com',
+  uuid: '00000000-0000-4000-8000-000000000000',
+  byte: 'ZXhhbXBsZQ==',
+  password: 'password'
+};
+
+/**
+ * Builds example values out of the schemas of an OpenAPI document.
+ *
+ * Explicit `example`/`examples`, `const`, `default` and `enum` values win;
+ * otherwise a deterministic value is synthesized from the type, the format
+ * and the bounds of the schema. Recursive references stop at the first cycle.
+ */
+export class SchemaExampleGenerator {
+  constructor(private readonly document: OpenAPIObject) {}
+
+  /**
+   * @param direction `readOnly` properties are omitted from request examples
+   * and `writeOnly` properties from response examples.
+   */
+  generate(
+    schema: Schema | undefined,
+    direction: 'request' | 'response' = 'response'
+  ): unknown {
+    return schema === undefined
+      ? undefined
+      : this.visit(schema, direction, new Set());
+  }
+
+  private visit(
+    schema: Schema,
+    direction: 'request' | 'response',
+    refs: Set<string>
+  ): unknown {
+    if (typeof schema === 'boolean') {
+      return schema ? {} : undefined;
+    }
+    if ('$ref' in schema && typeof schema.$ref === 'string') {
+      if (refs.has(schema.$ref)) {
+        return undefined;
+      }
+      const target = resolveJsonPointer(this.document, schema.$ref) as
+        | Schema
+        | undefined;
+      return target === undefined
+        ? undefined
+        : this.visit(target, direction, new Set([...refs, schema.$ref]));
+    }
+    const schemaObject = schema as SchemaObject;
+
+    if (schemaObject.example !== undefined) {
+      return schemaObject.example;
+    }
+    if (Array.isArray(schemaObject.examples) && schemaObject.examples.length) {
+      return schemaObject.examples[0];
+    }
+    if ('const' in schemaObject) {
+      return schemaObject.const;
+    }
+    if (schemaObject.default !== undefined) {
+      return schemaObject.default;
+    }
+    if (schemaObject.enum?.length) {
+      return schemaObject.enum[0];
+    }
+
+    if (schemaObject.allOf) {
+      const parts = schemaObject.allOf.map((item) =>
+        this.visit(item, direction, refs)
+      );
+      const own = this.visitType(schemaObject, direction, refs);
+      return [...parts, own].reduce(mergeExamples, undefined);
+    }
+    const alternatives = schemaObject.oneOf || schemaObject.anyOf;
+    if (alternatives) {
+      const candidate =
+        alternatives.find((item) => !isNullSchema(item)) ?? alternatives[0];
+      return candidate === undefined
+        ? undefined
+        : this.visit(candidate, direction, refs);
+    }
+    return this.visitType(schemaObject, direction, refs);
+  }
+
+  private visitType(
+    schema: SchemaObject,
+    direction: 'request' | 'response',
+    refs: Set<string>
+  ): unknown {
+    switch (getType(schema)) {
+      case 'string':
+        return generateString(schema);
+      case 'integer':
+      case 'number':
+        return generateNumber(schema, getType(schema) === 'integer');
+      case 'boolean':
+        return true;
+      case 'null':
+        return null;
+      case 'array': {
+        const tuple = (schema.prefixItems || []).map((item) =>
+          this.visit(item, direction, refs)
+        );
+        const item =
+          schema.items === undefined || typeof schema.items === 'boolean'
+            ? undefined
+            : this.visit(schema.items, direction, refs);
+        if (item === undefined) {
+          return tuple;
+        }
+        const length = Math.max(schema.minItems ?? 1, tuple.length ? 0 : 1);
+        return [
+          ...tuple,
+          ...Array.from({ length: Math.max(length - tuple.length, 0) }, () =>
+            cloneDeep(item)
+          )
+        ];
+      }
+      case 'object': {
+        const example: Record<string, unknown> = {};
+        for (const [name, property] of Object.entries(
+          schema.properties || {}
+        )) {
+          const resolved = this.resolve(property);
+          const hidden =
+            direction === 'request' ? resolved?.readOnly : resolved?.writeOnly;
+          if (hidden) {
+            continue;
+          }
+          const value = this.visit(property, direction, refs);
+          if (value !== undefined) {
+            example[name] = value;
+          }
+        }
+        return example;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private resolve(schema: Schema): SchemaObject | undefined {
+    let current: unknown = schema;
+    for (let depth = 0; depth < 16; depth++) {
+      if (!current || typeof current !== 'object' || !('$ref' in current)) {
+        break;
+      }
+      current = resolveJsonPointer(
+        this.document,
+        (current as ReferenceObject).$ref
+      );
+    }
+    return current && typeof current === 'object'
+      ? (current as SchemaObject)
+      : undefined;
+  }
+}
+
+function getType(schema: SchemaObject): string | undefined {
+  const types = Array.isArray(schema.type)
+    ? schema.type
+    : schema.type !== undefined
+      ? [schema.type]
+      : [];
+  const type = types.find((item) => item !== 'null') ?? types[0];
+  if (type) {
+    return type;
+  }
+  if (schema.properties || schema.additionalProperties) {
+    return 'object';
+  }
+  return schema.items !== undefined ? 'array' : undefined;
+}
+
+function generateString(schema: SchemaObject): string {
+  const fromPattern =
+    schema.pattern !== undefined
+      ? generateFromPattern(schema.pattern)
+      : undefined;
+  if (
+    fromPattern !== undefined &&
+    fromPattern.length >= (schema.minLength ?? 0) &&
+    fromPattern.length <= (schema.maxLength ?? Infinity)
+  ) {
+    return fromPattern;
+  }
+  let value = (schema.format && FORMAT_EXAMPLES[schema.format]) ?? 'string';
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    value = value.padEnd(schema.minLength, 'x');
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    value = value.slice(0, schema.maxLength);
+  }
+  return value;
+}
+
+const PATTERN_CANDIDATES = [
+  ...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789-_. @'
+];
+
+const PATTERN_ESCAPES: Record<string, string> = {
+  d: '0',
+  D: 'a',
+  w: 'a',
+  W: '-',
+  s: ' ',
+  S: 'a',
+  b: '',
+  B: '',
+  n: '\n',
+  t: '\t'
+};
+
+/**
+ * Builds a string matching a (simple) regular expression out of the first
+ * branch of alternations, the first matching character of classes and the
+ * minimal repetition of quantifiers (`*` and `{0,n}` repeat once, `?` skips).
+ * Returns `undefined` when the pattern is not supported.
+ */
+function generateFromPattern(pattern: string): string | undefined {
+  let index = 0;
+
+  const parseAlternation = (): string => {
+    const first = parseSequence();
+    while (pattern[index] === '|') {
+      index++;
+      parseSequence();
+    }
+    return first;
+  };
+
+  const parseSequence = (): string => {
+    let result = '';
+    while (index < pattern.length && !'|)'.includes(pattern[index])) {
+      const atom = parseAtom();
+      result += atom.repeat(parseQuantifier());
+    }
+    return result;
+  };
+
+  const parseAtom = (): string => {
+    const char = pattern[index++];
+    switch (char) {
+      case '^':
+      case '$':
+        return '';
+      case '.':
+        return 'a';
+      case '(': {
+        const prefix = /^(?:\?(?::|=|!|<[^>]*>))?/.exec(
+          pattern.slice(index)
+        )[0];
+        index += prefix.length;
+        const group = parseAlternation();
+        if (pattern[index++] !== ')') {
+          throw new Error('Unterminated group');
+        }
+        return prefix === '?=' || prefix === '?!' ? '' : group;
+      }
+      case '[': {
+        const end = pattern.slice(index).search(/(?<!\\)\]/);
+        if (end < 0) {
+          throw new Error('Unterminated class');
+        }
+        const charClass = new RegExp(`[${pattern.slice(index, index + end)}]`);
+        index += end + 1;
+        const match = PATTERN_CANDIDATES.find((candidate) =>
+          charClass.test(candidate)
+        );
+        if (match === undefined) {
+          throw new Error('Unsupported class');
+        }
+        return match;
+      }
+      case '\\': {
+        const escaped = pattern[index++];
+        return escaped in PATTERN_ESCAPES ? PATTERN_ESCAPES[escaped] : escaped;
+      }
+      default:
+        return char;
+    }
+  };
+
+  const parseQuantifier = (): number => {
+    const match = /^(?:([?*+])|\{(\d+)(?:,(\d*))?\})\??/.exec(
+      pattern.slice(index)
+    );
+    if (!match) {
+      return 1;
+    }
+    index += match[0].length;
+    if (match[1]) {
+      return match[1] === '?' ? 0 : 1;
+    }
+    const min = Number(match[2]);
+    return min === 0 && match[3] !== '0' ? 1 : min;
+  };
+
+  try {
+    const value = parseAlternation();
+    return index === pattern.length && new RegExp(pattern, 'u').test(value)
+      ? value
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function generateNumber(schema: SchemaObject, integer: boolean): number {
+  const step = integer ? 1 : 0.1;
+  let value = 0;
+  if (schema.minimum !== undefined) {
+    value =
+      schema.exclusiveMinimum === true ? schema.minimum + step : schema.minimum;
+  } else if (typeof schema.exclusiveMinimum === 'number') {
+    value = schema.exclusiveMinimum + step;
+  }
+  if (
+    schema.maximum !== undefined &&
+    (value > schema.maximum ||
+      (schema.exclusiveMaximum === true && value >= schema.maximum))
+  ) {
+    value =
+      schema.exclusiveMaximum === true ? schema.maximum - step : schema.maximum;
+  } else if (
+    typeof schema.exclusiveMaximum === 'number' &&
+    value >= schema.exclusiveMaximum
+  ) {
+    value = schema.exclusiveMaximum - step;
+  }
+  return integer ? Math.ceil(value) : value;
+}
+
+function isNullSchema(schema: Schema): boolean {
+  return (
+    typeof schema === 'object' && !('$ref' in schema) && schema.type === 'null'
+  );
+}
+
+function mergeExamples(target: unknown, source: unknown): unknown {
+  if (isPlainObject(target) && isPlainObject(source)) {
+    return { ...(target as object), ...(source as object) };
+  }
+  return source === undefined ||
+    (isPlainObject(source) && Object.keys(source as object).length === 0)
+    ? target
+    : source;
+}
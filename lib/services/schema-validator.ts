@@ -0,0 +1,549 @@
+import { isEqual, isPlainObject } from 'lodash';
+import { OpenAPIObject } from '../interfaces';
+import {
+  ReferenceObject,
+  SchemaObject
+} from '../interfaces/open-api-spec.interface';
+import { SchemaViolation } from '../interfaces/schema-violation.interface';
+import { resolveJsonPointer, toJsonPointer } from '../utils/json-pointer.util';
+
+type Schema = SchemaObject | ReferenceObject | boolean;
+
+/**
+ * Which side of an exchange a value belongs to. `readOnly` properties are not
+ * required in requests and `writeOnly` properties are not required in
+ * responses.
+ */
+export type SchemaValidationDirection = 'request' | 'response';
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time':
+    /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+};
+
+/**
+ * Validates values against the schemas of an OpenAPI document. Local `$ref`s
+ * are resolved against the document, and both the OAS 3.0 `nullable` keyword
+ * and the OAS 3.1 `type: [..., 'null']` form are understood.
+ *
+ * Unknown formats and keywords are ignored.
+ */
+export class SchemaValidator {
+  constructor(private readonly document: OpenAPIObject) {}
+
+  validate(
+    schema: Schema | undefined,
+    value: unknown,
+    path: Array<string | number> = [],
+    direction: SchemaValidationDirection = 'request'
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    if (schema !== undefined) {
+      this.visit(schema, value, path, direction, violations);
+    }
+    return violations;
+  }
+
+  /**
+   * Resolves `$ref` chains until a schema object (or boolean schema) is reached.
+   */
+  resolve(schema: Schema | undefined): SchemaObject | boolean | undefined {
+    const seen = new Set<string>();
+    let current: unknown = schema;
+    while (isReference(current)) {
+      if (seen.has(current.$ref)) {
+        return undefined;
+      }
+      seen.add(current.$ref);
+      current = resolveJsonPointer(this.document, current.$ref);
+    }
+    return current as SchemaObject | boolean | undefined;
+  }
+
+  private visit(
+    schema: Schema,
+    value: unknown,
+    path: Array<string | number>,
+    direction: SchemaValidationDirection,
+    violations: SchemaViolation[]
+  ) {
+    const report = (keyword: string, message: string) =>
+      violations.push({ keyword, message, pointer: toJsonPointer(path) });
+
+    if (typeof schema === 'boolean') {
+      if (!schema) {
+        report('false', 'is not allowed');
+      }
+      return;
+    }
+    if (isReference(schema)) {
+      const target = this.resolve(schema);
+      if (target !== undefined) {
+        this.visit(target, value, path, direction, violations);
+      }
+      return;
+    }
+
+    if (value === null && schema.nullable) {
+      return;
+    }
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => matchesType(type, value))) {
+        report('type', `must be ${types.join(' or ')}`);
+        return;
+      }
+    }
+    if (schema.enum && !schema.enum.some((item) => isEqual(item, value))) {
+      report(
+        'enum',
+        `must be one of ${schema.enum.map((item) => JSON.stringify(item)).join(', ')}`
+      );
+    }
+    if ('const' in schema && !isEqual(schema.const, value)) {
+      report('const', `must be ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'string') {
+      this.visitString(schema, value, report);
+    } else if (typeof value === 'number') {
+      this.visitNumber(schema, value, report);
+    } else if (Array.isArray(value)) {
+      this.visitArray(schema, value, path, direction, violations, report);
+    } else if (isPlainObject(value)) {
+      this.visitObject(
+        schema,
+        value as Record<string, unknown>,
+        path,
+        direction,
+        violations,
+        report
+      );
+    }
+
+    this.visitComposition(schema, value, path, direction, violations, report);
+  }
+
+  private visitString(
+    schema: SchemaObject,
+    value: string,
+    report: (keyword: string, message: string) => void
+  ) {
+    const length = [...value].length;
+    if (schema.minLength !== undefined && length < schema.minLength) {
+      report(
+        'minLength',
+        `must not have fewer than ${schema.minLength} characters`
+      );
+    }
+    if (schema.maxLength !== undefined && length > schema.maxLength) {
+      report(
+        'maxLength',
+        `must not have more than ${schema.maxLength} characters`
+      );
+    }
+    if (
+      schema.pattern !== undefined &&
+      !matchesPattern(schema.pattern, value)
+    ) {
+      report('pattern', `must match pattern "${schema.pattern}"`);
+    }
+    const format = schema.format && FORMAT_PATTERNS[schema.format];
+    if (format && !format.test(value)) {
+      report('format', `must be a valid ${schema.format}`);
+    }
+  }
+
+  private visitNumber(
+    schema: SchemaObject,
+    value: number,
+    report: (keyword: string, message: string) => void
+  ) {
+    if (schema.minimum !== undefined) {
+      if (schema.exclusiveMinimum === true && value <= schema.minimum) {
+        report('exclusiveMinimum', `must be greater than ${schema.minimum}`);
+      } else if (value < schema.minimum) {
+        report('minimum', `must be greater than or equal to ${schema.minimum}`);
+      }
+    }
+    if (
+      typeof schema.exclusiveMinimum === 'number' &&
+      value <= schema.exclusiveMinimum
+    ) {
+      report(
+        'exclusiveMinimum',
+        `must be greater than ${schema.exclusiveMinimum}`
+      );
+    }
+    if (schema.maximum !== undefined) {
+      if (schema.exclusiveMaximum === true && value >= schema.maximum) {
+        report('exclusiveMaximum', `must be less than ${schema.maximum}`);
+      } else if (value > schema.maximum) {
+        report('maximum', `must be less than or equal to ${schema.maximum}`);
+      }
+    }
+    if (
+      typeof schema.exclusiveMaximum === 'number' &&
+      value >= schema.exclusiveMaximum
+    ) {
+      report(
+        'exclusiveMaximum',
+        `must be less than ${schema.exclusiveMaximum}`
+      );
+    }
+    if (
+      schema.multipleOf !== undefined &&
+      !Number.isInteger(Number((value / schema.multipleOf).toPrecision(12)))
+    ) {
+      report('multipleOf', `must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+
+  private visitArray(
+    schema: SchemaObject,
+    value: unknown[],
+    path: Array<string | number>,
+    direction: SchemaValidationDirection,
+    violations: SchemaViolation[],
+    report: (keyword: string, message: string) => void
+  ) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report('minItems', `must not have fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      report('maxItems', `must not have more than ${schema.maxItems} items`);
+    }
+    if (
+      schema.uniqueItems &&
+      value.some((item, index) =>
+        value.slice(index + 1).some((other) => isEqual(item, other))
+      )
+    ) {
+      report('uniqueItems', 'must not contain duplicate items');
+    }
+
+    const prefixItems = schema.prefixItems || [];
+    value.forEach((item, index) => {
+      const itemSchema =
+        index < prefixItems.length ? prefixItems[index] : schema.items;
+      if (itemSchema !== undefined) {
+        this.visit(itemSchema, item, [...path, index], direction, violations);
+      }
+    });
+
+    if (schema.contains !== undefined) {
+      const matches = value.filter((item) =>
+        this.isValid(schema.contains, item, direction)
+      ).length;
+      const minContains = schema.minContains ?? 1;
+      if (matches < minContains) {
+        report(
+          'contains',
+          `must contain at least ${minContains} matching item(s)`
+        );
+      }
+      if (schema.maxContains !== undefined && matches > schema.maxContains) {
+        report(
+          'maxContains',
+          `must not contain more than ${schema.maxContains} matching item(s)`
+        );
+      }
+    }
+  }
+
+  private visitObject(
+    schema: SchemaObject,
+    value: Record<string, unknown>,
+    path: Array<string | number>,
+    direction: SchemaValidationDirection,
+    violations: SchemaViolation[],
+    report: (keyword: string, message: string) => void
+  ) {
+    const properties = schema.properties || {};
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined);
+
+    for (const name of schema.required || []) {
+      if (value[name] !== undefined) {
+        continue;
+      }
+      const property = this.resolve(properties[name]);
+      const skipped =
+        typeof property === 'object' &&
+        (direction === 'request' ? property.readOnly : property.writeOnly);
+      if (!skipped) {
+        violations.push({
+          keyword: 'required',
+          message: 'is required',
+          pointer: toJsonPointer([...path, name])
+        });
+      }
+    }
+
+    if (
+      schema.minProperties !== undefined &&
+      keys.length < schema.minProperties
+    ) {
+      report(
+        'minProperties',
+        `must not have fewer than ${schema.minProperties} properties`
+      );
+    }
+    if (
+      schema.maxProperties !== undefined &&
+      keys.length > schema.maxProperties
+    ) {
+      report(
+        'maxProperties',
+        `must not have more than ${schema.maxProperties} properties`
+      );
+    }
+
+    for (const [name, dependencies] of Object.entries(
+      schema.dependentRequired || {}
+    )) {
+      if (value[name] === undefined) {
+        continue;
+      }
+      for (const dependency of dependencies) {
+        if (value[dependency] === undefined) {
+          violations.push({
+            keyword: 'dependentRequired',
+            message: `is required when "${name}" is present`,
+            pointer: toJsonPointer([...path, dependency])
+          });
+        }
+      }
+    }
+
+    const patternProperties = Object.entries(schema.patternProperties || {});
+    for (const key of keys) {
+      const propertyPath = [...path, key];
+      let evaluated = false;
+      if (key in properties) {
+        evaluated = true;
+        this.visit(
+          properties[key],
+          value[key],
+          propertyPath,
+          direction,
+          violations
+        );
+      }
+      for (const [pattern, patternSchema] of patternProperties) {
+        if (matchesPattern(pattern, key)) {
+          evaluated = true;
+          this.visit(
+            patternSchema,
+            value[key],
+            propertyPath,
+            direction,
+            violations
+          );
+        }
+      }
+      if (evaluated || schema.additionalProperties === undefined) {
+        continue;
+      }
+      if (schema.additionalProperties === false) {
+        violations.push({
+          keyword: 'additionalProperties',
+          message: 'is not allowed',
+          pointer: toJsonPointer(propertyPath)
+        });
+      } else if (schema.additionalProperties !== true) {
+        this.visit(
+          schema.additionalProperties,
+          value[key],
+          propertyPath,
+          direction,
+          violations
+        );
+      }
+    }
+  }
+
+  private visitComposition(
+    schema: SchemaObject,
+    value: unknown,
+    path: Array<string | number>,
+    direction: SchemaValidationDirection,
+    violations: SchemaViolation[],
+    report: (keyword: string, message: string) => void
+  ) {
+    for (const subSchema of schema.allOf || []) {
+      this.visit(subSchema, value, path, direction, violations);
+    }
+    if (schema.anyOf) {
+      const results = this.validateBranches(
+        schema.anyOf,
+        value,
+        path,
+        direction
+      );
+      if (!results.some((branch) => branch.length === 0)) {
+        reportBranches(results, path, violations, () =>
+          report('anyOf', 'must match at least one of the allowed schemas')
+        );
+      }
+    }
+    if (schema.oneOf) {
+      const discriminated = this.getDiscriminatedSchema(schema, value);
+      if (discriminated === null) {
+        violations.push({
+          keyword: 'discriminator',
+          message: `must be one of the mapped values`,
+          pointer: toJsonPointer([...path, schema.discriminator.propertyName])
+        });
+      } else if (discriminated) {
+        this.visit(discriminated, value, path, direction, violations);
+      } else {
+        const results = this.validateBranches(
+          schema.oneOf,
+          value,
+          path,
+          direction
+        );
+        const matches = results.filter((branch) => branch.length === 0).length;
+        if (matches === 0) {
+          reportBranches(results, path, violations, () =>
+            report('oneOf', 'must match one of the allowed schemas')
+          );
+        } else if (matches > 1) {
+          report('oneOf', 'must match exactly one of the allowed schemas');
+        }
+      }
+    }
+    if (
+      schema.not !== undefined &&
+      this.isValid(schema.not, value, direction)
+    ) {
+      report('not', 'must not match the excluded schema');
+    }
+    if (schema.if !== undefined) {
+      const branch = this.isValid(schema.if, value, direction)
+        ? schema.then
+        : schema.else;
+      if (branch !== undefined) {
+        this.visit(branch, value, path, direction, violations);
+      }
+    }
+  }
+
+  /**
+   * Picks the `oneOf` member selected by the discriminator property.
+   * Returns `undefined` when the schema has no usable discriminator and
+   * `null` when the value does not map to any member.
+   */
+  private getDiscriminatedSchema(
+    schema: SchemaObject,
+    value: unknown
+  ): ReferenceObject | null | undefined {
+    const propertyName = schema.discriminator?.propertyName;
+    if (!propertyName || !isPlainObject(value)) {
+      return undefined;
+    }
+    const discriminatorValue = (value as Record<string, unknown>)[propertyName];
+    if (typeof discriminatorValue !== 'string') {
+      return undefined;
+    }
+    const mapped = schema.discriminator.mapping?.[discriminatorValue];
+    const $ref = mapped
+      ? mapped.startsWith('#')
+        ? mapped
+        : `#/components/schemas/${mapped}`
+      : `#/components/schemas/${discriminatorValue}`;
+    const isMember = schema.oneOf.some(
+      (subSchema) => isReference(subSchema) && subSchema.$ref === $ref
+    );
+    return isMember ? { $ref } : null;
+  }
+
+  private validateBranches(
+    schemas: Schema[],
+    value: unknown,
+    path: Array<string | number>,
+    direction: SchemaValidationDirection
+  ): SchemaViolation[][] {
+    return schemas.map((subSchema) => {
+      const violations: SchemaViolation[] = [];
+      this.visit(subSchema, value, path, direction, violations);
+      return violations;
+    });
+  }
+
+  private isValid(
+    schema: Schema,
+    value: unknown,
+    direction: SchemaValidationDirection
+  ): boolean {
+    const violations: SchemaViolation[] = [];
+    this.visit(schema, value, [], direction, violations);
+    return violations.length === 0;
+  }
+}
+
+function isReference(value: unknown): value is ReferenceObject {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ReferenceObject).$ref === 'string'
+  );
+}
+
+/**
+ * Reports the violations of the only `anyOf`/`oneOf` branch whose type
+ * matches the value (e.g. the object branch of a nullable reference), or
+ * falls back to a single generic violation.
+ */
+function reportBranches(
+  results: SchemaViolation[][],
+  path: Array<string | number>,
+  violations: SchemaViolation[],
+  fallback: () => void
+) {
+  const pointer = toJsonPointer(path);
+  const candidates = results.filter(
+    (branch) =>
+      !branch.some(
+        (violation) =>
+          violation.keyword === 'type' && violation.pointer === pointer
+      )
+  );
+  if (candidates.length === 1) {
+    violations.push(...candidates[0]);
+  } else {
+    fallback();
+  }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    return true;
+  }
+}
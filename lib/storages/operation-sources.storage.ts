@@ -0,0 +1,20 @@
+import { OpenAPIObject } from '../interfaces';
+import { OperationSource } from '../interfaces/operation-source.interface';
+
+export class OperationSourcesStorageHost {
+  private sources = new WeakMap<OpenAPIObject, OperationSource[]>();
+
+  set(document: OpenAPIObject, sources: OperationSource[]) {
+    this.sources.set(document, sources);
+  }
+
+  get(document: OpenAPIObject): OperationSource[] | undefined {
+    return this.sources.get(document);
+  }
+}
+
+const globalRef = global as any;
+export const OperationSourcesStorage: OperationSourcesStorageHost =
+  globalRef.SwaggerOperationSourcesStorage ||
+  (globalRef.SwaggerOperationSourcesStorage =
+    new OperationSourcesStorageHost());
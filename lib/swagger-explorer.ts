@@ -36,11 +36,13 @@ import { DECORATORS } from './constants';
 import { exploreApiCallbacksMetadata } from './explorers/api-callbacks.explorer';
 import { exploreApiExcludeControllerMetadata } from './explorers/api-exclude-controller.explorer';
 import { exploreApiExcludeEndpointMetadata } from './explorers/api-exclude-endpoint.explorer';
+import { exploreApiVisibilityMetadata } from './explorers/api-visibility.explorer';
 import {
   exploreApiExtraModelsMetadata,
   exploreGlobalApiExtraModelsMetadata
 } from './explorers/api-extra-models.explorer';
 import { exploreGlobalApiHeaderMetadata } from './explorers/api-headers.explorer';
+import { exploreInferredErrorResponsesMetadata } from './explorers/api-inferred-responses.explorer';
 import { exploreApiOperationMetadata } from './explorers/api-operation.explorer';
 import { exploreApiParametersMetadata } from './explorers/api-parameters.explorer';
 import {
@@ -49,21 +51,28 @@ import {
 } from './explorers/api-response.explorer';
 import {
   exploreApiSecurityMetadata,
-  exploreGlobalApiSecurityMetadata
+  exploreGlobalApiSecurityMetadata,
+  exploreInferredApiSecurityMetadata
 } from './explorers/api-security.explorer';
 import {
   exploreApiTagsMetadata,
   exploreGlobalApiTagsMetadata
 } from './explorers/api-use-tags.explorer';
-import { OperationIdFactory } from './interfaces';
+import {
+  ErrorResponseMappings,
+  OperationIdFactory,
+  SecurityResolvers
+} from './interfaces';
 import { DenormalizedDocResolvers } from './interfaces/denormalized-doc-resolvers.interface';
 import { DenormalizedDoc } from './interfaces/denormalized-doc.interface';
+import { OperationSource } from './interfaces/operation-source.interface';
 import {
   OpenAPIObject,
   SchemaObject
 } from './interfaces/open-api-spec.interface';
 import { MimetypeContentWrapper } from './services/mimetype-content-wrapper';
 import { SchemaObjectFactory } from './services/schema-object-factory';
+import { isVisibleTo } from './utils/filter-document-audience.util';
 import { isBodyParameter } from './utils/is-body-parameter.util';
 import { mergeAndUniq } from './utils/merge-and-uniq.util';
 
@@ -71,6 +80,7 @@ export class SwaggerExplorer {
   private readonly mimetypeContentWrapper = new MimetypeContentWrapper();
   private readonly metadataScanner = new MetadataScanner();
   private readonly schemas: Record<string, SchemaObject> = {};
+  private readonly operationSources: OperationSource[] = [];
   private operationIdFactory: OperationIdFactory = (
     controllerKey: string,
     methodKey: string,
@@ -113,9 +123,21 @@ export class SwaggerExplorer {
         fieldKey: string
       ) => string;
       autoTagControllers?: boolean;
+      inferErrorResponses?: boolean;
+      errorResponseMappings?: ErrorResponseMappings;
+      securityResolvers?: SecurityResolvers;
+      publicMetadataKeys?: Array<string | symbol>;
+      audiences?: string[];
     }
   ) {
-    const { operationIdFactory, linkNameFactory } = options;
+    const {
+      operationIdFactory,
+      linkNameFactory,
+      inferErrorResponses,
+      errorResponseMappings = {},
+      securityResolvers,
+      publicMetadataKeys = ['isPublic']
+    } = options;
 
     this.routePathFactory = new RoutePathFactory(applicationConfig);
     if (operationIdFactory) {
@@ -127,20 +149,41 @@ export class SwaggerExplorer {
     }
     const { instance, metatype } = wrapper;
     const prototype = Object.getPrototypeOf(instance);
+    const responseFactories = {
+      operationId: this.operationIdFactory,
+      linkName: this.linkNameFactory
+    };
     const documentResolvers: DenormalizedDocResolvers = {
       root: [
         this.exploreRoutePathAndMethod,
         exploreApiOperationMetadata,
-        exploreApiParametersMetadata.bind(null, this.schemas)
+        exploreApiParametersMetadata.bind(null, this.schemas),
+        ...(securityResolvers
+          ? [
+              exploreInferredApiSecurityMetadata.bind(
+                null,
+                securityResolvers,
+                publicMetadataKeys
+              )
+            ]
+          : [])
       ],
       security: [exploreApiSecurityMetadata],
       tags: [exploreApiTagsMetadata],
       callbacks: [exploreApiCallbacksMetadata],
       responses: [
-        exploreApiResponseMetadata.bind(null, this.schemas, {
-          operationId: this.operationIdFactory,
-          linkName: this.linkNameFactory
-        })
+        // Inferred first so that explicitly declared responses override them
+        ...(inferErrorResponses
+          ? [
+              exploreInferredErrorResponsesMetadata.bind(
+                null,
+                this.schemas,
+                responseFactories,
+                errorResponseMappings
+              )
+            ]
+          : []),
+        exploreApiResponseMetadata.bind(null, this.schemas, responseFactories)
       ]
     };
     return this.generateDenormalizedDocument(
@@ -157,6 +200,10 @@ export class SwaggerExplorer {
     return this.schemas;
   }
 
+  public getOperationSources(): OperationSource[] {
+    return this.operationSources;
+  }
+
   private generateDenormalizedDocument(
     metatype: Type<unknown>,
     prototype: Type<unknown>,
@@ -167,6 +214,7 @@ export class SwaggerExplorer {
       modulePath?: string;
       globalPrefix?: string;
       autoTagControllers?: boolean;
+      audiences?: string[];
     }
   ): DenormalizedDoc[] {
     // eslint-disable-next-line @typescript-eslint/no-this-alias
@@ -195,6 +243,14 @@ export class SwaggerExplorer {
       if (excludeEndpoint && excludeEndpoint.disable) {
         return;
       }
+      if (
+        !isVisibleTo(
+          exploreApiVisibilityMetadata(metatype, targetCallback),
+          options.audiences
+        )
+      ) {
+        return;
+      }
       const ctrlExtraModels = exploreApiExtraModelsMetadata(
         instance,
         prototype,
@@ -234,16 +290,40 @@ export class SwaggerExplorer {
       );
 
       if (Array.isArray(methodMetadata.root)) {
-        return methodMetadata.root.map((endpointMetadata: DenormalizedDoc) => {
-          endpointMetadata = cloneDeep({
-            ...methodMetadata,
-            root: endpointMetadata as any
-          });
-          const mergedMethodMetadata = this.mergeMetadata(
-            globalMetadata,
-            omitBy(endpointMetadata, isEmpty)
-          );
-          return this.migrateOperationSchema(
+        const documents = methodMetadata.root.map(
+          (endpointMetadata: DenormalizedDoc) => {
+            endpointMetadata = cloneDeep({
+              ...methodMetadata,
+              root: endpointMetadata as any
+            });
+            const mergedMethodMetadata = this.mergeMetadata(
+              globalMetadata,
+              omitBy(endpointMetadata, isEmpty)
+            );
+            return this.migrateOperationSchema(
+              {
+                responses: {},
+                ...omit(globalMetadata, 'chunks'),
+                ...mergedMethodMetadata
+              },
+              prototype,
+              targetCallback
+            );
+          }
+        );
+        return this.registerOperationSources(
+          documents,
+          metatype,
+          targetCallback
+        );
+      }
+      const mergedMethodMetadata = this.mergeMetadata(
+        globalMetadata,
+        omitBy(methodMetadata, isEmpty)
+      );
+      return this.registerOperationSources(
+        [
+          this.migrateOperationSchema(
             {
               responses: {},
               ...omit(globalMetadata, 'chunks'),
@@ -251,24 +331,11 @@ export class SwaggerExplorer {
             },
             prototype,
             targetCallback
-          );
-        });
-      }
-      const mergedMethodMetadata = this.mergeMetadata(
-        globalMetadata,
-        omitBy(methodMetadata, isEmpty)
+          )
+        ],
+        metatype,
+        targetCallback
       );
-      return [
-        this.migrateOperationSchema(
-          {
-            responses: {},
-            ...omit(globalMetadata, 'chunks'),
-            ...mergedMethodMetadata
-          },
-          prototype,
-          targetCallback
-        )
-      ];
     });
 
     return flatten(denormalizedPaths).filter((path) => path.root?.path);
@@ -428,6 +495,7 @@ export class SwaggerExplorer {
                     : method.name
               }
             : {}),
+          ...(pathVersion ? { version: pathVersion } : {}),
           operationId: this.getOperationId(instance, methodKey, pathVersion),
           ...apiExtension
         };
@@ -624,6 +692,27 @@ export class SwaggerExplorer {
     return document;
   }
 
+  private registerOperationSources(
+    documents: DenormalizedDoc[],
+    controller: Type<unknown>,
+    handler: Function
+  ): DenormalizedDoc[] {
+    documents
+      .filter((document) => document.root?.path)
+      .forEach(({ root }) => {
+        this.operationSources.push({
+          location: root.isWebhook ? 'webhooks' : 'paths',
+          key: root.isWebhook ? root.webhookName || root.path : root.path,
+          method: root.method,
+          operationId: root.operationId,
+          version: root.version,
+          controller,
+          handler
+        });
+      });
+    return documents;
+  }
+
   private registerExtraModels(extraModels: Function[]) {
     extraModels.forEach((item) =>
       this.schemaObjectFactory.exploreModelSchema(item, this.schemas)
@@ -1,12 +1,20 @@
-import { INestApplication, NotFoundException } from '@nestjs/common';
+import { INestApplication, Logger, NotFoundException } from '@nestjs/common';
 import { HttpServer } from '@nestjs/common/interfaces/http/http-server.interface';
+import { readFileSync } from 'fs';
+import { IncomingMessage, ServerResponse } from 'http';
+import { cloneDeep } from 'lodash';
 import { NestExpressApplication } from '@nestjs/platform-express';
 import { NestFastifyApplication } from '@nestjs/platform-fastify';
-import * as jsyaml from 'js-yaml';
 import {
+  DeduplicateInlineSchemasOptions,
+  DocumentContentEncoding,
+  MockServerOptions,
   OpenAPIObject,
+  PruneUnreachableSchemasOptions,
   SwaggerCustomOptions,
-  SwaggerDocumentOptions
+  SwaggerDocumentOptions,
+  SwaggerMultiDocumentOptions,
+  UiRenderer
 } from './interfaces';
 import {
   CallbackObject,
@@ -25,21 +33,52 @@ import {
   SchemaObject,
   TagObject
 } from './interfaces/open-api-spec.interface';
+import { DocumentDiagnostic } from './interfaces/document-diagnostic.interface';
+import { OperationSource } from './interfaces/operation-source.interface';
+import { createMockRequestHandler } from './mock-server/mock-request-handler';
 import { MetadataLoader } from './plugin/metadata-loader';
+import { OperationSourcesStorage } from './storages/operation-sources.storage';
 import { SwaggerScanner } from './swagger-scanner';
 import {
   buildSwaggerHTML,
   buildSwaggerInitJS,
-  getSwaggerAssetsAbsoluteFSPath
+  buildUiRendererHTML,
+  DocumentUiRenderer,
+  getSwaggerAssetsAbsoluteFSPath,
+  getUiRendererAssetAbsoluteFSPath,
+  getUiRendererCdnUrl
 } from './swagger-ui';
+import { addAutoExamples } from './utils/add-auto-examples.util';
+import { addDiscriminatorConsts } from './utils/add-discriminator-consts.util';
 import { assignTwoLevelsDeep } from './utils/assign-two-levels-deep';
+import { deduplicateInlineSchemas } from './utils/deduplicate-inline-schemas.util';
+import { withDocumentationAuth } from './utils/documentation-auth.util';
+import { filterDocumentAudience } from './utils/filter-document-audience.util';
 import { getGlobalPrefix } from './utils/get-global-prefix';
 import { normalizeRelPath } from './utils/normalize-rel-path';
+import { isOpenApiVersionAtLeast } from './utils/openapi-version.util';
+import { pruneUnreachableSchemas } from './utils/prune-unreachable-schemas.util';
 import { resolvePath } from './utils/resolve-path.util';
+import {
+  createDocumentRepresentation,
+  DocumentRepresentation,
+  matchesIfNoneMatch,
+  negotiateContentEncoding,
+  negotiateDocumentFormat
+} from './utils/document-representation.util';
+import { DocumentFormat } from './utils/serialize-document.util';
+import { sortDocument } from './utils/sort-document.util';
+import { splitDocument } from './utils/split-document.util';
 import { validateGlobalPrefix } from './utils/validate-global-prefix.util';
 import { validatePath } from './utils/validate-path.util';
+import {
+  DocumentValidationError,
+  formatDocumentDiagnostic,
+  validateDocument
+} from './utils/validate-document.util';
 import { buildXTagGroups } from './utils/build-x-tag-groups.util';
 import { collectOperationTagNames } from './utils/collect-operation-tag-names.util';
+import { findMissingComponentRefs } from './utils/component-ref.util';
 
 const NULL_TYPE_SCHEMA: SchemaObject = { type: 'null' };
 
@@ -50,13 +89,7 @@ function isReferenceObject(
 }
 
 function isOas31OrAbove(openapi?: string): boolean {
-  const [majorStr, minorStr] = (openapi || '').split('.');
-  const major = Number(majorStr);
-  const minor = Number(minorStr);
-  if (Number.isNaN(major) || Number.isNaN(minor)) {
-    return false;
-  }
-  return major > 3 || (major === 3 && minor >= 1);
+  return isOpenApiVersionAtLeast(openapi, 3, 1);
 }
 
 function appendNullOption(
@@ -532,6 +565,68 @@ export class SwaggerModule {
     config: Omit<OpenAPIObject, 'paths'>,
     options: SwaggerDocumentOptions = {}
   ): OpenAPIObject {
+    const { document: builtDocument, operationSources } =
+      SwaggerModule.buildDocument(app, config, options);
+    const document = options.sortOutput
+      ? sortDocument(builtDocument)
+      : builtDocument;
+
+    if (options.validate) {
+      SwaggerModule.reportDiagnostics(
+        validateDocument(document, operationSources),
+        options.validate
+      );
+    }
+
+    OperationSourcesStorage.set(document, operationSources);
+    return document;
+  }
+
+  /**
+   * Generates several documents out of a single application, grouped by URI
+   * version, tag or a custom function. Each document only holds the schemas
+   * reachable from its own operations.
+   *
+   * @returns a map of documents keyed by group name
+   */
+  public static createDocuments(
+    app: INestApplication,
+    config: Omit<OpenAPIObject, 'paths'>,
+    options: SwaggerMultiDocumentOptions
+  ): Record<string, OpenAPIObject> {
+    const { splitBy, ...documentOptions } = options;
+    const { document, operationSources } = SwaggerModule.buildDocument(
+      app,
+      config,
+      documentOptions
+    );
+    const documents = splitDocument(document, operationSources, splitBy);
+    if (options.sortOutput) {
+      for (const [name, splitDocument] of Object.entries(documents)) {
+        documents[name] = sortDocument(splitDocument);
+      }
+    }
+
+    if (options.validate) {
+      for (const splitDocument of Object.values(documents)) {
+        SwaggerModule.reportDiagnostics(
+          validateDocument(splitDocument, operationSources),
+          options.validate
+        );
+      }
+    }
+
+    for (const splitDocument of Object.values(documents)) {
+      OperationSourcesStorage.set(splitDocument, operationSources);
+    }
+    return documents;
+  }
+
+  private static buildDocument(
+    app: INestApplication,
+    config: Omit<OpenAPIObject, 'paths'>,
+    options: SwaggerDocumentOptions
+  ): { document: OpenAPIObject; operationSources: OperationSource[] } {
     const swaggerScanner = new SwaggerScanner();
     const document = swaggerScanner.scanApplication(app, options);
 
@@ -555,18 +650,31 @@ export class SwaggerModule {
       (document as any).webhooks
     );
 
-    const mergedDocument: OpenAPIObject = {
+    // The passes below rewrite the document in place: clone it so that they
+    // never reach the objects owned by `config` or by decorator metadata.
+    const mergedDocument: OpenAPIObject = cloneDeep({
       openapi: '3.0.0',
       paths: {},
       ...config,
       ...document,
       ...(mergedTags ? { tags: mergedTags } : {}),
       ...(mergedWebhooks ? { webhooks: mergedWebhooks } : {})
-    };
+    });
+
+    SwaggerModule.assertComponentRefs(mergedDocument);
+    filterDocumentAudience(mergedDocument, options.audience);
 
     if (isOas31OrAbove(mergedDocument.openapi)) {
       normalizeNullableForOas31(mergedDocument);
     }
+    addDiscriminatorConsts(
+      mergedDocument,
+      isOas31OrAbove(mergedDocument.openapi)
+    );
+
+    if (options.autoExamples) {
+      addAutoExamples(mergedDocument);
+    }
 
     // Auto-derive `x-tagGroups` from Enhanced Tags (`parent`) if not explicitly provided.
     if (mergedDocument['x-tagGroups'] === undefined) {
@@ -579,7 +687,63 @@ export class SwaggerModule {
       }
     }
 
-    return mergedDocument;
+    if (options.pruneUnreachableSchemas) {
+      const pruneOptions: PruneUnreachableSchemasOptions =
+        typeof options.pruneUnreachableSchemas === 'object'
+          ? options.pruneUnreachableSchemas
+          : {};
+      const removedSchemas = pruneUnreachableSchemas(
+        mergedDocument,
+        pruneOptions.keep
+      );
+      pruneOptions.onPrune?.(removedSchemas);
+    }
+
+    if (options.deduplicateInlineSchemas) {
+      const deduplicateOptions: DeduplicateInlineSchemasOptions =
+        typeof options.deduplicateInlineSchemas === 'object'
+          ? options.deduplicateInlineSchemas
+          : {};
+      const hoistedRefs = deduplicateInlineSchemas(
+        mergedDocument,
+        deduplicateOptions.minOccurrences
+      );
+      deduplicateOptions.onDeduplicate?.(hoistedRefs);
+    }
+
+    return {
+      document: mergedDocument,
+      operationSources: swaggerScanner.getOperationSources()
+    };
+  }
+
+  private static assertComponentRefs(document: OpenAPIObject) {
+    const missingRefs = findMissingComponentRefs(document);
+    if (missingRefs.size === 0) {
+      return;
+    }
+    const references = [...missingRefs]
+      .map(([ref, pointer]) => `"${ref}" (at ${pointer})`)
+      .join(', ');
+    throw new Error(
+      `The document references components that are not registered: ${references}. Register them with DocumentBuilder.addComponentParameter(), addComponentResponse(), addComponentHeader() or addComponentExample().`
+    );
+  }
+
+  private static reportDiagnostics(
+    diagnostics: DocumentDiagnostic[],
+    mode: SwaggerDocumentOptions['validate']
+  ) {
+    if (diagnostics.length === 0) {
+      return;
+    }
+    if (mode === 'error') {
+      throw new DocumentValidationError(diagnostics);
+    }
+    const logger = new Logger(SwaggerModule.name);
+    diagnostics.forEach((diagnostic) =>
+      logger.warn(formatDocumentDiagnostic(diagnostic))
+    );
   }
 
   public static async loadPluginMetadata(
@@ -620,7 +784,7 @@ export class SwaggerModule {
     httpAdapter: HttpServer,
     documentOrFactory: OpenAPIObject | (() => OpenAPIObject),
     options: {
-      ui: boolean;
+      ui: boolean | UiRenderer;
       raw: boolean | Array<'json' | 'yaml'>;
       jsonDocumentUrl: string;
       yamlDocumentUrl: string;
@@ -639,7 +803,20 @@ export class SwaggerModule {
       return document;
     };
 
-    if (options.ui) {
+    /**
+     * Serve JSON/YAML definitions based on the `raw` option:
+     * - `true`: Serve both JSON and YAML definitions.
+     * - `false`: Skip registering both JSON and YAML definitions.
+     * - `Array<'json' | 'yaml'>`: Serve only the specified formats (e.g., `['json']` to serve only JSON).
+     */
+    const serveJson =
+      options.raw === true ||
+      (Array.isArray(options.raw) && options.raw.includes('json'));
+    const serveYaml =
+      options.raw === true ||
+      (Array.isArray(options.raw) && options.raw.includes('yaml'));
+
+    if (options.ui === true || options.ui === 'swagger') {
       this.serveSwaggerUi(
         finalPath,
         urlLastSubdirectory,
@@ -647,21 +824,18 @@ export class SwaggerModule {
         getBuiltDocument,
         options.swaggerOptions
       );
+    } else if (options.ui) {
+      this.serveUiRenderer(
+        options.ui,
+        finalPath,
+        httpAdapter,
+        getBuiltDocument,
+        serveJson ? options.jsonDocumentUrl : undefined,
+        options.swaggerOptions
+      );
     }
 
-    /**
-     * Serve JSON/YAML definitions based on the `raw` option:
-     * - `true`: Serve both JSON and YAML definitions.
-     * - `false`: Skip registering both JSON and YAML definitions.
-     * - `Array<'json' | 'yaml'>`: Serve only the specified formats (e.g., `['json']` to serve only JSON).
-     */
-    if (
-      options.raw === true ||
-      (Array.isArray(options.raw) && options.raw.length > 0)
-    ) {
-      const serveJson = options.raw === true || options.raw.includes('json');
-      const serveYaml = options.raw === true || options.raw.includes('yaml');
-
+    if (serveJson || serveYaml) {
       this.serveDefinitions(httpAdapter, getBuiltDocument, options, {
         serveJson,
         serveYaml
@@ -682,9 +856,12 @@ export class SwaggerModule {
     let swaggerUiHtmlForTrailingSlash: string;
     let swaggerUiInitJS: string;
 
+    const withAuth = (handler: (req: any, res: any) => unknown) =>
+      withDocumentationAuth(httpAdapter, swaggerOptions.auth, handler);
+
     httpAdapter.get(
       normalizeRelPath(`${finalPath}/swagger-ui-init.js`),
-      (req, res) => {
+      withAuth((req, res) => {
         res.type('application/javascript');
         const document = getBuiltDocument();
 
@@ -706,7 +883,7 @@ export class SwaggerModule {
         }
 
         res.send(swaggerUiInitJS);
-      }
+      })
     );
 
     /**
@@ -718,7 +895,7 @@ export class SwaggerModule {
         normalizeRelPath(
           `${finalPath}/${urlLastSubdirectory}/swagger-ui-init.js`
         ),
-        (req, res) => {
+        withAuth((req, res) => {
           res.type('application/javascript');
           const document = getBuiltDocument();
 
@@ -740,7 +917,7 @@ export class SwaggerModule {
           }
 
           res.send(swaggerUiInitJS);
-        }
+        })
       );
     } catch {
       /**
@@ -763,7 +940,7 @@ export class SwaggerModule {
       return swaggerUiHtmlForTrailingSlash;
     };
 
-    function serveSwaggerHtml(req: any, res: any) {
+    const serveSwaggerHtml = withAuth((req: any, res: any) => {
       res.type('text/html');
 
       const url = httpAdapter.getRequestUrl(req);
@@ -772,7 +949,7 @@ export class SwaggerModule {
         ? getTrailingSlashSwaggerHtml()
         : getSwaggerHtml();
       res.send(swaggerUiHtml);
-    }
+    });
 
     httpAdapter.get(finalPath, serveSwaggerHtml);
     httpAdapter.get(`${finalPath}/index.html`, serveSwaggerHtml);
@@ -793,6 +970,96 @@ export class SwaggerModule {
     }
   }
 
+  /**
+   * Serves the Redoc, Scalar or RapiDoc page. The document is loaded from the
+   * JSON definition when it is served, and embedded in the page otherwise.
+   */
+  protected static serveUiRenderer(
+    renderer: DocumentUiRenderer,
+    finalPath: string,
+    httpAdapter: HttpServer,
+    getBuiltDocument: () => OpenAPIObject,
+    jsonDocumentUrl: string | undefined,
+    swaggerOptions: SwaggerCustomOptions
+  ) {
+    const assetPath = swaggerOptions.uiScriptUrl
+      ? undefined
+      : getUiRendererAssetAbsoluteFSPath(renderer);
+    const assetUrl = normalizeRelPath(`${finalPath}/${renderer}.js`);
+    const scriptUrl =
+      swaggerOptions.uiScriptUrl ??
+      (assetPath ? assetUrl : getUiRendererCdnUrl(renderer));
+
+    const withAuth = (handler: (req: any, res: any) => unknown) =>
+      withDocumentationAuth(httpAdapter, swaggerOptions.auth, handler);
+
+    if (assetPath) {
+      let asset: Buffer;
+      httpAdapter.get(
+        assetUrl,
+        withAuth((req, res) => {
+          res.type('application/javascript');
+          asset ||= readFileSync(assetPath);
+          res.send(asset);
+        })
+      );
+    }
+
+    let rendererHtml: string;
+
+    const serveRendererHtml = withAuth((req: any, res: any) => {
+      res.type('text/html');
+
+      if (jsonDocumentUrl) {
+        rendererHtml ||= buildUiRendererHTML(
+          renderer,
+          scriptUrl,
+          { url: normalizeRelPath(jsonDocumentUrl) },
+          swaggerOptions
+        );
+        return res.send(rendererHtml);
+      }
+
+      const document = getBuiltDocument();
+      if (swaggerOptions.patchDocumentOnRequest) {
+        return res.send(
+          buildUiRendererHTML(
+            renderer,
+            scriptUrl,
+            {
+              document: swaggerOptions.patchDocumentOnRequest(
+                req,
+                res,
+                document
+              )
+            },
+            swaggerOptions
+          )
+        );
+      }
+
+      rendererHtml ||= buildUiRendererHTML(
+        renderer,
+        scriptUrl,
+        { document },
+        swaggerOptions
+      );
+      res.send(rendererHtml);
+    });
+
+    httpAdapter.get(finalPath, serveRendererHtml);
+    httpAdapter.get(`${finalPath}/index.html`, serveRendererHtml);
+
+    // fastify doesn't resolve 'routePath/' -> 'routePath', that's why we handle it manually
+    try {
+      httpAdapter.get(normalizeRelPath(`${finalPath}/`), serveRendererHtml);
+    } catch {
+      /**
+       * Conflicts with the route above when the Fastify "ignoreTrailingSlash" option is set
+       */
+    }
+  }
+
   protected static serveDefinitions(
     httpAdapter: HttpServer,
     getBuiltDocument: () => OpenAPIObject,
@@ -803,36 +1070,95 @@ export class SwaggerModule {
     },
     serveOptions: { serveJson: boolean; serveYaml: boolean }
   ) {
-    if (serveOptions.serveJson) {
-      httpAdapter.get(normalizeRelPath(options.jsonDocumentUrl), (req, res) => {
-        res.type('application/json');
+    const { patchDocumentOnRequest, cacheControl, compression, auth } =
+      options.swaggerOptions;
+    const formats: DocumentFormat[] = [
+      ...(serveOptions.serveJson ? ['json' as const] : []),
+      ...(serveOptions.serveYaml ? ['yaml' as const] : [])
+    ];
+    const encodings: DocumentContentEncoding[] =
+      compression === true ? ['br', 'gzip'] : compression || [];
+
+    // Serialized (and compressed) documents, unless they are patched on request
+    const representations = new Map<string, DocumentRepresentation>();
+
+    const serveDefinition = (defaultFormat: DocumentFormat) =>
+      withDocumentationAuth(httpAdapter, auth, (req: any, res: any) => {
+        const { format, contentType } = negotiateDocumentFormat(
+          req.headers?.accept,
+          formats,
+          defaultFormat
+        );
+        const encoding = negotiateContentEncoding(
+          req.headers?.['accept-encoding'],
+          encodings
+        );
         const document = getBuiltDocument();
 
-        const documentToSerialize = options.swaggerOptions
-          .patchDocumentOnRequest
-          ? options.swaggerOptions.patchDocumentOnRequest(req, res, document)
-          : document;
+        let representation: DocumentRepresentation;
+        if (patchDocumentOnRequest) {
+          representation = createDocumentRepresentation(
+            patchDocumentOnRequest(req, res, document),
+            format,
+            contentType,
+            encoding
+          );
+        } else {
+          const cacheKey = `${contentType}:${encoding ?? 'identity'}`;
+          representation = representations.get(cacheKey);
+          if (!representation) {
+            representation = createDocumentRepresentation(
+              document,
+              format,
+              contentType,
+              encoding
+            );
+            representations.set(cacheKey, representation);
+          }
+        }
 
-        res.send(JSON.stringify(documentToSerialize));
+        httpAdapter.setHeader(res, 'ETag', representation.etag);
+        httpAdapter.setHeader(
+          res,
+          'Vary',
+          encodings.length > 0 ? 'Accept, Accept-Encoding' : 'Accept'
+        );
+        if (cacheControl) {
+          httpAdapter.setHeader(res, 'Cache-Control', cacheControl);
+        }
+        if (
+          matchesIfNoneMatch(
+            req.headers?.['if-none-match'],
+            representation.etag
+          )
+        ) {
+          httpAdapter.status(res, 304);
+          return res.send();
+        }
+
+        res.type(representation.contentType);
+        if (representation.encoding) {
+          httpAdapter.setHeader(
+            res,
+            'Content-Encoding',
+            representation.encoding
+          );
+        }
+        res.send(representation.body);
       });
+
+    if (serveOptions.serveJson) {
+      httpAdapter.get(
+        normalizeRelPath(options.jsonDocumentUrl),
+        serveDefinition('json')
+      );
     }
 
     if (serveOptions.serveYaml) {
-      httpAdapter.get(normalizeRelPath(options.yamlDocumentUrl), (req, res) => {
-        res.type('text/yaml');
-        const document = getBuiltDocument();
-
-        const documentToSerialize = options.swaggerOptions
-          .patchDocumentOnRequest
-          ? options.swaggerOptions.patchDocumentOnRequest(req, res, document)
-          : document;
-
-        const yamlDocument = jsyaml.dump(documentToSerialize, {
-          skipInvalid: true,
-          noRefs: true
-        });
-        res.send(yamlDocument);
-      });
+      httpAdapter.get(
+        normalizeRelPath(options.yamlDocumentUrl),
+        serveDefinition('yaml')
+      );
     }
   }
 
@@ -881,7 +1207,7 @@ export class SwaggerModule {
       }
     );
 
-    if (ui) {
+    if (ui === true || ui === 'swagger') {
       SwaggerModule.serveStatic(finalPath, app, options?.customSwaggerUiPath);
       /**
        * Covers assets fetched through a relative path when Swagger url ends with a slash '/'.
@@ -894,4 +1220,39 @@ export class SwaggerModule {
       SwaggerModule.serveStatic(serveStaticSlashEndingPath, app);
     }
   }
+
+  /**
+   * Serves a mock of every operation of `document.paths` under `path`
+   * (e.g. `GET /mock/cats/1`), answering with the documented examples or with
+   * examples synthesized from the response schemas. Streaming responses are
+   * mocked as streams of generated items.
+   */
+  public static setupMock(
+    path: string,
+    app: INestApplication,
+    document: OpenAPIObject,
+    options?: MockServerOptions
+  ) {
+    const finalPath = normalizeRelPath(validatePath(path)).replace(/\/+$/, '');
+    const handler = createMockRequestHandler(document, options);
+    app.use(
+      finalPath || '/',
+      (
+        req: IncomingMessage & { originalUrl?: string },
+        res: ServerResponse
+      ) => {
+        const { pathname } = new URL(
+          req.originalUrl ?? req.url,
+          'http://localhost'
+        );
+        handler(
+          req,
+          res,
+          pathname.startsWith(finalPath)
+            ? pathname.slice(finalPath.length) || '/'
+            : pathname
+        );
+      }
+    );
+  }
 }
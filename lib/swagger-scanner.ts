@@ -6,11 +6,14 @@ import { Module } from '@nestjs/core/injector/module';
 import { flatten, isEmpty } from 'lodash';
 import { DECORATORS } from './constants';
 import {
+  ErrorResponseMappings,
   OpenAPIObject,
   OperationIdFactory,
+  SecurityResolvers,
   SwaggerDocumentOptions
 } from './interfaces';
 import { ModuleRoute } from './interfaces/module-route.interface';
+import { OperationSource } from './interfaces/operation-source.interface';
 import {
   ReferenceObject,
   SchemaObject
@@ -20,6 +23,7 @@ import { SchemaObjectFactory } from './services/schema-object-factory';
 import { SwaggerTypesMapper } from './services/swagger-types-mapper';
 import { SwaggerExplorer } from './swagger-explorer';
 import { SwaggerTransformer } from './swagger-transformer';
+import { getDocumentAudiences } from './utils/filter-document-audience.util';
 import { getGlobalPrefix } from './utils/get-global-prefix';
 import { stripLastSlash } from './utils/strip-last-slash.util';
 import { ApiTagOptions } from './decorators/api-tag-group.decorator';
@@ -46,8 +50,14 @@ export class SwaggerScanner {
       ignoreGlobalPrefix = false,
       operationIdFactory,
       linkNameFactory,
-      autoTagControllers = true
+      autoTagControllers = true,
+      inferErrorResponses,
+      errorResponseMappings,
+      securityResolvers,
+      publicMetadataKeys,
+      audience
     } = options;
+    const audiences = getDocumentAudiences(audience);
 
     const untypedApp = app as any;
     const container = untypedApp.container as NestContainer;
@@ -86,7 +96,12 @@ export class SwaggerScanner {
                   globalPrefix,
                   operationIdFactory,
                   linkNameFactory,
-                  autoTagControllers
+                  autoTagControllers,
+                  inferErrorResponses,
+                  errorResponseMappings,
+                  securityResolvers,
+                  publicMetadataKeys,
+                  audiences
                 })
               );
             });
@@ -98,7 +113,12 @@ export class SwaggerScanner {
             globalPrefix,
             operationIdFactory,
             linkNameFactory,
-            autoTagControllers
+            autoTagControllers,
+            inferErrorResponses,
+            errorResponseMappings,
+            securityResolvers,
+            publicMetadataKeys,
+            audiences
           })
         );
       }
@@ -126,6 +146,10 @@ export class SwaggerScanner {
     };
   }
 
+  public getOperationSources(): OperationSource[] {
+    return this.explorer?.getOperationSources() ?? [];
+  }
+
   public scanModuleControllers(
     controller: Map<InjectionToken, InstanceWrapper>,
     applicationConfig: ApplicationConfig,
@@ -139,6 +163,11 @@ export class SwaggerScanner {
         fieldKey: string
       ) => string;
       autoTagControllers?: boolean;
+      inferErrorResponses?: boolean;
+      errorResponseMappings?: ErrorResponseMappings;
+      securityResolvers?: SecurityResolvers;
+      publicMetadataKeys?: Array<string | symbol>;
+      audiences?: string[];
     }
   ): ModuleRoute[] {
     const denormalizedArray = [...controller.values()].map((ctrl) =>
@@ -27,7 +27,13 @@ export class SwaggerTransformer {
       return mapValues(keyByMethod, (route: any) => {
         const mergedDefinition = {
           ...omit(route, 'root'),
-          ...omit(route.root, ['method', 'path', 'isWebhook', 'webhookName'])
+          ...omit(route.root, [
+            'method',
+            'path',
+            'version',
+            'isWebhook',
+            'webhookName'
+          ])
         };
         return sortObjectLexicographically(mergedDefinition);
       });
@@ -45,7 +51,13 @@ export class SwaggerTransformer {
       return mapValues(keyByMethod, (route: any) => {
         const mergedDefinition = {
           ...omit(route, 'root'),
-          ...omit(route.root, ['method', 'path', 'isWebhook', 'webhookName'])
+          ...omit(route.root, [
+            'method',
+            'path',
+            'version',
+            'isWebhook',
+            'webhookName'
+          ])
         };
         return sortObjectLexicographically(mergedDefinition);
       });
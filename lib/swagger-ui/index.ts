@@ -1 +1,2 @@
 export * from './swagger-ui';
+export * from './ui-renderers';
@@ -33,19 +33,19 @@ export function getSwaggerAssetsAbsoluteFSPath() {
   return swaggerAssetsAbsoluteFSPath;
 }
 
-function toExternalScriptTag(url: string) {
+export function toExternalScriptTag(url: string) {
   return `<script src='${url}'></script>`;
 }
 
-function toInlineScriptTag(jsCode: string) {
+export function toInlineScriptTag(jsCode: string) {
   return `<script>${jsCode}</script>`;
 }
 
-function toExternalStylesheetTag(url: string) {
+export function toExternalStylesheetTag(url: string) {
   return `<link href='${url}' rel='stylesheet'>`;
 }
 
-function toTags(
+export function toTags(
   customCode: string | string[] | undefined,
   toScript: (url: string) => string
 ) {
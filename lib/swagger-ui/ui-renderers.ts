@@ -0,0 +1,191 @@
+import { existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { OpenAPIObject, SwaggerCustomOptions, UiRenderer } from '../interfaces';
+import {
+  toExternalScriptTag,
+  toExternalStylesheetTag,
+  toInlineScriptTag,
+  toTags
+} from './swagger-ui';
+
+export type DocumentUiRenderer = Exclude<UiRenderer, 'swagger'>;
+
+interface UiRendererAsset {
+  packageName: string;
+  /**
+   * Path of the standalone bundle, relative to the package root.
+   */
+  file: string;
+  cdnUrl: string;
+}
+
+const UI_RENDERER_ASSETS: Record<DocumentUiRenderer, UiRendererAsset> = {
+  redoc: {
+    packageName: 'redoc',
+    file: 'bundles/redoc.standalone.js',
+    cdnUrl: 'https://cdn.jsdelivr.net/npm/redoc@2/bundles/redoc.standalone.js'
+  },
+  scalar: {
+    packageName: '@scalar/api-reference',
+    file: 'dist/browser/standalone.js',
+    cdnUrl:
+      'https://cdn.jsdelivr.net/npm/@scalar/api-reference/dist/browser/standalone.js'
+  },
+  rapidoc: {
+    packageName: 'rapidoc',
+    file: 'dist/rapidoc-min.js',
+    cdnUrl: 'https://cdn.jsdelivr.net/npm/rapidoc@9/dist/rapidoc-min.js'
+  }
+};
+
+const DEFAULT_SITE_TITLES: Record<DocumentUiRenderer, string> = {
+  redoc: 'Redoc',
+  scalar: 'API Reference',
+  rapidoc: 'RapiDoc'
+};
+
+/**
+ * Returns the absolute path to the standalone bundle of `renderer`, or
+ * `undefined` when its package is not installed.
+ */
+export function getUiRendererAssetAbsoluteFSPath(
+  renderer: DocumentUiRenderer
+): string | undefined {
+  const { packageName, file } = UI_RENDERER_ASSETS[renderer];
+  try {
+    const assetPath = join(
+      dirname(require.resolve(`${packageName}/package.json`)),
+      file
+    );
+    return existsSync(assetPath) ? assetPath : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function getUiRendererCdnUrl(renderer: DocumentUiRenderer): string {
+  return UI_RENDERER_ASSETS[renderer].cdnUrl;
+}
+
+/**
+ * Used to build the html page of the Redoc, Scalar and RapiDoc renderers.
+ * The document is either loaded from `spec.url` or embedded in the page.
+ */
+export function buildUiRendererHTML(
+  renderer: DocumentUiRenderer,
+  scriptUrl: string,
+  spec: { url: string } | { document: OpenAPIObject },
+  customOptions: SwaggerCustomOptions = {}
+) {
+  const {
+    customCss = '',
+    customJs = '',
+    customJsStr = '',
+    customfavIcon = false,
+    customSiteTitle = DEFAULT_SITE_TITLES[renderer],
+    customCssUrl = ''
+  } = customOptions;
+
+  const favIconString = customfavIcon
+    ? `<link rel='icon' href='${customfavIcon}' />`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(customSiteTitle)}</title>
+  ${favIconString}
+  ${toTags(customCssUrl, toExternalStylesheetTag)}
+  <style>
+    body {
+      margin: 0;
+    }
+    ${customCss}
+  </style>
+</head>
+
+<body>
+${buildRendererBody(renderer, scriptUrl, spec, customOptions)}
+${toTags(customJs, toExternalScriptTag)}
+${toTags(customJsStr, toInlineScriptTag)}
+</body>
+</html>
+`;
+}
+
+function buildRendererBody(
+  renderer: DocumentUiRenderer,
+  scriptUrl: string,
+  spec: { url: string } | { document: OpenAPIObject },
+  customOptions: SwaggerCustomOptions
+) {
+  const specOrUrl = 'url' in spec ? spec.url : spec.document;
+
+  switch (renderer) {
+    case 'redoc':
+      return `<div id="redoc-container"></div>
+${toExternalScriptTag(scriptUrl)}
+${toInlineScriptTag(
+  `Redoc.init(${toScriptValue(specOrUrl)}, ${toScriptValue(
+    customOptions.redocOptions || {}
+  )}, document.getElementById('redoc-container'));`
+)}`;
+    case 'scalar': {
+      const configuration = {
+        ...customOptions.scalarOptions,
+        ...('url' in spec ? { url: spec.url } : { content: spec.document })
+      };
+      return `<div id="app"></div>
+${toExternalScriptTag(scriptUrl)}
+${toInlineScriptTag(
+  `Scalar.createApiReference('#app', ${toScriptValue(configuration)});`
+)}`;
+    }
+    case 'rapidoc': {
+      const attributes = Object.entries({
+        ...customOptions.rapidocOptions,
+        ...('url' in spec ? { specUrl: spec.url } : {})
+      })
+        .filter(([, value]) => value !== undefined)
+        .map(
+          ([name, value]) =>
+            `${toKebabCase(name)}="${escapeHtml(String(value))}"`
+        );
+      const loadSpec =
+        'document' in spec
+          ? toInlineScriptTag(
+              `window.addEventListener('DOMContentLoaded', () => document.getElementById('rapidoc').loadSpec(${toScriptValue(
+                spec.document
+              )}));`
+            )
+          : '';
+      return `<rapi-doc id="rapidoc" ${attributes.join(' ')}></rapi-doc>
+<script type="module" src="${escapeHtml(scriptUrl)}"></script>
+${loadSpec}`;
+    }
+  }
+}
+
+/**
+ * Serializes `value` so that it can be embedded in an inline `<script>`.
+ */
+function toScriptValue(value: unknown) {
+  return JSON.stringify(value)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+function toKebabCase(value: string) {
+  return value.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
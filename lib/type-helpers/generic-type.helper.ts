@@ -0,0 +1,181 @@
+import { Type } from '@nestjs/common';
+import {
+  inheritPropertyInitializers,
+  inheritTransformationMetadata,
+  inheritValidationMetadata
+} from '@nestjs/mapped-types';
+import { mapValues } from 'lodash';
+import { DECORATORS } from '../constants';
+import { ApiProperty } from '../decorators/api-property.decorator';
+import { MetadataLoader } from '../plugin/metadata-loader';
+import { ModelPropertiesAccessor } from '../services/model-properties-accessor';
+import { getSchemaPath } from '../utils/get-schema-path.util';
+import { clonePluginMetadataFactory } from './mapped-types.utils';
+
+const modelPropertiesAccessor = new ModelPropertiesAccessor();
+
+export type GenericTypeArgument = Type<unknown> | Function | [Function];
+
+export interface GenericTypeOptions {
+  /**
+   * Name of the generated schema.
+   * @default base schema name followed by the argument schema name, e.g.
+   * "PaginatedCatDto", or by each argument key and schema name when there are
+   * several arguments, e.g. "PairFirstCatDtoSecondDogDto"
+   */
+  name?: string;
+}
+
+const genericTypesCache = new Map<
+  string,
+  {
+    classRef: Function;
+    typeArguments: Record<string, GenericTypeArgument>;
+    type: Type<unknown>;
+  }
+>();
+
+/**
+ * Creates a concrete model out of a generic wrapper (e.g. `Paginated<T>`) by
+ * binding its generic properties to actual types. The result can be used
+ * anywhere a model is expected (`@ApiProperty({ type })`, `@ApiBody({ type })`,
+ * `@ApiResponse({ type })`) and is emitted as a named component.
+ *
+ * @example GenericType(Paginated, { items: CatDto }) // "PaginatedCatDto"
+ *
+ * @publicApi
+ */
+export function GenericType<T>(
+  classRef: Type<T>,
+  typeArguments: Record<string, GenericTypeArgument>,
+  options: GenericTypeOptions = {}
+): Type<T> {
+  const name = options.name ?? getDefaultName(classRef, typeArguments);
+
+  const cached = genericTypesCache.get(name);
+  if (cached) {
+    if (
+      cached.classRef !== classRef ||
+      !isSameArguments(cached.typeArguments, typeArguments)
+    ) {
+      throw new Error(
+        `GenericType(): the schema name "${name}" is already used by a generic type with other arguments. Pass a distinct "name" option.`
+      );
+    }
+    return cached.type as Type<T>;
+  }
+
+  abstract class GenericTypeClass {
+    constructor() {
+      inheritPropertyInitializers(this, classRef);
+    }
+  }
+  Object.defineProperty(GenericTypeClass, 'name', { value: name });
+
+  inheritValidationMetadata(classRef, GenericTypeClass);
+  inheritTransformationMetadata(classRef, GenericTypeClass);
+
+  function applyFields(fields: string[]) {
+    clonePluginMetadataFactory(
+      GenericTypeClass as Type<unknown>,
+      classRef.prototype,
+      (metadata: Record<string, any>) =>
+        mapValues(metadata, (item: Record<string, any>, key) => {
+          if (!(key in typeArguments)) {
+            return item;
+          }
+          const declaredType =
+            typeof item.type === 'function' ? item.type() : undefined;
+          const type = bindTypeArgument(
+            typeArguments[key],
+            Array.isArray(declaredType) || !!item.isArray
+          );
+          return { ...item, type: () => type };
+        })
+    );
+
+    const keys = new Set([...fields, ...Object.keys(typeArguments)]);
+    keys.forEach((key) => {
+      const metadata =
+        Reflect.getMetadata(
+          DECORATORS.API_MODEL_PROPERTIES,
+          classRef.prototype,
+          key
+        ) || {};
+      if (!(key in typeArguments)) {
+        ApiProperty(metadata)(GenericTypeClass.prototype, key);
+        return;
+      }
+      const isArray =
+        !!metadata.isArray ||
+        metadata.type === Array ||
+        Array.isArray(metadata.type);
+      ApiProperty({
+        ...metadata,
+        type: bindTypeArgument(typeArguments[key], isArray),
+        isArray: undefined
+      })(GenericTypeClass.prototype, key);
+    });
+  }
+  applyFields(modelPropertiesAccessor.getModelProperties(classRef.prototype));
+
+  MetadataLoader.addRefreshHook(() => {
+    applyFields(modelPropertiesAccessor.getModelProperties(classRef.prototype));
+  });
+
+  genericTypesCache.set(name, {
+    classRef,
+    typeArguments,
+    type: GenericTypeClass as Type<unknown>
+  });
+  return GenericTypeClass as Type<T>;
+}
+
+function bindTypeArgument(
+  argument: GenericTypeArgument,
+  isArray: boolean
+): Function | [Function] {
+  if (Array.isArray(argument)) {
+    return argument;
+  }
+  return isArray ? [argument] : argument;
+}
+
+function getDefaultName(
+  classRef: Function,
+  typeArguments: Record<string, GenericTypeArgument>
+): string {
+  const keys = Object.keys(typeArguments).sort();
+  const argumentNames = keys.map((key) => {
+    const argument = typeArguments[key];
+    const argumentName = getSchemaName(
+      Array.isArray(argument) ? argument[0] : argument
+    );
+    return keys.length === 1
+      ? argumentName
+      : `${key.charAt(0).toUpperCase()}${key.slice(1)}${argumentName}`;
+  });
+  return [getSchemaName(classRef), ...argumentNames].join('');
+}
+
+function isSameArguments(
+  a: Record<string, GenericTypeArgument>,
+  b: Record<string, GenericTypeArgument>
+): boolean {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => key in b && isSameArgument(a[key], b[key]))
+  );
+}
+
+function isSameArgument(a: GenericTypeArgument, b: GenericTypeArgument) {
+  return (
+    Array.isArray(a) === Array.isArray(b) &&
+    (Array.isArray(a) ? a[0] === b[0] : a === b)
+  );
+}
+
+function getSchemaName(type: Function): string {
+  return getSchemaPath(type).replace('#/components/schemas/', '');
+}
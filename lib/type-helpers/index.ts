@@ -1,3 +1,4 @@
+export * from './generic-type.helper';
 export * from './intersection-type.helper';
 export * from './omit-type.helper';
 export * from './partial-type.helper';
@@ -0,0 +1,72 @@
+import { OpenAPIObject } from '../interfaces';
+import {
+  ContentObject,
+  ReferenceObject,
+  RequestBodyObject,
+  ResponseObject
+} from '../interfaces/open-api-spec.interface';
+import { SchemaExampleGenerator } from '../services/schema-example-generator';
+import { forEachOperation } from './for-each-operation.util';
+
+const JSON_MEDIA_TYPE = /^application\/(.+\+)?json(;|$)/i;
+
+/**
+ * Name of the synthesized entry added to `examples`.
+ */
+const AUTO_EXAMPLE_NAME = 'default';
+
+/**
+ * Adds an example synthesized from the schema to every JSON media type of
+ * request bodies and responses (in operations, webhooks, callbacks and
+ * components) that has neither `example` nor `examples`.
+ */
+export function addAutoExamples(document: OpenAPIObject) {
+  const generator = new SchemaExampleGenerator(document);
+  const visitContent = (
+    content: ContentObject | undefined,
+    direction: 'request' | 'response'
+  ) => {
+    for (const [mediaType, media] of Object.entries(content || {})) {
+      if (
+        !JSON_MEDIA_TYPE.test(mediaType) ||
+        !media.schema ||
+        media.example !== undefined ||
+        media.examples !== undefined
+      ) {
+        continue;
+      }
+      const value = generator.generate(media.schema, direction);
+      if (value !== undefined) {
+        media.examples = { [AUTO_EXAMPLE_NAME]: { value } };
+      }
+    }
+  };
+  const visitRequestBody = (
+    requestBody: RequestBodyObject | ReferenceObject | undefined
+  ) => {
+    if (requestBody && !('$ref' in requestBody)) {
+      visitContent(requestBody.content, 'request');
+    }
+  };
+  const visitResponse = (response: ResponseObject | ReferenceObject) => {
+    if (response && !('$ref' in response)) {
+      visitContent(response.content, 'response');
+    }
+  };
+  const visitOperations = (root: Pick<OpenAPIObject, 'paths' | 'webhooks'>) =>
+    forEachOperation(root, ({ operation }) => {
+      visitRequestBody(operation.requestBody);
+      Object.values(operation.responses || {}).forEach(visitResponse);
+      for (const callback of Object.values(operation.callbacks || {})) {
+        if (!('$ref' in callback)) {
+          visitOperations({ paths: callback as OpenAPIObject['paths'] });
+        }
+      }
+    });
+
+  visitOperations(document);
+  Object.values(document.components?.requestBodies || {}).forEach(
+    visitRequestBody
+  );
+  Object.values(document.components?.responses || {}).forEach(visitResponse);
+}
@@ -0,0 +1,78 @@
+import { API_POLYMORPHIC_EXTENSION } from '../constants';
+import { OpenAPIObject } from '../interfaces';
+import {
+  DiscriminatorObject,
+  SchemaObject
+} from '../interfaces/open-api-spec.interface';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Removes the markers left by `@ApiPolymorphic()` on its discriminators and,
+ * when `pinValues` is set (OAS 3.1+), pins the discriminator property of their
+ * `mapping` targets to the discriminator value with `const`. Targets mapped to
+ * different values by several discriminators are left untouched, and so are
+ * the targets of hand-written discriminators.
+ */
+export function addDiscriminatorConsts(
+  document: OpenAPIObject,
+  pinValues: boolean
+) {
+  const schemas = document.components?.schemas || {};
+
+  // `null` marks conflicting mappings.
+  const targets = new Map<
+    string,
+    { propertyName: string; value: string } | null
+  >();
+  const addTargets = ({ propertyName, mapping }: DiscriminatorObject) => {
+    for (const [value, ref] of Object.entries(mapping || {})) {
+      if (!propertyName || !ref.startsWith(SCHEMA_REF_PREFIX)) {
+        continue;
+      }
+      const name = ref.slice(SCHEMA_REF_PREFIX.length);
+      const existing = targets.get(name);
+      if (existing === undefined) {
+        targets.set(name, { propertyName, value });
+      } else if (
+        existing &&
+        (existing.propertyName !== propertyName || existing.value !== value)
+      ) {
+        targets.set(name, null);
+      }
+    }
+  };
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    const discriminator = (node as SchemaObject).discriminator as
+      | Record<string, any>
+      | undefined;
+    if (discriminator?.[API_POLYMORPHIC_EXTENSION]) {
+      delete discriminator[API_POLYMORPHIC_EXTENSION];
+      addTargets(discriminator as DiscriminatorObject);
+    }
+    Object.values(node).forEach(visit);
+  };
+  visit(document);
+  if (!pinValues) {
+    return;
+  }
+
+  for (const [name, target] of targets) {
+    const property =
+      target &&
+      (schemas[name] as SchemaObject | undefined)?.properties?.[
+        target.propertyName
+      ];
+    if (!property || '$ref' in property || 'const' in property) {
+      continue;
+    }
+    property.const = target.value;
+  }
+}
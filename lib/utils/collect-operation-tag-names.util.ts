@@ -1,21 +1,7 @@
 import { OpenAPIObject } from '../interfaces/open-api-spec.interface';
+import { OPERATION_METHODS } from './for-each-operation.util';
 
-const HTTP_METHODS = new Set([
-  'get',
-  'put',
-  'post',
-  'delete',
-  'options',
-  'head',
-  'patch',
-  'trace',
-  /**
-   * Non-standard methods supported by this fork.
-   * Kept aligned with internal behavior.
-   */
-  'search',
-  'query'
-]);
+const HTTP_METHODS = new Set<string>(OPERATION_METHODS);
 
 export function collectOperationTagNames(
   paths?: OpenAPIObject['paths'],
@@ -0,0 +1,53 @@
+import { OpenAPIObject } from '../interfaces';
+import { resolveJsonPointer } from './json-pointer.util';
+
+const COMPONENT_REF_PREFIX = '#/components/';
+
+/**
+ * Collects the local component references (e.g. `#/components/schemas/Cat`)
+ * reachable from `roots`, following references transitively through the
+ * components of `document`. `discriminator.mapping` targets count as references.
+ */
+export function collectReachableRefs(
+  document: Pick<OpenAPIObject, 'components'>,
+  roots: unknown[]
+): Set<string> {
+  const reachable = new Set<string>();
+
+  const visitRef = (ref: unknown) => {
+    if (
+      typeof ref !== 'string' ||
+      !ref.startsWith(COMPONENT_REF_PREFIX) ||
+      reachable.has(ref)
+    ) {
+      return;
+    }
+    reachable.add(ref);
+    visit(resolveJsonPointer(document, ref));
+  };
+
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref') {
+        visitRef(value);
+        continue;
+      }
+      if (key === 'discriminator' && value?.mapping) {
+        Object.values(value.mapping as Record<string, unknown>).forEach(
+          visitRef
+        );
+      }
+      visit(value);
+    }
+  };
+
+  roots.forEach(visit);
+  return reachable;
+}
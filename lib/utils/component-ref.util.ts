@@ -0,0 +1,103 @@
+import { OpenAPIObject } from '../interfaces';
+import { ReferenceObject } from '../interfaces/open-api-spec.interface';
+import { resolveJsonPointer, toJsonPointer } from './json-pointer.util';
+
+export type ReusableComponentType =
+  | 'parameters'
+  | 'responses'
+  | 'headers'
+  | 'examples';
+
+const REUSABLE_COMPONENT_REF_PATTERN =
+  /^#\/components\/(parameters|responses|headers|examples)\//;
+
+/**
+ * Creates a reference to a reusable component registered with
+ * `DocumentBuilder.addComponentParameter()`, `addComponentResponse()`,
+ * `addComponentHeader()` or `addComponentExample()`. The component type is
+ * inferred from where the reference is used, e.g. `@ApiHeader(ref('XRequestId'))`
+ * points to `#/components/parameters/XRequestId`.
+ */
+export function ref(name: string): ReferenceObject {
+  return { $ref: name };
+}
+
+export function isReferenceObject(value: unknown): value is ReferenceObject {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    typeof (value as ReferenceObject).$ref === 'string'
+  );
+}
+
+/**
+ * Expands a component name (`{ $ref: 'XRequestId' }`) to a local reference
+ * (`#/components/parameters/XRequestId`). Full references are kept as is.
+ */
+export function toComponentRef(
+  type: ReusableComponentType,
+  reference: ReferenceObject
+): ReferenceObject {
+  return reference.$ref.startsWith('#')
+    ? reference
+    : { $ref: `#/components/${type}/${reference.$ref}` };
+}
+
+/**
+ * Applies `toComponentRef()` to the references of a map such as the `headers`
+ * of a response or the `examples` of a media type.
+ */
+export function toComponentRefs<T>(
+  type: ReusableComponentType,
+  values: Record<string, T | ReferenceObject> | undefined
+): Record<string, T | ReferenceObject> | undefined {
+  if (!values) {
+    return values;
+  }
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      isReferenceObject(value) ? toComponentRef(type, value) : value
+    ])
+  );
+}
+
+/**
+ * Finds the references to reusable parameters, responses, headers and
+ * examples which do not resolve to a component of `document`.
+ *
+ * @returns the JSON Pointer of each dangling `$ref` keyed by its value
+ */
+export function findMissingComponentRefs(
+  document: OpenAPIObject
+): Map<string, string> {
+  const missing = new Map<string, string>();
+
+  const visit = (node: unknown, segments: Array<string | number>) => {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, [...segments, index]));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (
+        key === '$ref' &&
+        typeof value === 'string' &&
+        REUSABLE_COMPONENT_REF_PATTERN.test(value) &&
+        resolveJsonPointer(document, value) === undefined &&
+        !missing.has(value)
+      ) {
+        missing.set(value, `#${toJsonPointer(segments)}`);
+        continue;
+      }
+      visit(value, [...segments, key]);
+    }
+  };
+
+  visit(document.paths, ['paths']);
+  visit((document as any).webhooks, ['webhooks']);
+  visit(document.components, ['components']);
+  return missing;
+}
@@ -0,0 +1,322 @@
+import { createHash } from 'crypto';
+import { OpenAPIObject } from '../interfaces';
+import { OPERATION_METHODS } from './for-each-operation.util';
+
+type HoistedComponentType = 'schemas' | 'parameters' | 'responses';
+
+interface InlineSlot {
+  parent: Record<string | number, any>;
+  key: string | number;
+  type: HoistedComponentType;
+  hash: string;
+  /**
+   * Hashes of the hoistable objects this one is nested in.
+   */
+  ancestors: string[];
+}
+
+const SUBSCHEMA_KEYWORDS = [
+  'items',
+  'additionalProperties',
+  'not',
+  'contains',
+  'propertyNames',
+  'if',
+  'then',
+  'else',
+  'unevaluatedItems',
+  'unevaluatedProperties',
+  'contentSchema'
+];
+const SUBSCHEMA_LIST_KEYWORDS = ['allOf', 'oneOf', 'anyOf', 'prefixItems'];
+const SUBSCHEMA_MAP_KEYWORDS = [
+  'properties',
+  'patternProperties',
+  'dependentSchemas',
+  '$defs'
+];
+
+/**
+ * Hoists the structurally identical inline object schemas (with `properties`
+ * or `allOf`/`oneOf`/`anyOf`), parameters and responses (with `content` or
+ * `headers`) found at least `minOccurrences` times into `components`, and
+ * replaces every occurrence with a `$ref`. Nested duplicates are hoisted
+ * too, so hoisted components may reference each other.
+ *
+ * Generated names only depend on the hoisted object (e.g. `Schema1a2b3c4d`,
+ * `LimitQueryParameter`, `Response5e6f7a8b`), so they are stable across
+ * regenerations. Pass the returned references to `dereference()` to inline
+ * them back.
+ *
+ * @returns the references of the hoisted components
+ */
+export function deduplicateInlineSchemas(
+  document: OpenAPIObject,
+  minOccurrences = 2
+): string[] {
+  const hoisted: string[] = [];
+  const names = new Map<string, string>();
+
+  for (;;) {
+    const slots = collectInlineSlots(document);
+    const counts = new Map<string, number>();
+    slots.forEach(({ hash }) => counts.set(hash, (counts.get(hash) || 0) + 1));
+
+    const duplicated = new Set(
+      [...counts.keys()].filter((hash) => counts.get(hash) >= minOccurrences)
+    );
+    // Objects nested in a duplicated one are only counted again once the
+    // outer object has been hoisted, so that they are not hoisted when they
+    // only occur inside of it
+    const blocked = new Set(
+      slots
+        .filter(({ ancestors }) =>
+          ancestors.some((hash) => duplicated.has(hash))
+        )
+        .map(({ hash }) => hash)
+    );
+    const hoistable = new Set(
+      [...duplicated].filter((hash) => !blocked.has(hash))
+    );
+    if (hoistable.size === 0) {
+      return hoisted;
+    }
+
+    for (const slot of slots) {
+      if (!hoistable.has(slot.hash)) {
+        continue;
+      }
+      const components = (document.components ||= {}) as Record<string, any>;
+      const componentMap = (components[slot.type] ||= {});
+      let name = names.get(slot.hash);
+      if (!name) {
+        name = getComponentName(slot, componentMap);
+        names.set(slot.hash, name);
+        componentMap[name] = slot.parent[slot.key];
+        hoisted.push(`#/components/${slot.type}/${name}`);
+      }
+      slot.parent[slot.key] = { $ref: `#/components/${slot.type}/${name}` };
+    }
+  }
+}
+
+function collectInlineSlots(document: OpenAPIObject): InlineSlot[] {
+  const slots: InlineSlot[] = [];
+  const ancestors: string[] = [];
+
+  const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  const visitSlot = (
+    parent: Record<string | number, any>,
+    key: string | number,
+    type: HoistedComponentType,
+    hoistable: boolean,
+    visitChildren: (node: Record<string, any>) => void
+  ) => {
+    const node = parent[key];
+    if (!isObject(node) || typeof node.$ref === 'string') {
+      return;
+    }
+    if (!hoistable) {
+      visitChildren(node);
+      return;
+    }
+    const hash = `${type}:${hashObject(node)}`;
+    slots.push({ parent, key, type, hash, ancestors: [...ancestors] });
+    ancestors.push(hash);
+    visitChildren(node);
+    ancestors.pop();
+  };
+
+  const visitMap = (
+    map: unknown,
+    visit: (parent: Record<string, any>, key: string) => void
+  ) => {
+    if (isObject(map)) {
+      Object.keys(map).forEach((key) => visit(map, key));
+    }
+  };
+
+  const visitSchema = (
+    parent: Record<string | number, any>,
+    key: string | number,
+    isComponent = false
+  ) =>
+    visitSlot(
+      parent,
+      key,
+      'schemas',
+      !isComponent && isHoistableSchema(parent[key]),
+      (schema) => {
+        SUBSCHEMA_KEYWORDS.forEach((keyword) => visitSchema(schema, keyword));
+        SUBSCHEMA_LIST_KEYWORDS.forEach((keyword) => {
+          if (Array.isArray(schema[keyword])) {
+            schema[keyword].forEach((_: unknown, index: number) =>
+              visitSchema(schema[keyword], index)
+            );
+          }
+        });
+        SUBSCHEMA_MAP_KEYWORDS.forEach((keyword) =>
+          visitMap(schema[keyword], (map, name) => visitSchema(map, name))
+        );
+      }
+    );
+
+  const visitContent = (content: unknown) =>
+    visitMap(content, (map, mediaType) => {
+      visitSchema(map[mediaType], 'schema');
+      visitSchema(map[mediaType], 'itemSchema');
+    });
+
+  const visitHeader = (parent: Record<string, any>, key: string) => {
+    const header = parent[key];
+    if (isObject(header) && typeof header.$ref !== 'string') {
+      visitSchema(header, 'schema');
+      visitContent(header.content);
+    }
+  };
+
+  const visitParameter = (
+    parent: Record<string | number, any>,
+    key: string | number,
+    isComponent = false
+  ) =>
+    visitSlot(parent, key, 'parameters', !isComponent, (parameter) => {
+      visitSchema(parameter, 'schema');
+      visitContent(parameter.content);
+    });
+
+  const visitResponse = (
+    parent: Record<string, any>,
+    key: string,
+    isComponent = false
+  ) =>
+    visitSlot(
+      parent,
+      key,
+      'responses',
+      !isComponent && (!!parent[key]?.content || !!parent[key]?.headers),
+      (response) => {
+        visitMap(response.headers, visitHeader);
+        visitContent(response.content);
+      }
+    );
+
+  const visitRequestBody = (requestBody: unknown) => {
+    if (isObject(requestBody)) {
+      visitContent(requestBody.content);
+    }
+  };
+
+  const visitPathItem = (pathItem: unknown) => {
+    if (!isObject(pathItem)) {
+      return;
+    }
+    (pathItem.parameters || []).forEach((_: unknown, index: number) =>
+      visitParameter(pathItem.parameters, index)
+    );
+    for (const method of OPERATION_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) {
+        continue;
+      }
+      (operation.parameters || []).forEach((_: unknown, index: number) =>
+        visitParameter(operation.parameters, index)
+      );
+      visitRequestBody(operation.requestBody);
+      visitMap(operation.responses, (responses, status) =>
+        visitResponse(responses, status)
+      );
+      visitMap(operation.callbacks, (callbacks, name) =>
+        visitMap(callbacks[name], (callback, expression) =>
+          visitPathItem(callback[expression])
+        )
+      );
+    }
+  };
+
+  visitMap(document.paths, (paths, path) => visitPathItem(paths[path]));
+  visitMap((document as any).webhooks, (webhooks, name) =>
+    visitPathItem(webhooks[name])
+  );
+
+  const components = document.components || {};
+  visitMap(components.schemas, (schemas, name) =>
+    visitSchema(schemas, name, true)
+  );
+  visitMap(components.parameters, (parameters, name) =>
+    visitParameter(parameters, name, true)
+  );
+  visitMap(components.responses, (responses, name) =>
+    visitResponse(responses, name, true)
+  );
+  visitMap(components.headers, visitHeader);
+  visitMap(components.requestBodies, (requestBodies, name) =>
+    visitRequestBody(requestBodies[name])
+  );
+  visitMap(components.callbacks, (callbacks, name) =>
+    visitMap(callbacks[name], (callback, expression) =>
+      visitPathItem(callback[expression])
+    )
+  );
+  return slots;
+}
+
+function isHoistableSchema(schema: unknown): boolean {
+  if (!schema || typeof schema !== 'object') {
+    return false;
+  }
+  return ['properties', 'allOf', 'oneOf', 'anyOf'].some(
+    (keyword) => keyword in schema
+  );
+}
+
+function getComponentName(
+  slot: InlineSlot,
+  componentMap: Record<string, unknown>
+): string {
+  const hash = slot.hash.split(':')[1].slice(0, 8);
+  const node = slot.parent[slot.key];
+  let baseName: string;
+  switch (slot.type) {
+    case 'parameters':
+      baseName = `${toPascalCase(node.name)}${toPascalCase(node.in)}Parameter`;
+      break;
+    case 'responses':
+      baseName = `Response${hash}`;
+      break;
+    default:
+      baseName = `Schema${hash}`;
+  }
+  let name = baseName;
+  for (let index = 2; name in componentMap; index++) {
+    name = `${baseName}${index}`;
+  }
+  return name;
+}
+
+function toPascalCase(value: unknown): string {
+  return (typeof value === 'string' ? value : '')
+    .split(/[^A-Za-z0-9]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+function hashObject(value: unknown): string {
+  return createHash('sha1').update(stableStringify(value)).digest('hex');
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => value[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,127 @@
+import { OpenAPIObject } from '../interfaces';
+import {
+  fromJsonPointer,
+  resolveJsonPointer,
+  toJsonPointer
+} from './json-pointer.util';
+
+const COMPONENT_REF_PREFIX = '#/components/';
+
+/**
+ * Replaces the local component references (`$ref: '#/components/...'`) of
+ * `document` with copies of the components they point to. Recursive
+ * references are kept, as they cannot be inlined.
+ *
+ * With `refs` (e.g. the references returned by `deduplicateInlineSchemas()`),
+ * only those components are inlined, and they are removed from `components`
+ * once nothing references them anymore.
+ *
+ * @returns the document, updated in place
+ */
+export function dereference(
+  document: OpenAPIObject,
+  refs?: string[]
+): OpenAPIObject {
+  const shouldInline = (ref: string) =>
+    refs ? refs.includes(ref) : ref.startsWith(COMPONENT_REF_PREFIX);
+
+  const inline = (node: unknown, expanding: string[]): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item) => inline(item, expanding));
+    }
+    if (!node || typeof node !== 'object') {
+      return node;
+    }
+    const { $ref, ...siblings } = node as Record<string, unknown>;
+    if (
+      typeof $ref === 'string' &&
+      shouldInline($ref) &&
+      !expanding.includes($ref)
+    ) {
+      const target = resolveJsonPointer(document, $ref);
+      if (target !== undefined) {
+        const resolved = inline(target, [...expanding, $ref]);
+        return Object.keys(siblings).length > 0
+          ? {
+              ...(resolved as object),
+              ...(inline(siblings, expanding) as object)
+            }
+          : resolved;
+      }
+    }
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [
+        key,
+        inline(value, expanding)
+      ])
+    );
+  };
+
+  const paths = inline(document.paths, []);
+  const webhooks = inline((document as any).webhooks, []);
+  const components = Object.fromEntries(
+    Object.entries(document.components || {}).map(([type, entries]) => [
+      type,
+      entries && typeof entries === 'object'
+        ? Object.fromEntries(
+            Object.entries(entries).map(([name, component]) => [
+              name,
+              inline(component, [
+                `#${toJsonPointer(['components', type, name])}`
+              ])
+            ])
+          )
+        : entries
+    ])
+  );
+
+  document.paths = paths as OpenAPIObject['paths'];
+  if (webhooks) {
+    (document as any).webhooks = webhooks;
+  }
+  if (document.components) {
+    document.components = components;
+  }
+
+  if (refs) {
+    const remaining = collectRefs([
+      document.paths,
+      (document as any).webhooks,
+      document.components
+    ]);
+    for (const ref of refs) {
+      const [, type, name] = fromJsonPointer(ref);
+      const entries = document.components?.[type];
+      if (remaining.has(ref) || !entries) {
+        continue;
+      }
+      delete entries[name];
+      if (Object.keys(entries).length === 0) {
+        delete document.components[type];
+      }
+    }
+  }
+  return document;
+}
+
+function collectRefs(roots: unknown[]): Set<string> {
+  const refs = new Set<string>();
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref' && typeof value === 'string') {
+        refs.add(value);
+        continue;
+      }
+      visit(value);
+    }
+  };
+  roots.forEach(visit);
+  return refs;
+}
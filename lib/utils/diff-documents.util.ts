@@ -0,0 +1,715 @@
+import { OpenAPIObject } from '../interfaces';
+import {
+  DocumentChange,
+  DocumentChangeCode,
+  DocumentChangeSeverity,
+  DocumentDiff
+} from '../interfaces/document-diff.interface';
+import {
+  ContentObject,
+  OperationObject,
+  ParameterObject,
+  PathItemObject,
+  ReferenceObject,
+  RequestBodyObject,
+  ResponseObject,
+  SchemaObject
+} from '../interfaces/open-api-spec.interface';
+import { forEachOperation, OperationEntry } from './for-each-operation.util';
+import {
+  fromJsonPointer,
+  resolveReference,
+  toJsonPointer
+} from './json-pointer.util';
+
+/**
+ * Whether a schema describes data sent to the API (`request`) or data the API
+ * sends back (`response`). Webhooks invert both sides.
+ */
+type Direction = 'request' | 'response';
+
+/**
+ * How a change affects the set of values a schema accepts.
+ */
+type Effect = 'narrows' | 'widens' | 'both';
+
+type Segments = Array<string | number>;
+
+interface DiffContext {
+  oldDoc: OpenAPIObject;
+  newDoc: OpenAPIObject;
+  changes: DocumentChange[];
+  visitedRefs: Set<string>;
+}
+
+/**
+ * Compares two documents and classifies every detected change as breaking or
+ * non-breaking for existing API consumers.
+ *
+ * @publicApi
+ */
+export function diffDocuments(
+  oldDoc: OpenAPIObject,
+  newDoc: OpenAPIObject
+): DocumentDiff {
+  const ctx: DiffContext = {
+    oldDoc,
+    newDoc,
+    changes: [],
+    visitedRefs: new Set()
+  };
+  const oldOperations = collectOperations(oldDoc);
+  const newOperations = collectOperations(newDoc);
+
+  for (const [id, oldEntry] of oldOperations) {
+    const newEntry = newOperations.get(id);
+    if (!newEntry) {
+      report(
+        ctx,
+        'operation-removed',
+        'breaking',
+        `${describeOperation(oldEntry)} was removed.`,
+        operationSegments(oldEntry)
+      );
+      continue;
+    }
+    diffOperation(ctx, oldEntry, newEntry);
+  }
+  for (const [id, newEntry] of newOperations) {
+    if (!oldOperations.has(id)) {
+      report(
+        ctx,
+        'operation-added',
+        'non-breaking',
+        `${describeOperation(newEntry)} was added.`,
+        operationSegments(newEntry)
+      );
+    }
+  }
+
+  return {
+    breaking: ctx.changes.filter((change) => change.severity === 'breaking'),
+    nonBreaking: ctx.changes.filter(
+      (change) => change.severity === 'non-breaking'
+    )
+  };
+}
+
+function diffOperation(
+  ctx: DiffContext,
+  oldEntry: OperationEntry,
+  newEntry: OperationEntry
+) {
+  const oldOperation = oldEntry.operation;
+  const newOperation = newEntry.operation;
+  const segments = operationSegments(newEntry);
+  const inbound: Direction =
+    newEntry.location === 'webhooks' ? 'response' : 'request';
+  const outbound: Direction = inbound === 'request' ? 'response' : 'request';
+
+  if (
+    oldOperation.operationId &&
+    oldOperation.operationId !== newOperation.operationId
+  ) {
+    report(
+      ctx,
+      'operation-id-changed',
+      'breaking',
+      `operationId changed from "${oldOperation.operationId}" to "${newOperation.operationId ?? ''}".`,
+      [...segments, 'operationId']
+    );
+  }
+  if (!oldOperation.deprecated && newOperation.deprecated) {
+    report(
+      ctx,
+      'operation-deprecated',
+      'non-breaking',
+      `${describeOperation(newEntry)} was deprecated.`,
+      [...segments, 'deprecated']
+    );
+  }
+
+  diffParameters(ctx, oldEntry, newEntry, inbound);
+  diffRequestBody(
+    ctx,
+    oldOperation,
+    newOperation,
+    operationSegments(oldEntry),
+    segments,
+    inbound
+  );
+  diffResponses(
+    ctx,
+    oldOperation,
+    newOperation,
+    operationSegments(oldEntry),
+    segments,
+    outbound
+  );
+}
+
+function diffParameters(
+  ctx: DiffContext,
+  oldEntry: OperationEntry,
+  newEntry: OperationEntry,
+  direction: Direction
+) {
+  const oldParameters = collectParameters(ctx.oldDoc, oldEntry);
+  const newParameters = collectParameters(ctx.newDoc, newEntry);
+
+  for (const [id, oldParameter] of oldParameters) {
+    const newParameter = newParameters.get(id);
+    const label = `${oldParameter.parameter.in} parameter "${oldParameter.parameter.name}"`;
+    if (!newParameter) {
+      report(
+        ctx,
+        'parameter-removed',
+        removalSeverity(direction),
+        `The ${label} was removed.`,
+        oldParameter.segments
+      );
+      continue;
+    }
+    const wasRequired = !!oldParameter.parameter.required;
+    const isRequired = !!newParameter.parameter.required;
+    if (wasRequired !== isRequired) {
+      report(
+        ctx,
+        isRequired ? 'parameter-became-required' : 'parameter-became-optional',
+        severityOf(direction, isRequired ? 'narrows' : 'widens'),
+        `The ${label} became ${isRequired ? 'required' : 'optional'}.`,
+        [...newParameter.segments, 'required']
+      );
+    }
+    if (oldParameter.parameter.schema && newParameter.parameter.schema) {
+      diffSchema(
+        ctx,
+        oldParameter.parameter.schema,
+        newParameter.parameter.schema,
+        [...oldParameter.segments, 'schema'],
+        [...newParameter.segments, 'schema'],
+        direction
+      );
+    }
+  }
+  for (const [id, newParameter] of newParameters) {
+    if (oldParameters.has(id)) {
+      continue;
+    }
+    const { parameter } = newParameter;
+    report(
+      ctx,
+      'parameter-added',
+      additionSeverity(direction, !!parameter.required),
+      `${parameter.required ? 'Required' : 'Optional'} ${parameter.in} parameter "${parameter.name}" was added.`,
+      newParameter.segments
+    );
+  }
+}
+
+function diffRequestBody(
+  ctx: DiffContext,
+  oldOperation: OperationObject,
+  newOperation: OperationObject,
+  oldSegments: Segments,
+  newSegments: Segments,
+  direction: Direction
+) {
+  const oldBody = resolveReference<RequestBodyObject>(
+    ctx.oldDoc,
+    oldOperation.requestBody
+  );
+  const newBody = resolveReference<RequestBodyObject>(
+    ctx.newDoc,
+    newOperation.requestBody
+  );
+  if (!oldBody && !newBody) {
+    return;
+  }
+  if (!newBody) {
+    report(
+      ctx,
+      'request-body-removed',
+      removalSeverity(direction),
+      'The request body was removed.',
+      [...oldSegments, 'requestBody']
+    );
+    return;
+  }
+  if (!oldBody) {
+    report(
+      ctx,
+      'request-body-added',
+      additionSeverity(direction, !!newBody.required),
+      `${newBody.required ? 'A required' : 'An optional'} request body was added.`,
+      [...newSegments, 'requestBody']
+    );
+    return;
+  }
+  if (!!oldBody.required !== !!newBody.required) {
+    report(
+      ctx,
+      newBody.required
+        ? 'request-body-became-required'
+        : 'request-body-became-optional',
+      severityOf(direction, newBody.required ? 'narrows' : 'widens'),
+      `The request body became ${newBody.required ? 'required' : 'optional'}.`,
+      [...newSegments, 'requestBody', 'required']
+    );
+  }
+  diffContent(
+    ctx,
+    oldBody.content,
+    newBody.content,
+    [...oldSegments, 'requestBody', 'content'],
+    [...newSegments, 'requestBody', 'content'],
+    direction
+  );
+}
+
+function diffResponses(
+  ctx: DiffContext,
+  oldOperation: OperationObject,
+  newOperation: OperationObject,
+  oldSegments: Segments,
+  newSegments: Segments,
+  direction: Direction
+) {
+  const oldResponses = oldOperation.responses || {};
+  const newResponses = newOperation.responses || {};
+
+  for (const [status, oldValue] of Object.entries(oldResponses)) {
+    if (!oldValue) {
+      continue;
+    }
+    const newValue = newResponses[status];
+    if (!newValue) {
+      report(
+        ctx,
+        'response-removed',
+        'breaking',
+        `The "${status}" response was removed.`,
+        [...oldSegments, 'responses', status]
+      );
+      continue;
+    }
+    const oldResponse = resolveReference<ResponseObject>(ctx.oldDoc, oldValue);
+    const newResponse = resolveReference<ResponseObject>(ctx.newDoc, newValue);
+    diffContent(
+      ctx,
+      oldResponse?.content,
+      newResponse?.content,
+      [...oldSegments, 'responses', status, 'content'],
+      [...newSegments, 'responses', status, 'content'],
+      direction
+    );
+  }
+  for (const [status, newValue] of Object.entries(newResponses)) {
+    if (newValue && !oldResponses[status]) {
+      report(
+        ctx,
+        'response-added',
+        'non-breaking',
+        `The "${status}" response was added.`,
+        [...newSegments, 'responses', status]
+      );
+    }
+  }
+}
+
+function diffContent(
+  ctx: DiffContext,
+  oldContent: ContentObject | undefined,
+  newContent: ContentObject | undefined,
+  oldSegments: Segments,
+  newSegments: Segments,
+  direction: Direction
+) {
+  oldContent = oldContent || {};
+  newContent = newContent || {};
+
+  for (const [mediaType, oldMedia] of Object.entries(oldContent)) {
+    const newMedia = newContent[mediaType];
+    if (!newMedia) {
+      report(
+        ctx,
+        'media-type-removed',
+        'breaking',
+        `The "${mediaType}" media type was removed.`,
+        [...oldSegments, mediaType]
+      );
+      continue;
+    }
+    for (const key of ['schema', 'itemSchema'] as const) {
+      if (oldMedia[key] && newMedia[key]) {
+        diffSchema(
+          ctx,
+          oldMedia[key],
+          newMedia[key],
+          [...oldSegments, mediaType, key],
+          [...newSegments, mediaType, key],
+          direction
+        );
+      }
+    }
+  }
+  for (const mediaType of Object.keys(newContent)) {
+    if (!oldContent[mediaType]) {
+      report(
+        ctx,
+        'media-type-added',
+        'non-breaking',
+        `The "${mediaType}" media type was added.`,
+        [...newSegments, mediaType]
+      );
+    }
+  }
+}
+
+function diffSchema(
+  ctx: DiffContext,
+  oldValue: SchemaObject | ReferenceObject,
+  newValue: SchemaObject | ReferenceObject,
+  oldSegments: Segments,
+  newSegments: Segments,
+  direction: Direction
+) {
+  const oldRef = '$ref' in oldValue ? oldValue.$ref : undefined;
+  const newRef = '$ref' in newValue ? newValue.$ref : undefined;
+  if (oldRef && newRef) {
+    if (oldRef !== newRef) {
+      report(
+        ctx,
+        'schema-ref-changed',
+        'breaking',
+        `The schema reference changed from "${oldRef}" to "${newRef}".`,
+        [...newSegments, '$ref']
+      );
+      return;
+    }
+    // Shared components are compared once per direction, which also guards
+    // against recursive schemas.
+    const visitKey = `${direction} ${oldRef}`;
+    if (ctx.visitedRefs.has(visitKey)) {
+      return;
+    }
+    ctx.visitedRefs.add(visitKey);
+    oldSegments = fromJsonPointer(oldRef);
+    newSegments = fromJsonPointer(newRef);
+  }
+
+  const oldSchema = resolveReference<SchemaObject>(ctx.oldDoc, oldValue);
+  const newSchema = resolveReference<SchemaObject>(ctx.newDoc, newValue);
+  if (!oldSchema || !newSchema) {
+    return;
+  }
+
+  diffTypes(ctx, oldSchema, newSchema, newSegments, direction);
+  diffEnums(ctx, oldSchema, newSchema, newSegments, direction);
+  diffProperties(
+    ctx,
+    oldSchema,
+    newSchema,
+    oldSegments,
+    newSegments,
+    direction
+  );
+
+  if (
+    typeof oldSchema.items === 'object' &&
+    typeof newSchema.items === 'object'
+  ) {
+    diffSchema(
+      ctx,
+      oldSchema.items,
+      newSchema.items,
+      [...oldSegments, 'items'],
+      [...newSegments, 'items'],
+      direction
+    );
+  }
+  if (
+    typeof oldSchema.additionalProperties === 'object' &&
+    typeof newSchema.additionalProperties === 'object'
+  ) {
+    diffSchema(
+      ctx,
+      oldSchema.additionalProperties,
+      newSchema.additionalProperties,
+      [...oldSegments, 'additionalProperties'],
+      [...newSegments, 'additionalProperties'],
+      direction
+    );
+  }
+  for (const keyword of ['allOf', 'oneOf', 'anyOf'] as const) {
+    const oldMembers = oldSchema[keyword] || [];
+    const newMembers = newSchema[keyword] || [];
+    const count = Math.min(oldMembers.length, newMembers.length);
+    for (let index = 0; index < count; index++) {
+      diffSchema(
+        ctx,
+        oldMembers[index],
+        newMembers[index],
+        [...oldSegments, keyword, index],
+        [...newSegments, keyword, index],
+        direction
+      );
+    }
+  }
+}
+
+function diffTypes(
+  ctx: DiffContext,
+  oldSchema: SchemaObject,
+  newSchema: SchemaObject,
+  segments: Segments,
+  direction: Direction
+) {
+  const oldTypes = schemaTypes(oldSchema);
+  const newTypes = schemaTypes(newSchema);
+  if (!oldTypes && !newTypes) {
+    return;
+  }
+  let effect: Effect;
+  if (!oldTypes) {
+    effect = 'narrows';
+  } else if (!newTypes) {
+    effect = 'widens';
+  } else {
+    const widened = isTypeSubset(oldTypes, newTypes);
+    const narrowed = isTypeSubset(newTypes, oldTypes);
+    if (widened && narrowed) {
+      return;
+    }
+    effect = widened ? 'widens' : narrowed ? 'narrows' : 'both';
+  }
+  report(
+    ctx,
+    'type-changed',
+    severityOf(direction, effect),
+    `The type changed from ${formatTypes(oldTypes)} to ${formatTypes(newTypes)}.`,
+    [...segments, 'type']
+  );
+}
+
+function diffEnums(
+  ctx: DiffContext,
+  oldSchema: SchemaObject,
+  newSchema: SchemaObject,
+  segments: Segments,
+  direction: Direction
+) {
+  const oldValues = enumValues(oldSchema);
+  const newValues = enumValues(newSchema);
+  if (!oldValues && !newValues) {
+    return;
+  }
+  const removed = oldValues
+    ? [...oldValues].filter((value) => !newValues || !newValues.has(value))
+    : [];
+  const added = newValues
+    ? [...newValues].filter((value) => !oldValues || !oldValues.has(value))
+    : [];
+
+  if (removed.length > 0 || (!oldValues && newValues)) {
+    report(
+      ctx,
+      'enum-narrowed',
+      severityOf(direction, 'narrows'),
+      removed.length > 0
+        ? `Allowed values were removed: ${removed.join(', ')}.`
+        : 'The schema was restricted to an enumeration.',
+      [...segments, 'enum']
+    );
+  }
+  if (added.length > 0 || (oldValues && !newValues)) {
+    report(
+      ctx,
+      'enum-widened',
+      severityOf(direction, 'widens'),
+      added.length > 0
+        ? `Allowed values were added: ${added.join(', ')}.`
+        : 'The enumeration constraint was removed.',
+      [...segments, 'enum']
+    );
+  }
+}
+
+function diffProperties(
+  ctx: DiffContext,
+  oldSchema: SchemaObject,
+  newSchema: SchemaObject,
+  oldSegments: Segments,
+  newSegments: Segments,
+  direction: Direction
+) {
+  const oldProperties = oldSchema.properties || {};
+  const newProperties = newSchema.properties || {};
+  const oldRequired = new Set(oldSchema.required || []);
+  const newRequired = new Set(newSchema.required || []);
+
+  for (const [name, oldProperty] of Object.entries(oldProperties)) {
+    const newProperty = newProperties[name];
+    if (!newProperty) {
+      report(
+        ctx,
+        'property-removed',
+        removalSeverity(direction),
+        `Property "${name}" was removed.`,
+        [...oldSegments, 'properties', name]
+      );
+      continue;
+    }
+    if (oldRequired.has(name) !== newRequired.has(name)) {
+      const isRequired = newRequired.has(name);
+      report(
+        ctx,
+        isRequired ? 'property-became-required' : 'property-became-optional',
+        severityOf(direction, isRequired ? 'narrows' : 'widens'),
+        `Property "${name}" became ${isRequired ? 'required' : 'optional'}.`,
+        [...newSegments, 'properties', name]
+      );
+    }
+    diffSchema(
+      ctx,
+      oldProperty,
+      newProperty,
+      [...oldSegments, 'properties', name],
+      [...newSegments, 'properties', name],
+      direction
+    );
+  }
+  for (const name of Object.keys(newProperties)) {
+    if (name in oldProperties) {
+      continue;
+    }
+    const isRequired = newRequired.has(name);
+    report(
+      ctx,
+      'property-added',
+      additionSeverity(direction, isRequired),
+      `${isRequired ? 'Required' : 'Optional'} property "${name}" was added.`,
+      [...newSegments, 'properties', name]
+    );
+  }
+}
+
+function report(
+  ctx: DiffContext,
+  code: DocumentChangeCode,
+  severity: DocumentChangeSeverity,
+  message: string,
+  segments: Segments
+) {
+  ctx.changes.push({
+    code,
+    severity,
+    message,
+    pointer: toJsonPointer(segments)
+  });
+}
+
+/**
+ * Requests break when the accepted values shrink, responses break when the
+ * returned values grow.
+ */
+function severityOf(
+  direction: Direction,
+  effect: Effect
+): DocumentChangeSeverity {
+  if (effect === 'both') {
+    return 'breaking';
+  }
+  const breakingEffect: Effect = direction === 'request' ? 'narrows' : 'widens';
+  return effect === breakingEffect ? 'breaking' : 'non-breaking';
+}
+
+function additionSeverity(
+  direction: Direction,
+  required: boolean
+): DocumentChangeSeverity {
+  return direction === 'request' && required ? 'breaking' : 'non-breaking';
+}
+
+function removalSeverity(direction: Direction): DocumentChangeSeverity {
+  return direction === 'response' ? 'breaking' : 'non-breaking';
+}
+
+function collectOperations(document: OpenAPIObject) {
+  const operations = new Map<string, OperationEntry>();
+  forEachOperation(document, (entry) => {
+    operations.set(operationSegments(entry).join(' '), entry);
+  });
+  return operations;
+}
+
+function collectParameters(document: OpenAPIObject, entry: OperationEntry) {
+  const parameters = new Map<
+    string,
+    { parameter: ParameterObject; segments: Segments }
+  >();
+  const register = (
+    values: PathItemObject['parameters'],
+    segments: Segments
+  ) => {
+    (values || []).forEach((value, index) => {
+      const parameter = resolveReference<ParameterObject>(document, value);
+      if (!parameter?.name || !parameter.in) {
+        return;
+      }
+      // Header names are case-insensitive.
+      const name =
+        parameter.in === 'header'
+          ? parameter.name.toLowerCase()
+          : parameter.name;
+      parameters.set(`${parameter.in} ${name}`, {
+        parameter,
+        segments: [...segments, 'parameters', index]
+      });
+    });
+  };
+  // Operation-level parameters override the ones declared on the path item.
+  register(entry.pathItem.parameters, [entry.location, entry.key]);
+  register(entry.operation.parameters, operationSegments(entry));
+  return parameters;
+}
+
+function schemaTypes(schema: SchemaObject): Set<string> | undefined {
+  if (schema.type === undefined) {
+    return undefined;
+  }
+  const types = new Set<string>(
+    Array.isArray(schema.type) ? schema.type : [schema.type]
+  );
+  if (schema.nullable) {
+    types.add('null');
+  }
+  return types;
+}
+
+function isTypeSubset(subset: Set<string>, superset: Set<string>) {
+  return [...subset].every(
+    (type) =>
+      superset.has(type) || (type === 'integer' && superset.has('number'))
+  );
+}
+
+function formatTypes(types: Set<string> | undefined) {
+  return types ? [...types].map((type) => `"${type}"`).join(' | ') : 'any';
+}
+
+function enumValues(schema: SchemaObject): Set<string> | undefined {
+  const values: unknown[] | undefined =
+    schema.enum ?? ('const' in schema ? [schema.const] : undefined);
+  return values && new Set(values.map((value) => JSON.stringify(value)));
+}
+
+function operationSegments(entry: OperationEntry): Segments {
+  return [entry.location, entry.key, entry.method];
+}
+
+function describeOperation(entry: OperationEntry) {
+  return entry.location === 'webhooks'
+    ? `Webhook "${entry.key}" (${entry.method.toUpperCase()})`
+    : `${entry.method.toUpperCase()} ${entry.key}`;
+}
@@ -0,0 +1,144 @@
+import { createHash } from 'crypto';
+import { brotliCompressSync, gzipSync } from 'zlib';
+import { DocumentContentEncoding, OpenAPIObject } from '../interfaces';
+import { DocumentFormat, serializeDocument } from './serialize-document.util';
+
+export interface DocumentRepresentation {
+  body: string | Buffer;
+  contentType: string;
+  etag: string;
+  encoding?: DocumentContentEncoding;
+}
+
+const DEFAULT_CONTENT_TYPES: Record<DocumentFormat, string> = {
+  json: 'application/json',
+  yaml: 'text/yaml'
+};
+
+/**
+ * Media types accepted by the definition endpoints. `application/vnd.oai.openapi`
+ * is the registered media type of YAML documents.
+ */
+const FORMATS_BY_MEDIA_TYPE: Record<string, DocumentFormat> = {
+  'application/json': 'json',
+  'application/vnd.oai.openapi+json': 'json',
+  'application/yaml': 'yaml',
+  'application/x-yaml': 'yaml',
+  'text/yaml': 'yaml',
+  'application/vnd.oai.openapi': 'yaml'
+};
+
+/**
+ * Picks the format to serve from the `Accept` header of the request, among
+ * the `formats` served by the application. Falls back to `defaultFormat`
+ * when the header is missing or does not match any of them.
+ */
+export function negotiateDocumentFormat(
+  accept: string | undefined,
+  formats: DocumentFormat[],
+  defaultFormat: DocumentFormat
+): { format: DocumentFormat; contentType: string } {
+  for (const mediaType of parseQualityList(accept)) {
+    const format = FORMATS_BY_MEDIA_TYPE[mediaType];
+    if (format && formats.includes(format)) {
+      return { format, contentType: mediaType };
+    }
+    if (mediaType === '*/*' || mediaType.endsWith('/*')) {
+      break;
+    }
+  }
+  return {
+    format: defaultFormat,
+    contentType: DEFAULT_CONTENT_TYPES[defaultFormat]
+  };
+}
+
+/**
+ * Picks the first of `encodings` accepted by the `Accept-Encoding` header of
+ * the request, in order of preference of the client.
+ */
+export function negotiateContentEncoding(
+  acceptEncoding: string | undefined,
+  encodings: DocumentContentEncoding[]
+): DocumentContentEncoding | undefined {
+  const accepted = parseQualityList(acceptEncoding);
+  for (const encoding of accepted) {
+    if (encoding === '*') {
+      return encodings[0];
+    }
+    if (encodings.includes(encoding as DocumentContentEncoding)) {
+      return encoding as DocumentContentEncoding;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Serializes (and compresses) `document`, along with a strong ETag that
+ * identifies the resulting bytes.
+ */
+export function createDocumentRepresentation(
+  document: OpenAPIObject,
+  format: DocumentFormat,
+  contentType: string,
+  encoding?: DocumentContentEncoding
+): DocumentRepresentation {
+  const serialized = serializeDocument(document, format);
+  const hash = createHash('sha1')
+    .update(`${contentType}\n${serialized}`)
+    .digest('base64url');
+
+  if (!encoding) {
+    return { body: serialized, contentType, etag: `"${hash}"` };
+  }
+  return {
+    body:
+      encoding === 'br' ? brotliCompressSync(serialized) : gzipSync(serialized),
+    contentType,
+    etag: `"${hash}-${encoding}"`,
+    encoding
+  };
+}
+
+/**
+ * Whether the `If-None-Match` header of the request matches `etag`, using
+ * the weak comparison required for conditional GET requests.
+ */
+export function matchesIfNoneMatch(
+  ifNoneMatch: string | undefined,
+  etag: string
+): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  const opaqueTag = (tag: string) => tag.trim().replace(/^W\//, '');
+  return ifNoneMatch
+    .split(',')
+    .some((tag) => tag.trim() === '*' || opaqueTag(tag) === opaqueTag(etag));
+}
+
+/**
+ * Parses a header such as `Accept` or `Accept-Encoding` into its values,
+ * sorted by decreasing quality. Values with `q=0` are left out.
+ */
+function parseQualityList(header: string | undefined): string[] {
+  if (!header) {
+    return [];
+  }
+  return header
+    .split(',')
+    .map((entry, index) => {
+      const [value, ...parameters] = entry.split(';');
+      const quality = parameters
+        .map((parameter) => parameter.trim().split('='))
+        .find(([name]) => name === 'q');
+      return {
+        value: value.trim().toLowerCase(),
+        quality: quality ? Number(quality[1]) : 1,
+        index
+      };
+    })
+    .filter(({ value, quality }) => value && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+    .map(({ value }) => value);
+}
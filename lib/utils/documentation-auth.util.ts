@@ -0,0 +1,107 @@
+import { HttpServer } from '@nestjs/common/interfaces/http/http-server.interface';
+import { createHash, timingSafeEqual } from 'crypto';
+import {
+  SwaggerApiKeyAuthOptions,
+  SwaggerAuthOptions,
+  SwaggerBasicAuthOptions,
+  SwaggerCustomAuthOptions
+} from '../interfaces';
+
+const DEFAULT_REALM = 'API documentation';
+
+type RouteHandler = (req: any, res: any) => unknown;
+
+type DocumentationAuth =
+  | SwaggerBasicAuthOptions
+  | SwaggerApiKeyAuthOptions
+  | SwaggerCustomAuthOptions;
+
+/**
+ * Wraps a handler of the documentation routes so that it only runs once the
+ * request passes the `auth` check, and answers `401 Unauthorized` otherwise.
+ */
+export function withDocumentationAuth(
+  httpAdapter: HttpServer,
+  auth: SwaggerAuthOptions | undefined,
+  handler: RouteHandler
+): RouteHandler {
+  if (!auth) {
+    return handler;
+  }
+  const options: DocumentationAuth =
+    typeof auth === 'function' ? { type: 'custom', authorize: auth } : auth;
+
+  return async (req, res) => {
+    if (await isAuthorized(options, req)) {
+      return handler(req, res);
+    }
+    httpAdapter.setHeader(res, 'WWW-Authenticate', getChallenge(options));
+    httpAdapter.reply(res, { statusCode: 401, message: 'Unauthorized' }, 401);
+  };
+}
+
+async function isAuthorized(
+  auth: DocumentationAuth,
+  req: any
+): Promise<boolean> {
+  switch (auth.type) {
+    case 'basic': {
+      const credentials = parseBasicCredentials(req.headers?.authorization);
+      return (
+        !!credentials &&
+        safeEqual(credentials.username, auth.username) &&
+        safeEqual(credentials.password, auth.password)
+      );
+    }
+    case 'apiKey': {
+      const key = req.headers?.[(auth.header ?? 'X-API-Key').toLowerCase()];
+      const keys = Array.isArray(auth.keys) ? auth.keys : [auth.keys];
+      return (
+        typeof key === 'string' &&
+        keys.some((expected) => safeEqual(key, expected))
+      );
+    }
+    default:
+      return (await auth.authorize(req)) === true;
+  }
+}
+
+function getChallenge(auth: DocumentationAuth): string {
+  switch (auth.type) {
+    case 'basic':
+      return `Basic realm="${auth.realm ?? DEFAULT_REALM}", charset="UTF-8"`;
+    case 'apiKey':
+      return `ApiKey realm="${DEFAULT_REALM}", header="${auth.header ?? 'X-API-Key'}"`;
+    default:
+      return auth.challenge ?? `Bearer realm="${DEFAULT_REALM}"`;
+  }
+}
+
+function parseBasicCredentials(
+  authorization: unknown
+): { username: string; password: string } | undefined {
+  if (typeof authorization !== 'string') {
+    return undefined;
+  }
+  const [scheme, token] = authorization.trim().split(/\s+/);
+  if (scheme?.toLowerCase() !== 'basic' || !token) {
+    return undefined;
+  }
+  const decoded = Buffer.from(token, 'base64').toString('utf8');
+  const separatorIndex = decoded.indexOf(':');
+  if (separatorIndex < 0) {
+    return undefined;
+  }
+  return {
+    username: decoded.slice(0, separatorIndex),
+    password: decoded.slice(separatorIndex + 1)
+  };
+}
+
+/**
+ * Compares two secrets in constant time.
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(actual), digest(expected));
+}
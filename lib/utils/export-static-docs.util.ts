@@ -0,0 +1,92 @@
+import { copyFileSync, existsSync, mkdirSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { ExportStaticDocsOptions, OpenAPIObject } from '../interfaces';
+import {
+  buildSwaggerHTML,
+  buildSwaggerInitJS,
+  buildUiRendererHTML,
+  getSwaggerAssetsAbsoluteFSPath,
+  getUiRendererAssetAbsoluteFSPath,
+  getUiRendererCdnUrl
+} from '../swagger-ui';
+import { resolvePath } from './resolve-path.util';
+
+/**
+ * Files of `swagger-ui-dist` loaded by the Swagger UI page.
+ */
+const SWAGGER_UI_ASSETS = [
+  'swagger-ui.css',
+  'swagger-ui-bundle.js',
+  'swagger-ui-standalone-preset.js',
+  'favicon-16x16.png',
+  'favicon-32x32.png',
+  'oauth2-redirect.html',
+  'oauth2-redirect.js',
+  'LICENSE',
+  'NOTICE'
+];
+
+/**
+ * Writes the documentation UI of `document` to `outDir` as static files
+ * (`index.html` with the document embedded, and the renderer assets), so that
+ * it can be hosted on any static file host.
+ *
+ * The Redoc, Scalar and RapiDoc scripts are copied from `node_modules` when
+ * their package is installed, and loaded from a CDN otherwise.
+ *
+ * @returns the absolute paths of the written files
+ */
+export function exportStaticDocs(
+  document: OpenAPIObject,
+  outDir: string,
+  options: ExportStaticDocsOptions = {}
+): string[] {
+  const { ui = 'swagger', ...customOptions } = options;
+  const outputPath = resolve(outDir);
+  const writtenFiles: string[] = [];
+
+  const writeFile = (fileName: string, content: string) => {
+    writeFileSync(join(outputPath, fileName), content);
+    writtenFiles.push(join(outputPath, fileName));
+  };
+  const copyFile = (sourcePath: string, fileName: string) => {
+    copyFileSync(sourcePath, join(outputPath, fileName));
+    writtenFiles.push(join(outputPath, fileName));
+  };
+
+  mkdirSync(outputPath, { recursive: true });
+
+  if (ui === 'swagger') {
+    const assetsPath = customOptions.customSwaggerUiPath
+      ? resolvePath(customOptions.customSwaggerUiPath)
+      : getSwaggerAssetsAbsoluteFSPath();
+
+    for (const asset of SWAGGER_UI_ASSETS) {
+      if (existsSync(join(assetsPath, asset))) {
+        copyFile(join(assetsPath, asset), asset);
+      }
+    }
+    writeFile(
+      'swagger-ui-init.js',
+      buildSwaggerInitJS(document, customOptions)
+    );
+    writeFile('index.html', buildSwaggerHTML('./', customOptions));
+    return writtenFiles;
+  }
+
+  const assetPath = customOptions.uiScriptUrl
+    ? undefined
+    : getUiRendererAssetAbsoluteFSPath(ui);
+  if (assetPath) {
+    copyFile(assetPath, `${ui}.js`);
+  }
+  const scriptUrl =
+    customOptions.uiScriptUrl ??
+    (assetPath ? `./${ui}.js` : getUiRendererCdnUrl(ui));
+
+  writeFile(
+    'index.html',
+    buildUiRendererHTML(ui, scriptUrl, { document }, customOptions)
+  );
+  return writtenFiles;
+}
@@ -0,0 +1,202 @@
+import { API_VISIBILITY_EXTENSION } from '../constants';
+import { DocumentAudienceOptions, OpenAPIObject } from '../interfaces';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Normalizes the `audience` document option.
+ */
+export function getDocumentAudiences(
+  audience: string | string[] | DocumentAudienceOptions | undefined
+): string[] | undefined {
+  if (audience === undefined) {
+    return undefined;
+  }
+  const include =
+    typeof audience === 'object' && !Array.isArray(audience)
+      ? audience.include
+      : audience;
+  return Array.isArray(include) ? include : [include];
+}
+
+/**
+ * Whether an element restricted to `visibility` (`undefined` when it is not
+ * restricted) is documented for `audiences` (`undefined` when the document is
+ * not filtered).
+ */
+export function isVisibleTo(
+  visibility: string[] | undefined,
+  audiences: string[] | undefined
+): boolean {
+  return (
+    !visibility ||
+    !audiences ||
+    visibility.some((audience) => audiences.includes(audience))
+  );
+}
+
+/**
+ * Removes the schema properties and parameters restricted with
+ * `@ApiVisibility()` to other audiences than `audiences`, and renames the
+ * component schemas whose shape changed. The visibility markers are removed
+ * in any case.
+ *
+ * @returns the new name of each renamed schema, keyed by its former name
+ */
+export function filterDocumentAudience(
+  document: OpenAPIObject,
+  audience: string | string[] | DocumentAudienceOptions | undefined
+): Record<string, string> {
+  const audiences = getDocumentAudiences(audience);
+  const schemas = document.components?.schemas || {};
+
+  const changedSchemas = Object.keys(schemas).filter((name) =>
+    stripHiddenElements(schemas[name], audiences)
+  );
+  stripHiddenElements(document.paths, audiences);
+  stripHiddenElements((document as any).webhooks, audiences);
+  for (const [type, components] of Object.entries(document.components || {})) {
+    if (type !== 'schemas') {
+      stripHiddenElements(components, audiences);
+    }
+  }
+
+  if (!audiences || changedSchemas.length === 0) {
+    return {};
+  }
+  const renameSchema =
+    (typeof audience === 'object' &&
+      !Array.isArray(audience) &&
+      audience.renameSchema) ||
+    ((name: string) => `${name}${audiences.map(toPascalCase).join('')}`);
+
+  const renamedSchemas: Record<string, string> = {};
+  for (const name of changedSchemas) {
+    const baseName = renameSchema(name, audiences);
+    let newName = baseName;
+    for (let index = 2; newName !== name && newName in schemas; index++) {
+      newName = `${baseName}${index}`;
+    }
+    renamedSchemas[name] = newName;
+  }
+  document.components.schemas = Object.fromEntries(
+    Object.entries(schemas).map(([name, schema]) => [
+      renamedSchemas[name] ?? name,
+      schema
+    ])
+  );
+  renameSchemaRefs(document, renamedSchemas);
+  return renamedSchemas;
+}
+
+/**
+ * @returns whether some property or parameter of `node` was removed
+ */
+function stripHiddenElements(
+  node: unknown,
+  audiences: string[] | undefined
+): boolean {
+  if (!node || typeof node !== 'object') {
+    return false;
+  }
+  let changed = false;
+
+  if (Array.isArray(node)) {
+    const visibleItems = node.filter((item) => {
+      if (!hasVisibilityMarker(item)) {
+        return true;
+      }
+      const visibility = item[API_VISIBILITY_EXTENSION];
+      delete item[API_VISIBILITY_EXTENSION];
+      return isVisibleTo(visibility, audiences);
+    });
+    if (visibleItems.length !== node.length) {
+      node.splice(0, node.length, ...visibleItems);
+      changed = true;
+    }
+    for (const item of node) {
+      changed = stripHiddenElements(item, audiences) || changed;
+    }
+    return changed;
+  }
+
+  const schema = node as Record<string, any>;
+  if (schema.properties && typeof schema.properties === 'object') {
+    for (const [name, property] of Object.entries<any>(schema.properties)) {
+      if (!hasVisibilityMarker(property)) {
+        continue;
+      }
+      const visibility = property[API_VISIBILITY_EXTENSION];
+      delete property[API_VISIBILITY_EXTENSION];
+      if (isVisibleTo(visibility, audiences)) {
+        schema.properties[name] = unwrapSingleRef(property);
+        continue;
+      }
+      delete schema.properties[name];
+      if (Array.isArray(schema.required)) {
+        schema.required = schema.required.filter(
+          (required: string) => required !== name
+        );
+        if (schema.required.length === 0) {
+          delete schema.required;
+        }
+      }
+      changed = true;
+    }
+  }
+  for (const [key, value] of Object.entries(schema)) {
+    if (key !== 'example' && key !== 'examples') {
+      changed = stripHiddenElements(value, audiences) || changed;
+    }
+  }
+  return changed;
+}
+
+function hasVisibilityMarker(value: unknown): value is Record<string, any> {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    Array.isArray((value as Record<string, unknown>)[API_VISIBILITY_EXTENSION])
+  );
+}
+
+/**
+ * Turns `{ allOf: [{ $ref }] }`, produced for `$ref` properties with
+ * sibling keywords, back into `{ $ref }` once the marker is removed.
+ */
+function unwrapSingleRef(property: Record<string, any>) {
+  const keys = Object.keys(property);
+  return keys.length === 1 &&
+    keys[0] === 'allOf' &&
+    property.allOf.length === 1 &&
+    Object.keys(property.allOf[0]).length === 1 &&
+    typeof property.allOf[0].$ref === 'string'
+    ? property.allOf[0]
+    : property;
+}
+
+function renameSchemaRefs(
+  node: unknown,
+  renamedSchemas: Record<string, string>
+) {
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+  for (const [key, value] of Object.entries(node)) {
+    if (typeof value === 'string' && value.startsWith(SCHEMA_REF_PREFIX)) {
+      const newName = renamedSchemas[value.slice(SCHEMA_REF_PREFIX.length)];
+      if (newName) {
+        node[key] = `${SCHEMA_REF_PREFIX}${newName}`;
+      }
+      continue;
+    }
+    renameSchemaRefs(value, renamedSchemas);
+  }
+}
+
+function toPascalCase(value: string): string {
+  return value
+    .split(/[^A-Za-z0-9]+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
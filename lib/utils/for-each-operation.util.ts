@@ -0,0 +1,62 @@
+import {
+  OpenAPIObject,
+  OperationObject,
+  PathItemObject
+} from '../interfaces/open-api-spec.interface';
+
+/**
+ * Operation keys of a Path Item Object, including the non-standard `search`
+ * method and the OAS 3.2 `query` method supported by this fork.
+ */
+export const OPERATION_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+  'search',
+  'query'
+] as const;
+
+export type OperationMethod = (typeof OPERATION_METHODS)[number];
+
+export interface OperationEntry {
+  /**
+   * Root map holding the operation.
+   */
+  location: 'paths' | 'webhooks';
+  /**
+   * Path template (for `paths`) or webhook name (for `webhooks`).
+   */
+  key: string;
+  method: OperationMethod;
+  operation: OperationObject;
+  pathItem: PathItemObject;
+}
+
+export function forEachOperation(
+  document: Pick<OpenAPIObject, 'paths' | 'webhooks'>,
+  callback: (entry: OperationEntry) => void
+) {
+  const locations: Array<OperationEntry['location']> = ['paths', 'webhooks'];
+  for (const location of locations) {
+    const items = document[location];
+    if (!items) {
+      continue;
+    }
+    for (const [key, pathItem] of Object.entries(items)) {
+      if (!pathItem || typeof pathItem !== 'object') {
+        continue;
+      }
+      for (const method of OPERATION_METHODS) {
+        const operation = pathItem[method];
+        if (operation) {
+          callback({ location, key, method, operation, pathItem });
+        }
+      }
+    }
+  }
+}
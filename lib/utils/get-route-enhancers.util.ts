@@ -0,0 +1,91 @@
+import { Type } from '@nestjs/common';
+import {
+  EXCEPTION_FILTERS_METADATA,
+  GUARDS_METADATA,
+  PIPES_METADATA,
+  ROUTE_ARGS_METADATA
+} from '@nestjs/common/constants';
+import { ApplicationConfig } from '@nestjs/core';
+import { InstanceWrapper } from '@nestjs/core/injector/instance-wrapper';
+
+/**
+ * Guard, pipe or exception filter, either a class or an instance.
+ */
+export type RouteEnhancer = Function | object;
+
+export interface RouteEnhancers {
+  guards: RouteEnhancer[];
+  pipes: RouteEnhancer[];
+  filters: RouteEnhancer[];
+}
+
+/**
+ * Collects the enhancers applied to a route handler: the global ones
+ * (`app.useGlobalGuards()` as well as `APP_GUARD` providers, and their pipe
+ * and filter counterparts), the controller- and method-level ones
+ * (`@UseGuards()`, `@UsePipes()`, `@UseFilters()`) and the pipes bound to
+ * the handler parameters (e.g. `@Param('id', ParseIntPipe)`).
+ * Parameter pipes come first, the other enhancers are listed from the least
+ * to the most specific.
+ */
+export function getRouteEnhancers(
+  metatype: Type<unknown>,
+  method: Function,
+  applicationConfig?: ApplicationConfig
+): RouteEnhancers {
+  const collect = (
+    metadataKey: string,
+    globalEnhancers: RouteEnhancer[] = [],
+    requestEnhancers: InstanceWrapper[] = []
+  ): RouteEnhancer[] => [
+    ...globalEnhancers,
+    ...requestEnhancers.map((wrapper) => wrapper.instance ?? wrapper.metatype),
+    ...(Reflect.getMetadata(metadataKey, metatype) || []),
+    ...(Reflect.getMetadata(metadataKey, method) || [])
+  ];
+
+  const routeArgs: Record<string, { pipes?: RouteEnhancer[] }> =
+    Reflect.getMetadata(ROUTE_ARGS_METADATA, metatype, method.name) || {};
+  const paramPipes = Object.values(routeArgs).flatMap(
+    (param) => param.pipes || []
+  );
+
+  return {
+    guards: collect(
+      GUARDS_METADATA,
+      applicationConfig?.getGlobalGuards(),
+      applicationConfig?.getGlobalRequestGuards()
+    ),
+    pipes: [
+      ...paramPipes,
+      ...collect(
+        PIPES_METADATA,
+        applicationConfig?.getGlobalPipes(),
+        applicationConfig?.getGlobalRequestPipes()
+      )
+    ],
+    filters: collect(
+      EXCEPTION_FILTERS_METADATA,
+      applicationConfig?.getGlobalFilters(),
+      applicationConfig?.getGlobalRequestFilters()
+    )
+  };
+}
+
+/**
+ * Returns the class names of an enhancer, starting with its own class and
+ * walking up its inheritance chain, so that mappings registered for a base
+ * class (e.g. `AuthGuard`) also apply to its subclasses.
+ */
+export function getEnhancerClassNames(enhancer: RouteEnhancer): string[] {
+  const names: string[] = [];
+  let type: Function | undefined =
+    typeof enhancer === 'function' ? enhancer : enhancer?.constructor;
+  while (type && type !== Object && type !== Function.prototype) {
+    if (type.name) {
+      names.push(type.name);
+    }
+    type = Object.getPrototypeOf(type);
+  }
+  return names;
+}
@@ -1 +1,10 @@
 export * from './get-schema-path.util';
+export { ref } from './component-ref.util';
+export { deduplicateInlineSchemas } from './deduplicate-inline-schemas.util';
+export { dereference } from './dereference.util';
+export { diffDocuments } from './diff-documents.util';
+export { exportStaticDocs } from './export-static-docs.util';
+export {
+  DocumentValidationError,
+  validateDocument
+} from './validate-document.util';
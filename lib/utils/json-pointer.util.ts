@@ -0,0 +1,72 @@
+import { ReferenceObject } from '../interfaces/open-api-spec.interface';
+
+/**
+ * Builds an RFC 6901 JSON Pointer from unescaped path segments.
+ */
+export function toJsonPointer(segments: Array<string | number>): string {
+  if (segments.length === 0) {
+    return '';
+  }
+  return (
+    '/' +
+    segments
+      .map((segment) =>
+        String(segment).replace(/~/g, '~0').replace(/\//g, '~1')
+      )
+      .join('/')
+  );
+}
+
+/**
+ * Splits an RFC 6901 JSON Pointer into unescaped path segments.
+ */
+export function fromJsonPointer(pointer: string): string[] {
+  if (!pointer) {
+    return [];
+  }
+  return pointer
+    .replace(/^#/, '')
+    .split('/')
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Resolves a local JSON Pointer (e.g. a `$ref` value) against `root`.
+ * Returns `undefined` when any segment is missing.
+ */
+export function resolveJsonPointer(root: unknown, pointer: string): unknown {
+  let current: unknown = root;
+  for (const segment of fromJsonPointer(pointer)) {
+    if (!current || typeof current !== 'object' || !(segment in current)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Follows the `$ref` chain of `value` within `document`. Returns `undefined`
+ * when a reference cannot be resolved or is circular.
+ */
+export function resolveReference<T>(
+  document: unknown,
+  value: T | ReferenceObject | undefined
+): T | undefined {
+  const seen = new Set<string>();
+  let current: unknown = value;
+  while (
+    current &&
+    typeof current === 'object' &&
+    typeof (current as ReferenceObject).$ref === 'string'
+  ) {
+    const ref = (current as ReferenceObject).$ref;
+    if (seen.has(ref)) {
+      return undefined;
+    }
+    seen.add(ref);
+    current = resolveJsonPointer(document, ref);
+  }
+  return current as T | undefined;
+}
@@ -0,0 +1,25 @@
+/**
+ * Picks the entry of `content` matching `mediaType` (e.g. the `Content-Type`
+ * of a request). Exact matches win over `type/*` ranges, which win over
+ * `*\/*`. Media type parameters (such as `charset`) are ignored.
+ *
+ * @returns the matching key of `content`, if any
+ */
+export function matchMediaType(
+  content: Record<string, unknown>,
+  mediaType: string
+): string | undefined {
+  const essence = getMediaTypeEssence(mediaType);
+  const keys = Object.keys(content);
+  return (
+    keys.find((key) => getMediaTypeEssence(key) === essence) ??
+    keys.find(
+      (key) => getMediaTypeEssence(key) === `${essence.split('/')[0]}/*`
+    ) ??
+    keys.find((key) => getMediaTypeEssence(key) === '*/*')
+  );
+}
+
+function getMediaTypeEssence(mediaType: string): string {
+  return mediaType.split(';')[0].trim().toLowerCase();
+}
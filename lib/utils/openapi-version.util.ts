@@ -0,0 +1,19 @@
+/**
+ * Returns `true` when the declared `openapi` version is at least `major.minor`.
+ * Unparsable versions are treated as not matching.
+ */
+export function isOpenApiVersionAtLeast(
+  openapi: string | undefined,
+  major: number,
+  minor: number
+): boolean {
+  const [majorStr, minorStr] = (openapi || '').split('.');
+  const declaredMajor = Number(majorStr);
+  const declaredMinor = Number(minorStr);
+  if (Number.isNaN(declaredMajor) || Number.isNaN(declaredMinor)) {
+    return false;
+  }
+  return (
+    declaredMajor > major || (declaredMajor === major && declaredMinor >= minor)
+  );
+}
@@ -0,0 +1,34 @@
+import { omit } from 'lodash';
+import { OpenAPIObject } from '../interfaces';
+import { collectReachableRefs } from './collect-reachable-refs.util';
+import { getSchemaPath } from './get-schema-path.util';
+
+/**
+ * Removes the `components.schemas` entries that cannot be reached from
+ * `paths`, `webhooks` (including their callbacks), the other components or
+ * the `keep` models. Schemas referenced by kept models are kept as well.
+ *
+ * @returns the names of the removed schemas
+ */
+export function pruneUnreachableSchemas(
+  document: OpenAPIObject,
+  keep: Array<string | Function> = []
+): string[] {
+  const schemas = document.components?.schemas;
+  if (!schemas) {
+    return [];
+  }
+
+  const reachable = collectReachableRefs(document, [
+    document.paths,
+    document.webhooks,
+    omit(document.components, 'schemas'),
+    keep.map((model) => ({ $ref: getSchemaPath(model) }))
+  ]);
+
+  const removed = Object.keys(schemas).filter(
+    (name) => !reachable.has(getSchemaPath(name))
+  );
+  removed.forEach((name) => delete schemas[name]);
+  return removed;
+}
@@ -0,0 +1,24 @@
+import * as jsyaml from 'js-yaml';
+import { OpenAPIObject } from '../interfaces';
+
+export type DocumentFormat = 'json' | 'yaml';
+
+/**
+ * Serializes an OpenAPI document using the same settings as the JSON and
+ * YAML definition endpoints registered by `SwaggerModule.setup()`.
+ */
+export function serializeDocument(
+  document: OpenAPIObject,
+  format: DocumentFormat,
+  options: { pretty?: boolean } = {}
+): string {
+  if (format === 'yaml') {
+    return jsyaml.dump(document, {
+      skipInvalid: true,
+      noRefs: true
+    });
+  }
+  return options.pretty
+    ? JSON.stringify(document, null, 2)
+    : JSON.stringify(document);
+}
@@ -0,0 +1,171 @@
+import { OpenAPIObject } from '../interfaces';
+import {
+  ComponentsObject,
+  OperationObject,
+  PathItemObject,
+  TagObject
+} from '../interfaces/open-api-spec.interface';
+import { sortObjectLexicographically } from './sort-object-lexicographically';
+
+const ROOT_KEY_ORDER = [
+  'openapi',
+  'info',
+  'jsonSchemaDialect',
+  'servers',
+  'paths',
+  'webhooks',
+  'components',
+  'security',
+  'tags',
+  'externalDocs'
+];
+
+const INFO_KEY_ORDER = [
+  'title',
+  'summary',
+  'description',
+  'termsOfService',
+  'contact',
+  'license',
+  'version'
+];
+
+/**
+ * HTTP methods in RFC order: RFC 9110 methods first, then PATCH (RFC 5789),
+ * QUERY and SEARCH.
+ */
+const METHOD_ORDER = [
+  'get',
+  'head',
+  'post',
+  'put',
+  'delete',
+  'options',
+  'trace',
+  'patch',
+  'query',
+  'search'
+];
+
+const PATH_ITEM_KEY_ORDER = [
+  '$ref',
+  'summary',
+  'description',
+  ...METHOD_ORDER,
+  'servers',
+  'parameters'
+];
+
+const COMPONENTS_KEY_ORDER = [
+  'schemas',
+  'responses',
+  'parameters',
+  'examples',
+  'requestBodies',
+  'headers',
+  'securitySchemes',
+  'links',
+  'callbacks',
+  'pathItems'
+];
+
+/**
+ * Returns a copy of `document` with a canonical key order, so that regenerated
+ * documents only differ where the API changed.
+ *
+ * Root and component keys follow the order of the specification, paths,
+ * webhooks, component entries and tags are sorted by name, and operations
+ * follow the RFC order of HTTP methods. Schema contents (e.g. the order of
+ * `properties`) are left untouched.
+ */
+export function sortDocument(document: OpenAPIObject): OpenAPIObject {
+  const sorted: Record<string, any> = { ...document };
+
+  if (document.info) {
+    sorted.info = orderKeys(document.info, INFO_KEY_ORDER);
+  }
+  if (document.paths) {
+    sorted.paths = sortPathItems(document.paths);
+  }
+  if (document.webhooks) {
+    sorted.webhooks = sortPathItems(document.webhooks);
+  }
+  if (document.components) {
+    sorted.components = sortComponents(document.components);
+  }
+  if (document.tags) {
+    sorted.tags = [...document.tags].sort((a: TagObject, b: TagObject) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+  if (document['x-tagGroups']) {
+    sorted['x-tagGroups'] = [...document['x-tagGroups']]
+      .map((group) => ({ ...group, tags: [...group.tags].sort() }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return orderKeys(sorted, ROOT_KEY_ORDER) as OpenAPIObject;
+}
+
+function sortPathItems(
+  items: Record<string, PathItemObject>
+): Record<string, PathItemObject> {
+  const sorted = sortObjectLexicographically(items);
+  for (const [key, pathItem] of Object.entries(sorted)) {
+    if (!pathItem || typeof pathItem !== 'object') {
+      continue;
+    }
+    const sortedPathItem: Record<string, any> = { ...pathItem };
+    for (const method of METHOD_ORDER) {
+      if (sortedPathItem[method]) {
+        sortedPathItem[method] = sortOperation(sortedPathItem[method]);
+      }
+    }
+    sorted[key] = orderKeys(sortedPathItem, PATH_ITEM_KEY_ORDER);
+  }
+  return sorted;
+}
+
+function sortOperation(operation: OperationObject): OperationObject {
+  const sorted = sortObjectLexicographically(operation) as OperationObject;
+  if (sorted.responses) {
+    // Status codes ascending, `default` last.
+    sorted.responses = orderKeys(
+      sorted.responses,
+      Object.keys(sorted.responses)
+        .filter((status) => status !== 'default')
+        .sort()
+    );
+  }
+  return sorted;
+}
+
+function sortComponents(components: ComponentsObject): ComponentsObject {
+  const sorted: Record<string, any> = {};
+  for (const [key, value] of Object.entries(components)) {
+    sorted[key] =
+      value && typeof value === 'object' && !Array.isArray(value)
+        ? sortObjectLexicographically(value)
+        : value;
+  }
+  return orderKeys(sorted, COMPONENTS_KEY_ORDER);
+}
+
+/**
+ * Places `leadingKeys` first (in the given order) and the remaining keys
+ * after them, sorted lexicographically.
+ */
+function orderKeys<T extends object>(obj: T, leadingKeys: string[]): T {
+  const ordered: Record<string, unknown> = {};
+  for (const key of leadingKeys) {
+    if (key in obj) {
+      ordered[key] = obj[key as keyof T];
+    }
+  }
+  for (const key of Object.keys(obj).sort()) {
+    if (!(key in ordered)) {
+      ordered[key] = obj[key as keyof T];
+    }
+  }
+  return ordered as T;
+}
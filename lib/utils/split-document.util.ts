@@ -0,0 +1,168 @@
+import { omit, pickBy } from 'lodash';
+import { OpenAPIObject } from '../interfaces';
+import {
+  ComponentsObject,
+  PathItemObject,
+  TagObject
+} from '../interfaces/open-api-spec.interface';
+import { OperationSource } from '../interfaces/operation-source.interface';
+import {
+  DocumentSplitOperation,
+  DocumentSplitStrategy
+} from '../interfaces/swagger-multi-document-options.interface';
+import { collectOperationTagNames } from './collect-operation-tag-names.util';
+import { collectReachableRefs } from './collect-reachable-refs.util';
+import { forEachOperation, OPERATION_METHODS } from './for-each-operation.util';
+
+export const DEFAULT_DOCUMENT_GROUP = 'default';
+
+/**
+ * Splits `document` into one document per group returned by `splitBy`.
+ * Each document only keeps its own operations, the components reachable
+ * from them and the tags they use.
+ */
+export function splitDocument(
+  document: OpenAPIObject,
+  sources: OperationSource[],
+  splitBy: DocumentSplitStrategy
+): Record<string, OpenAPIObject> {
+  const sourcesByOperation = new Map(
+    sources.map((source) => [
+      `${source.location} ${source.key} ${source.method}`,
+      source
+    ])
+  );
+  const groups = new Map<string, DocumentSplitOperation[]>();
+
+  forEachOperation(document, ({ location, key, method, operation }) => {
+    const source = sourcesByOperation.get(`${location} ${key} ${method}`);
+    const splitOperation: DocumentSplitOperation = {
+      location,
+      key,
+      method,
+      operation,
+      version: source?.version,
+      controller: source?.controller,
+      handler: source?.handler
+    };
+    for (const name of resolveGroupNames(splitBy, splitOperation)) {
+      const operations = groups.get(name) || [];
+      operations.push(splitOperation);
+      groups.set(name, operations);
+    }
+  });
+
+  const documents: Record<string, OpenAPIObject> = {};
+  for (const [name, operations] of groups) {
+    documents[name] = extractDocument(document, operations);
+  }
+  return documents;
+}
+
+function resolveGroupNames(
+  splitBy: DocumentSplitStrategy,
+  operation: DocumentSplitOperation
+): string[] {
+  const names =
+    splitBy === 'version'
+      ? operation.version
+      : splitBy === 'tag'
+        ? operation.operation.tags
+        : splitBy(operation);
+  const list = (Array.isArray(names) ? names : [names]).filter(
+    (name): name is string => typeof name === 'string' && name !== ''
+  );
+  return list.length > 0 ? [...new Set(list)] : [DEFAULT_DOCUMENT_GROUP];
+}
+
+function extractDocument(
+  document: OpenAPIObject,
+  operations: DocumentSplitOperation[]
+): OpenAPIObject {
+  const paths: Record<string, PathItemObject> = {};
+  const webhooks: Record<string, PathItemObject> = {};
+
+  for (const { location, key, method, operation } of operations) {
+    const target = location === 'paths' ? paths : webhooks;
+    target[key] ??= omit(document[location][key], [...OPERATION_METHODS]);
+    target[key][method] = operation;
+  }
+
+  const result: OpenAPIObject = {
+    ...omit(document, ['webhooks', 'tags', 'x-tagGroups']),
+    paths,
+    ...(Object.keys(webhooks).length > 0 ? { webhooks } : {})
+  };
+
+  if (document.components) {
+    const reachable = collectReachableRefs(document, [paths, webhooks]);
+    result.components = filterComponents(document.components, reachable);
+  }
+
+  const tagNames = collectOperationTagNames(paths, webhooks);
+  const tags = filterTags(document.tags, tagNames);
+  if (tags) {
+    result.tags = tags;
+  }
+  const keptTagNames = new Set([
+    ...tagNames,
+    ...(tags || []).map((t) => t.name)
+  ]);
+  const tagGroups = document['x-tagGroups']
+    ?.map((group) => ({
+      ...group,
+      tags: group.tags.filter((tag) => keptTagNames.has(tag))
+    }))
+    .filter((group) => group.tags.length > 0);
+  if (tagGroups?.length) {
+    result['x-tagGroups'] = tagGroups;
+  }
+
+  return result;
+}
+
+/**
+ * Keeps the components reachable from the operations of a document. Security
+ * schemes are referred to by name rather than by `$ref`, so they are all kept.
+ */
+function filterComponents(
+  components: ComponentsObject,
+  reachable: Set<string>
+): ComponentsObject {
+  const filtered: Record<string, unknown> = {};
+  for (const [type, entries] of Object.entries(components)) {
+    if (type === 'securitySchemes' || type.startsWith('x-')) {
+      filtered[type] = entries;
+      continue;
+    }
+    const kept = pickBy(entries, (_, name) =>
+      reachable.has(`#/components/${type}/${name}`)
+    );
+    if (type === 'schemas' || Object.keys(kept).length > 0) {
+      filtered[type] = kept;
+    }
+  }
+  return filtered;
+}
+
+/**
+ * Keeps the tags used by operations along with their `parent` chain.
+ */
+function filterTags(
+  tags: TagObject[] | undefined,
+  usedNames: string[]
+): TagObject[] | undefined {
+  if (!tags) {
+    return undefined;
+  }
+  const byName = new Map(tags.map((tag) => [tag.name, tag]));
+  const kept = new Set<string>();
+  for (let name of usedNames) {
+    while (name && !kept.has(name)) {
+      kept.add(name);
+      name = byName.get(name)?.parent;
+    }
+  }
+  const filtered = tags.filter((tag) => kept.has(tag.name));
+  return filtered.length > 0 ? filtered : undefined;
+}
@@ -0,0 +1,247 @@
+import { OpenAPIObject } from '../interfaces';
+import {
+  DocumentDiagnostic,
+  DocumentDiagnosticCode
+} from '../interfaces/document-diagnostic.interface';
+import { ParameterObject } from '../interfaces/open-api-spec.interface';
+import { OperationSource } from '../interfaces/operation-source.interface';
+import { forEachOperation } from './for-each-operation.util';
+import {
+  resolveJsonPointer,
+  resolveReference,
+  toJsonPointer
+} from './json-pointer.util';
+import { isOpenApiVersionAtLeast } from './openapi-version.util';
+
+/**
+ * Keys holding user-provided values rather than OpenAPI structures.
+ * Their content is never inspected.
+ */
+const VALUE_KEYS = new Set(['example', 'default', 'const', 'enum', 'value']);
+
+/**
+ * Keys holding maps of user-named entries (e.g. property names or status codes),
+ * whose own keys must not be interpreted as OpenAPI keywords.
+ */
+const MAP_KEYS = new Set([
+  'paths',
+  'webhooks',
+  'schemas',
+  'responses',
+  'parameters',
+  'examples',
+  'requestBodies',
+  'headers',
+  'securitySchemes',
+  'links',
+  'callbacks',
+  'content',
+  'encoding',
+  'properties',
+  'patternProperties',
+  '$defs',
+  'dependentSchemas',
+  'variables'
+]);
+
+/**
+ * Thrown by `SwaggerModule.createDocument()` when `validate: 'error'` is set
+ * and the generated document is invalid.
+ *
+ * @publicApi
+ */
+export class DocumentValidationError extends Error {
+  constructor(public readonly diagnostics: DocumentDiagnostic[]) {
+    super(
+      `The generated OpenAPI document is invalid (${diagnostics.length} issue(s)):\n` +
+        diagnostics
+          .map((diagnostic) => `  - ${formatDocumentDiagnostic(diagnostic)}`)
+          .join('\n')
+    );
+    this.name = DocumentValidationError.name;
+  }
+}
+
+export function formatDocumentDiagnostic(
+  diagnostic: DocumentDiagnostic
+): string {
+  const origin =
+    diagnostic.controller && diagnostic.method
+      ? `[${diagnostic.controller}.${diagnostic.method}] `
+      : '';
+  return `${origin}${diagnostic.message} (at "${diagnostic.pointer}")`;
+}
+
+/**
+ * Checks a document against the structural rules of its declared `openapi`
+ * version. When `sources` are given, diagnostics raised for an operation are
+ * annotated with the controller and handler names it was generated from.
+ *
+ * @publicApi
+ */
+export function validateDocument(
+  document: OpenAPIObject,
+  sources: OperationSource[] = []
+): DocumentDiagnostic[] {
+  const diagnostics: DocumentDiagnostic[] = [];
+  const sourcesByOperation = new Map(
+    sources.map((source) => [
+      operationKey(source.location, source.key, source.method),
+      source
+    ])
+  );
+  const report = (
+    code: DocumentDiagnosticCode,
+    message: string,
+    segments: Array<string | number>
+  ) => {
+    const source =
+      segments[0] === 'paths' || segments[0] === 'webhooks'
+        ? sourcesByOperation.get(
+            operationKey(segments[0], String(segments[1]), String(segments[2]))
+          )
+        : undefined;
+    diagnostics.push({
+      code,
+      message,
+      pointer: toJsonPointer(segments),
+      ...(source
+        ? { controller: source.controller.name, method: source.handler.name }
+        : {})
+    });
+  };
+
+  const isOas31 = isOpenApiVersionAtLeast(document.openapi, 3, 1);
+  const isOas32 = isOpenApiVersionAtLeast(document.openapi, 3, 2);
+
+  if (!isOas31 && document.webhooks) {
+    report(
+      'unsupported-feature',
+      `"webhooks" requires OpenAPI 3.1 or above (declared "${document.openapi}").`,
+      ['webhooks']
+    );
+  }
+
+  const operationIds = new Map<string, Array<string | number>>();
+  forEachOperation(document, ({ location, key, method, operation }) => {
+    const segments = [location, key, method];
+
+    if (method === 'query' && !isOas32) {
+      report(
+        'unsupported-feature',
+        `The "query" method requires OpenAPI 3.2 or above (declared "${document.openapi}").`,
+        segments
+      );
+    }
+
+    if (operation.operationId) {
+      const firstSegments = operationIds.get(operation.operationId);
+      if (firstSegments) {
+        report(
+          'duplicate-operation-id',
+          `Duplicate operationId "${operation.operationId}" (also used at "${toJsonPointer(firstSegments)}").`,
+          [...segments, 'operationId']
+        );
+      } else {
+        operationIds.set(operation.operationId, segments);
+      }
+    }
+
+    if (location !== 'paths') {
+      return;
+    }
+    const templateParams = new Set(
+      [...key.matchAll(/{([^}]+)}/g)].map((match) => match[1])
+    );
+    (operation.parameters || []).forEach((item, index) => {
+      const parameter = resolveReference<ParameterObject>(document, item);
+      if (
+        parameter?.in === 'path' &&
+        parameter.name &&
+        !templateParams.has(parameter.name)
+      ) {
+        report(
+          'path-param-not-in-template',
+          `Path parameter "${parameter.name}" is not part of the route template "${key}".`,
+          [...segments, 'parameters', index]
+        );
+      }
+    });
+  });
+
+  const visit = (
+    node: unknown,
+    segments: Array<string | number>,
+    isNamedMap = false
+  ) => {
+    if (Array.isArray(node)) {
+      node.forEach((item, index) => visit(item, [...segments, index]));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    for (const [key, value] of Object.entries(node)) {
+      if (isNamedMap) {
+        visit(value, [...segments, key]);
+        continue;
+      }
+      if (VALUE_KEYS.has(key) || key.startsWith('x-')) {
+        continue;
+      }
+      if (key === 'examples' && Array.isArray(value)) {
+        continue;
+      }
+      const childSegments = [...segments, key];
+      if (key === '$ref' && typeof value === 'string') {
+        if (
+          value.startsWith('#') &&
+          resolveJsonPointer(document, value) === undefined
+        ) {
+          report(
+            'unresolved-ref',
+            `Reference "${value}" cannot be resolved.`,
+            childSegments
+          );
+        }
+        continue;
+      }
+      if (key === 'type' && !isOas31) {
+        if (
+          value === 'null' ||
+          (Array.isArray(value) && value.includes('null'))
+        ) {
+          report(
+            'null-type-in-oas30',
+            `"type: null" is not supported by OpenAPI 3.0, use "nullable: true" instead.`,
+            childSegments
+          );
+          continue;
+        }
+        if (Array.isArray(value)) {
+          report(
+            'unsupported-feature',
+            `"type" arrays require OpenAPI 3.1 or above (declared "${document.openapi}").`,
+            childSegments
+          );
+          continue;
+        }
+      }
+      if (key === 'itemSchema' && !isOas32) {
+        report(
+          'unsupported-feature',
+          `"itemSchema" requires OpenAPI 3.2 or above (declared "${document.openapi}").`,
+          childSegments
+        );
+      }
+      visit(value, childSegments, MAP_KEYS.has(key));
+    }
+  };
+  visit(document, []);
+
+  return diagnostics;
+}
+
+function operationKey(location: string, key: string, method: string) {
+  return `${location} ${key} ${method}`;
+}
@@ -0,0 +1,159 @@
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Module,
+  Query
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiOkResponse,
+  ApiProperty,
+  ApiPropertyOptional,
+  ApiVisibility
+} from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerDocumentOptions } from '../lib/interfaces';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('ApiVisibility', () => {
+  class OwnerDto {
+    @ApiProperty()
+    name: string;
+  }
+
+  class CatDto {
+    @ApiProperty()
+    name: string;
+
+    @ApiVisibility(['internal', 'partner'])
+    @ApiProperty()
+    owner: OwnerDto;
+
+    @ApiProperty()
+    @ApiVisibility('internal')
+    costPrice: number;
+  }
+
+  class ListCatsQuery {
+    @ApiPropertyOptional()
+    page?: number;
+
+    @ApiVisibility('internal')
+    @ApiPropertyOptional()
+    includeDeleted?: boolean;
+  }
+
+  @ApiVisibility('internal')
+  @Controller('admin')
+  class AdminController {
+    @Get()
+    audit() {}
+
+    @ApiVisibility(['internal', 'partner'])
+    @Get('stats')
+    stats() {}
+  }
+
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    @ApiOkResponse({ type: [CatDto] })
+    findAll(@Query() query: ListCatsQuery) {}
+
+    @Get('owners')
+    @ApiOkResponse({ type: [OwnerDto] })
+    findOwners() {}
+
+    @ApiVisibility('partner')
+    @Get('feed')
+    feed() {}
+  }
+
+  @Module({ controllers: [AdminController, CatsController] })
+  class AppModule {}
+
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const createDocument = (options?: SwaggerDocumentOptions) =>
+    SwaggerModule.createDocument(app, new DocumentBuilder().build(), options);
+
+  it('documents everything without an audience', () => {
+    const document = createDocument();
+
+    expect(Object.keys(document.paths)).toEqual([
+      '/admin',
+      '/admin/stats',
+      '/cats',
+      '/cats/owners',
+      '/cats/feed'
+    ]);
+    expect(
+      Object.keys((document.components.schemas.CatDto as any).properties)
+    ).toEqual(['name', 'owner', 'costPrice']);
+    expect(JSON.stringify(document)).not.toContain('x-api-visibility');
+  });
+
+  it('drops the operations restricted to other audiences', () => {
+    expect(Object.keys(createDocument({ audience: 'public' }).paths)).toEqual([
+      '/cats',
+      '/cats/owners'
+    ]);
+    expect(Object.keys(createDocument({ audience: 'partner' }).paths)).toEqual([
+      '/admin/stats',
+      '/cats',
+      '/cats/owners',
+      '/cats/feed'
+    ]);
+  });
+
+  it('strips hidden properties and renames the schemas whose shape changes', () => {
+    const document = createDocument({ audience: 'partner' });
+    const { schemas } = document.components;
+
+    expect(Object.keys(schemas)).toEqual(['OwnerDto', 'CatDtoPartner']);
+    expect(schemas.CatDtoPartner).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        owner: { $ref: '#/components/schemas/OwnerDto' }
+      },
+      required: ['name', 'owner']
+    });
+    expect(
+      (document.paths['/cats'].get.responses['200'] as any).content[
+        'application/json'
+      ].schema.items
+    ).toEqual({ $ref: '#/components/schemas/CatDtoPartner' });
+    expect(
+      document.paths['/cats'].get.parameters.map((param: any) => param.name)
+    ).toEqual(['page']);
+  });
+
+  it('accepts several audiences and a custom schema name', () => {
+    const document = createDocument({
+      audience: {
+        include: ['internal', 'partner'],
+        renameSchema: (name) => `Internal${name}`
+      }
+    });
+
+    expect(Object.keys(document.paths)).toHaveLength(5);
+    expect(Object.keys(document.components.schemas)).toEqual([
+      'OwnerDto',
+      'CatDto'
+    ]);
+    expect(
+      document.paths['/cats'].get.parameters.map((param: any) => param.name)
+    ).toEqual(['page', 'includeDeleted']);
+  });
+});
@@ -0,0 +1,142 @@
+import 'reflect-metadata';
+import { Body, Controller, Get, Module, Post } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ApiOkResponse, ApiProperty } from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { OpenAPIObject } from '../lib/interfaces';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('autoExamples', () => {
+  enum Color {
+    Black = 'black',
+    White = 'white'
+  }
+
+  class CategoryDto {
+    @ApiProperty({ pattern: '^[A-Z]{3}-\\d{2}$' })
+    code: string;
+
+    @ApiProperty({ type: () => CategoryDto, required: false })
+    parent?: CategoryDto;
+  }
+
+  class CatDto {
+    @ApiProperty({ readOnly: true, format: 'uuid' })
+    id: string;
+
+    @ApiProperty({ format: 'email' })
+    ownerEmail: string;
+
+    @ApiProperty({ enum: Color, enumName: 'Color' })
+    color: Color;
+
+    @ApiProperty({ type: 'integer', minimum: 1, maximum: 20 })
+    lives: number;
+
+    @ApiProperty({ example: 'Tom' })
+    name: string;
+
+    @ApiProperty({ type: [CategoryDto] })
+    categories: CategoryDto[];
+  }
+
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    @ApiOkResponse({ type: CatDto })
+    findOne() {}
+
+    @Get('explicit')
+    @ApiOkResponse({ type: CatDto, example: { name: 'Explicit' } })
+    explicit() {}
+
+    @Post()
+    create(@Body() cat: CatDto) {
+      return cat;
+    }
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  async function createDocument(
+    autoExamples?: boolean,
+    config = new DocumentBuilder().build()
+  ) {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    const document = SwaggerModule.createDocument(app, config, {
+      autoExamples
+    });
+    await app.close();
+    return document;
+  }
+
+  const cat = {
+    ownerEmail: 'user@example.com',
+    color: 'black',
+    lives: 1,
+    name: 'Tom',
+    categories: [{ code: 'AAA-00' }]
+  };
+
+  let document: OpenAPIObject;
+
+  beforeAll(async () => {
+    document = await createDocument(true);
+  });
+
+  it('adds synthesized examples to responses', () => {
+    expect(document.paths['/cats'].get.responses['200']).toMatchObject({
+      content: {
+        'application/json': {
+          examples: {
+            default: {
+              value: { id: '00000000-0000-4000-8000-000000000000', ...cat }
+            }
+          }
+        }
+      }
+    });
+  });
+
+  it('omits readOnly properties from request body examples', () => {
+    expect(document.paths['/cats'].post.requestBody).toMatchObject({
+      content: {
+        'application/json': { examples: { default: { value: cat } } }
+      }
+    });
+  });
+
+  it('keeps explicit examples', () => {
+    const media = (document.paths['/cats/explicit'].get.responses['200'] as any)
+      .content['application/json'];
+
+    expect(media.example).toEqual({ name: 'Explicit' });
+    expect(media.examples).toBeUndefined();
+  });
+
+  it('is disabled by default', async () => {
+    const defaultDocument = await createDocument();
+
+    expect(
+      (defaultDocument.paths['/cats'].get.responses['200'] as any).content[
+        'application/json'
+      ].examples
+    ).toBeUndefined();
+  });
+
+  it('leaves the components of the config untouched', async () => {
+    const config = new DocumentBuilder().useProblemDetails().build();
+    const problemDetailsMedia = (document: Omit<OpenAPIObject, 'paths'>) =>
+      (document.components.responses.ProblemDetails as any).content[
+        'application/problem+json'
+      ];
+
+    const withExamples = await createDocument(true, config);
+    expect(problemDetailsMedia(withExamples).examples).toBeDefined();
+    expect(problemDetailsMedia(config).examples).toBeUndefined();
+
+    const withoutExamples = await createDocument(false, config);
+    expect(problemDetailsMedia(withoutExamples).examples).toBeUndefined();
+  });
+});
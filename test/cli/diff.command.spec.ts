@@ -0,0 +1,78 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import * as jsyaml from 'js-yaml';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../../lib/cli/run-cli';
+
+describe('nestjs-openapi-next diff', () => {
+  let outDir: string;
+  let stdout: jest.SpyInstance;
+
+  const oldDocument = {
+    openapi: '3.1.0',
+    info: { title: 'Cats', version: '1' },
+    paths: {
+      '/cats': { get: { responses: {} } },
+      '/cats/{id}': { get: { responses: {} } }
+    }
+  };
+  const newDocument = {
+    ...oldDocument,
+    paths: {
+      '/cats': { get: { responses: {} }, post: { responses: {} } }
+    }
+  };
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'openapi-cli-'));
+    writeFileSync(join(outDir, 'old.json'), JSON.stringify(oldDocument));
+    writeFileSync(join(outDir, 'new.yaml'), jsyaml.dump(newDocument));
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('prints a text report of JSON and YAML documents', async () => {
+    const exitCode = await runCli([
+      'diff',
+      join(outDir, 'old.json'),
+      join(outDir, 'new.yaml')
+    ]);
+
+    expect(exitCode).toBe(0);
+    const output = stdout.mock.calls.map(([chunk]) => chunk).join('');
+    expect(output).toContain('Breaking changes (1):');
+    expect(output).toContain(
+      '[operation-removed] GET /cats/{id} was removed. (at "/paths/~1cats~1{id}/get")'
+    );
+    expect(output).toContain('Non-breaking changes (1):');
+  });
+
+  it('prints JSON and fails on breaking changes when requested', async () => {
+    const exitCode = await runCli([
+      'diff',
+      join(outDir, 'old.json'),
+      join(outDir, 'new.yaml'),
+      '--format',
+      'json',
+      '--fail-on-breaking'
+    ]);
+
+    expect(exitCode).toBe(1);
+    const output = JSON.parse(
+      stdout.mock.calls.map(([chunk]) => chunk).join('')
+    );
+    expect(output.breaking).toHaveLength(1);
+    expect(output.nonBreaking[0].code).toBe('operation-added');
+  });
+
+  it('requires two documents', async () => {
+    const exitCode = await runCli(['diff', join(outDir, 'old.json')]);
+
+    expect(exitCode).toBe(1);
+  });
+});
@@ -0,0 +1,19 @@
+import { Controller, Get, Module, Param } from '@nestjs/common';
+import { ApiOkResponse, ApiProperty } from '../../../lib/decorators';
+
+export class CatDto {
+  @ApiProperty()
+  name: string;
+}
+
+@Controller('cats')
+export class CatsController {
+  @Get(':id')
+  @ApiOkResponse({ type: CatDto })
+  findOne(@Param('id') id: string): CatDto {
+    return { name: id };
+  }
+}
+
+@Module({ controllers: [CatsController] })
+export class AppModule {}
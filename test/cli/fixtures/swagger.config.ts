@@ -0,0 +1,15 @@
+import { INestApplication } from '@nestjs/common';
+import { DocumentBuilder } from '../../../lib/document-builder';
+
+export const config = new DocumentBuilder()
+  .setTitle('Cats')
+  .setVersion('1.0')
+  .setOpenAPIVersion('3.1.0');
+
+export const options = {
+  operationIdFactory: (_: string, method: string) => method
+};
+
+export function configureApp(app: INestApplication) {
+  app.setGlobalPrefix('api');
+}
@@ -0,0 +1,113 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import * as jsyaml from 'js-yaml';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { runCli } from '../../lib/cli/run-cli';
+
+describe('nestjs-openapi-next generate', () => {
+  const fixtures = join(__dirname, 'fixtures');
+  let outDir: string;
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'openapi-cli-'));
+    jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('writes a JSON document using the config module', async () => {
+    const output = join(outDir, 'openapi.json');
+    const exitCode = await runCli([
+      'generate',
+      '--module',
+      join(fixtures, 'app.module.ts'),
+      '--config',
+      join(fixtures, 'swagger.config.ts'),
+      '--output',
+      output
+    ]);
+
+    expect(exitCode).toBe(0);
+    const document = JSON.parse(readFileSync(output, 'utf8'));
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.info.title).toBe('Cats');
+    expect(document.paths['/api/cats/{id}'].get.operationId).toBe('findOne');
+    expect(document.components.schemas.CatDto).toBeDefined();
+  });
+
+  it('infers the YAML format from the output extension', async () => {
+    const output = join(outDir, 'nested', 'openapi.yaml');
+    const exitCode = await runCli([
+      'generate',
+      '-m',
+      `${join(fixtures, 'app.module.ts')}#AppModule`,
+      '-o',
+      output
+    ]);
+
+    expect(exitCode).toBe(0);
+    const document = jsyaml.load(readFileSync(output, 'utf8')) as any;
+    expect(document.paths['/cats/{id}'].get).toBeDefined();
+  });
+
+  it('writes type declarations with --types', async () => {
+    const types = join(outDir, 'types', 'api.d.ts');
+    const exitCode = await runCli([
+      'generate',
+      '-m',
+      join(fixtures, 'app.module.ts'),
+      '-o',
+      join(outDir, 'openapi.json'),
+      '--types',
+      types
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(readFileSync(types, 'utf8')).toContain(
+      'export interface CatDto {\n  name: string;\n}'
+    );
+  });
+
+  it('writes the static documentation with --docs', async () => {
+    const docs = join(outDir, 'docs');
+    const exitCode = await runCli([
+      'generate',
+      '-m',
+      join(fixtures, 'app.module.ts'),
+      '-o',
+      join(outDir, 'openapi.json'),
+      '--docs',
+      docs,
+      '--ui',
+      'scalar'
+    ]);
+
+    expect(exitCode).toBe(0);
+    expect(readFileSync(join(docs, 'index.html'), 'utf8')).toContain(
+      'Scalar.createApiReference'
+    );
+  });
+
+  it('exits with a non-zero code when the module cannot be loaded', async () => {
+    const exitCode = await runCli([
+      'generate',
+      '--module',
+      `${join(fixtures, 'app.module.ts')}#MissingModule`,
+      '--output',
+      join(outDir, 'openapi.json')
+    ]);
+
+    expect(exitCode).toBe(1);
+    expect(process.stderr.write).toHaveBeenCalledWith(
+      expect.stringContaining('MissingModule')
+    );
+  });
+
+  it('exits with a non-zero code for unknown commands', async () => {
+    expect(await runCli(['publish'])).toBe(1);
+  });
+});
@@ -0,0 +1,117 @@
+import 'reflect-metadata';
+import { Controller, Get, INestApplication, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiHeader,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiQuery,
+  ApiResponse
+} from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerModule } from '../lib/swagger-module';
+import { ref } from '../lib/utils';
+
+describe('Reusable components', () => {
+  @ApiHeader(ref('XRequestId'))
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    @ApiQuery({ $ref: 'PageSize' })
+    @ApiOkResponse({
+      description: 'Cats',
+      headers: { 'X-Request-Id': ref('XRequestId') },
+      examples: { tom: ref('Tom') }
+    })
+    @ApiResponse({ status: 429, ...ref('#/components/responses/TooMany') })
+    findAll() {}
+
+    @Get(':id')
+    @ApiNotFoundResponse(ref('NotFound'))
+    findOne() {}
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const createBuilder = () =>
+    new DocumentBuilder()
+      .addComponentParameter('XRequestId', {
+        name: 'X-Request-Id',
+        in: 'header',
+        schema: { type: 'string', format: 'uuid' }
+      })
+      .addComponentParameter('PageSize', {
+        name: 'pageSize',
+        in: 'query',
+        schema: { type: 'integer' }
+      })
+      .addComponentHeader('XRequestId', {
+        schema: { type: 'string', format: 'uuid' }
+      })
+      .addComponentExample('Tom', { value: { name: 'Tom' } })
+      .addComponentResponse('NotFound', {
+        description: 'Not found',
+        headers: { 'X-Request-Id': ref('XRequestId') }
+      })
+      .addComponentResponse('TooMany', { description: 'Too many requests' });
+
+  it('registers components and references them from decorators', () => {
+    const document = SwaggerModule.createDocument(app, createBuilder().build());
+    const findAll = document.paths['/cats'].get;
+
+    expect(findAll.parameters).toEqual([
+      { $ref: '#/components/parameters/XRequestId' },
+      { $ref: '#/components/parameters/PageSize' }
+    ]);
+    expect(findAll.responses).toEqual({
+      '200': {
+        description: 'Cats',
+        headers: {
+          'X-Request-Id': { $ref: '#/components/headers/XRequestId' }
+        },
+        content: {
+          'application/json': {
+            examples: { tom: { $ref: '#/components/examples/Tom' } }
+          }
+        }
+      },
+      '429': { $ref: '#/components/responses/TooMany' }
+    });
+    expect(document.paths['/cats/{id}'].get.responses['404']).toEqual({
+      $ref: '#/components/responses/NotFound'
+    });
+    expect(document.components.responses.NotFound).toEqual({
+      description: 'Not found',
+      headers: { 'X-Request-Id': { $ref: '#/components/headers/XRequestId' } }
+    });
+    expect(document.components.examples.Tom).toEqual({
+      value: { name: 'Tom' }
+    });
+  });
+
+  it('throws when a referenced component is not registered', () => {
+    expect(() =>
+      SwaggerModule.createDocument(
+        app,
+        new DocumentBuilder()
+          .addComponentParameter('XRequestId', { name: 'X', in: 'header' })
+          .addComponentParameter('PageSize', { name: 'size', in: 'query' })
+          .build()
+      )
+    ).toThrow(
+      /not registered: "#\/components\/headers\/XRequestId" \(at #\/paths\/~1cats\/get\/responses\/200\/headers\/X-Request-Id\)/
+    );
+  });
+});
@@ -0,0 +1,207 @@
+import 'reflect-metadata';
+import {
+  Body,
+  Controller,
+  Get,
+  Module,
+  Post,
+  Version,
+  VERSION_NEUTRAL,
+  VersioningType
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiHeader,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiProperty,
+  ApiTags,
+  ApiWebhook
+} from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerModule } from '../lib/swagger-module';
+import { ref } from '../lib/utils';
+
+describe('SwaggerModule.createDocuments', () => {
+  class OwnerDto {
+    @ApiProperty()
+    name: string;
+  }
+
+  class CatV1Dto {
+    @ApiProperty()
+    name: string;
+  }
+
+  class CatV2Dto {
+    @ApiProperty()
+    name: string;
+
+    @ApiProperty({ type: () => OwnerDto })
+    owner: OwnerDto;
+  }
+
+  class HealthDto {
+    @ApiProperty()
+    status: string;
+  }
+
+  @ApiTags('cats')
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    @Version('1')
+    @ApiOkResponse({ type: CatV1Dto })
+    findAllV1() {
+      return [];
+    }
+
+    @Get()
+    @Version('2')
+    @ApiHeader(ref('XRequestId'))
+    @ApiOkResponse({ type: CatV2Dto })
+    @ApiNotFoundResponse(ref('NotFound'))
+    findAllV2() {
+      return [];
+    }
+
+    @Post()
+    @Version('2')
+    create(@Body() body: CatV2Dto) {
+      return body;
+    }
+
+    @Post('created')
+    @Version('2')
+    @ApiWebhook('catCreated')
+    @ApiOkResponse({ type: CatV2Dto })
+    onCreated() {
+      return undefined;
+    }
+  }
+
+  @ApiTags('health')
+  @Controller({ path: 'health', version: VERSION_NEUTRAL })
+  class HealthController {
+    @Get()
+    @ApiOkResponse({ type: HealthDto })
+    check() {
+      return { status: 'ok' };
+    }
+  }
+
+  @Module({ controllers: [CatsController, HealthController] })
+  class AppModule {}
+
+  const config = new DocumentBuilder()
+    .setTitle('Cats')
+    .setVersion('1.0')
+    .setOpenAPIVersion('3.1.0')
+    .addTag('cats')
+    .addTag('health')
+    .addComponentParameter('XRequestId', {
+      name: 'X-Request-Id',
+      in: 'header'
+    })
+    .addComponentResponse('NotFound', { description: 'Not found' })
+    .addBearerAuth()
+    .build();
+
+  let app: Awaited<ReturnType<typeof NestFactory.create>>;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    app.enableVersioning({ type: VersioningType.URI });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('splits by URI version', () => {
+    const documents = SwaggerModule.createDocuments(app, config, {
+      splitBy: 'version'
+    });
+
+    expect(Object.keys(documents)).toEqual(['v1', 'v2', 'default']);
+
+    expect(Object.keys(documents.v1.paths)).toEqual(['/v1/cats']);
+    expect(documents.v1.webhooks).toBeUndefined();
+    expect(Object.keys(documents.v1.components.schemas)).toEqual(['CatV1Dto']);
+    expect(documents.v1.tags.map((tag) => tag.name)).toEqual(['cats']);
+
+    expect(Object.keys(documents.v2.paths)).toEqual(['/v2/cats']);
+    expect(Object.keys(documents.v2.paths['/v2/cats'])).toEqual([
+      'get',
+      'post'
+    ]);
+    expect(Object.keys(documents.v2.webhooks)).toEqual(['catCreated']);
+    expect(Object.keys(documents.v2.components.schemas).sort()).toEqual([
+      'CatV2Dto',
+      'OwnerDto'
+    ]);
+
+    expect(Object.keys(documents.default.paths)).toEqual(['/health']);
+    expect(Object.keys(documents.default.components.schemas)).toEqual([
+      'HealthDto'
+    ]);
+    expect(documents.default.tags.map((tag) => tag.name)).toEqual(['health']);
+    expect(documents.default.info).toEqual(config.info);
+  });
+
+  it('keeps the components reachable from the operations of each document', () => {
+    const documents = SwaggerModule.createDocuments(app, config, {
+      splitBy: 'version'
+    });
+
+    expect(Object.keys(documents.v1.components).sort()).toEqual([
+      'schemas',
+      'securitySchemes'
+    ]);
+    expect(Object.keys(documents.v2.components.parameters)).toEqual([
+      'XRequestId'
+    ]);
+    expect(Object.keys(documents.v2.components.responses)).toEqual([
+      'NotFound'
+    ]);
+    expect(documents.v2.components.securitySchemes).toEqual(
+      config.components.securitySchemes
+    );
+  });
+
+  it('splits by tag', () => {
+    const documents = SwaggerModule.createDocuments(app, config, {
+      splitBy: 'tag'
+    });
+
+    expect(Object.keys(documents)).toEqual(['cats', 'health']);
+    expect(Object.keys(documents.cats.paths)).toEqual(['/v1/cats', '/v2/cats']);
+    expect(Object.keys(documents.health.paths)).toEqual(['/health']);
+  });
+
+  it('splits using a custom function', () => {
+    const documents = SwaggerModule.createDocuments(app, config, {
+      splitBy: (operation) =>
+        operation.controller === HealthController
+          ? 'internal'
+          : operation.location === 'webhooks'
+            ? ['public', 'events']
+            : 'public'
+    });
+
+    expect(Object.keys(documents)).toEqual(['public', 'internal', 'events']);
+    expect(Object.keys(documents.events.paths)).toEqual([]);
+    expect(Object.keys(documents.events.webhooks)).toEqual(['catCreated']);
+    expect(Object.keys(documents.public.webhooks)).toEqual(['catCreated']);
+    expect(Object.keys(documents.internal.paths)).toEqual(['/health']);
+  });
+
+  it('does not emit the route version in operations', () => {
+    const document = SwaggerModule.createDocument(app, config);
+
+    expect(document.paths['/v1/cats'].get).not.toHaveProperty('version');
+    expect(document.paths['/v1/cats'].get.operationId).toBe(
+      'CatsController_findAllV1_v1'
+    );
+  });
+});
@@ -0,0 +1,129 @@
+import 'reflect-metadata';
+import { Controller, Get, Module, Query } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ApiPaginatedResponse, ApiProperty } from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { OpenAPIObject } from '../../lib/interfaces';
+import { ResponseObject } from '../../lib/interfaces/open-api-spec.interface';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+describe('ApiPaginatedResponse', () => {
+  class CatDto {
+    @ApiProperty()
+    name: string;
+  }
+
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    @ApiPaginatedResponse(CatDto, { maxPageSize: 100 })
+    findAll(@Query('limit') limit?: number) {
+      return limit;
+    }
+
+    @Get('feed')
+    @ApiPaginatedResponse(CatDto, {
+      style: 'cursor',
+      description: 'Latest cats'
+    })
+    feed() {
+      return undefined;
+    }
+
+    @Get('pages')
+    @ApiPaginatedResponse(CatDto, {
+      style: 'page',
+      name: 'CatPage',
+      paginationHeaders: false
+    })
+    pages() {
+      return undefined;
+    }
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  let document: OpenAPIObject;
+
+  beforeAll(async () => {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+    document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().setOpenAPIVersion('3.1.0').build()
+    );
+    await app.close();
+  });
+
+  it('emits the offset wrapper schema, query parameters and headers', () => {
+    const operation = document.paths['/cats'].get;
+
+    expect(operation.responses['200']).toEqual({
+      description: '',
+      headers: {
+        Link: expect.objectContaining({ schema: { type: 'string' } }),
+        'X-Total-Count': expect.objectContaining({
+          schema: { type: 'integer', minimum: 0 }
+        })
+      },
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/OffsetPaginatedCatDto' }
+        }
+      }
+    });
+    expect(
+      operation.parameters.map((parameter: any) => [
+        parameter.name,
+        parameter.required,
+        parameter.schema
+      ])
+    ).toEqual([
+      ['limit', false, { type: 'integer', minimum: 1, maximum: 100 }],
+      ['offset', false, { type: 'integer', minimum: 0 }]
+    ]);
+    expect(document.components.schemas.OffsetPaginatedCatDto).toEqual({
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/CatDto' }
+        },
+        total: { type: 'integer', minimum: 0 },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 }
+      },
+      required: ['items', 'total', 'limit', 'offset']
+    });
+  });
+
+  it('supports cursor pagination', () => {
+    const operation = document.paths['/cats/feed'].get;
+    const response = operation.responses['200'] as ResponseObject;
+
+    expect(response.description).toBe('Latest cats');
+    expect(Object.keys(response.headers)).toEqual(['Link']);
+    expect(
+      operation.parameters.map((parameter: any) => parameter.name)
+    ).toEqual(['cursor', 'limit']);
+    expect(document.components.schemas.CursorPaginatedCatDto).toMatchObject({
+      properties: {
+        nextCursor: { type: ['string', 'null'] }
+      },
+      required: ['items', 'nextCursor']
+    });
+  });
+
+  it('supports page pagination with a custom schema name', () => {
+    const operation = document.paths['/cats/pages'].get;
+
+    expect(operation.responses['200']).not.toHaveProperty('headers');
+    expect(
+      operation.parameters.map((parameter: any) => parameter.name)
+    ).toEqual(['page', 'pageSize']);
+    expect(
+      Object.keys((document.components.schemas.CatPage as any).properties)
+    ).toEqual(['items', 'total', 'page', 'pageSize', 'totalPages']);
+  });
+});
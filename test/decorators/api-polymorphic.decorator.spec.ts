@@ -0,0 +1,176 @@
+import 'reflect-metadata';
+import { Body, Controller, Get, Module, Post } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiBody,
+  ApiExtraModels,
+  ApiOkResponse,
+  ApiPolymorphic,
+  ApiProperty
+} from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { SchemaObject } from '../../lib/interfaces/open-api-spec.interface';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+describe('ApiPolymorphic', () => {
+  class CatDto {
+    @ApiProperty()
+    kind: string;
+
+    @ApiProperty()
+    lives: number;
+  }
+
+  class DogDto {
+    @ApiProperty()
+    kind: string;
+
+    @ApiProperty()
+    breed: string;
+  }
+
+  class BirdDto {
+    @ApiProperty()
+    kind: string;
+  }
+
+  const subTypes = [
+    { value: 'cat', type: CatDto },
+    { value: 'dog', type: DogDto }
+  ];
+  const union = {
+    oneOf: [
+      { $ref: '#/components/schemas/CatDto' },
+      { $ref: '#/components/schemas/DogDto' }
+    ],
+    discriminator: {
+      propertyName: 'kind',
+      mapping: {
+        cat: '#/components/schemas/CatDto',
+        dog: '#/components/schemas/DogDto'
+      }
+    }
+  };
+
+  class OwnerDto {
+    @ApiPolymorphic({ property: 'kind', subTypes })
+    pet: CatDto | DogDto;
+
+    @ApiPolymorphic({
+      property: 'kind',
+      subTypes,
+      isArray: true,
+      required: false
+    })
+    previousPets?: Array<CatDto | DogDto>;
+  }
+
+  @Controller('pets')
+  class PetsController {
+    @Post()
+    @ApiPolymorphic({ property: 'kind', subTypes })
+    @ApiPolymorphic({
+      property: 'kind',
+      subTypes,
+      in: 'response',
+      status: 201,
+      description: 'Created pet'
+    })
+    create(@Body() pet: CatDto | DogDto) {
+      return pet;
+    }
+
+    @Post('birds')
+    @ApiExtraModels(BirdDto)
+    @ApiBody({
+      schema: {
+        oneOf: [{ $ref: '#/components/schemas/BirdDto' }],
+        discriminator: {
+          propertyName: 'kind',
+          mapping: { bird: '#/components/schemas/BirdDto' }
+        }
+      }
+    })
+    createBird(@Body() bird: BirdDto) {
+      return bird;
+    }
+
+    @Get('owner')
+    @ApiOkResponse({ type: OwnerDto })
+    owner(): OwnerDto {
+      return undefined;
+    }
+  }
+
+  @Module({ controllers: [PetsController] })
+  class AppModule {}
+
+  const createDocument = async (openapi: string) => {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().setOpenAPIVersion(openapi).build()
+    );
+    await app.close();
+    return document;
+  };
+
+  it('describes bodies and responses as discriminated unions', async () => {
+    const document = await createDocument('3.0.0');
+    const operation = document.paths['/pets'].post;
+
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: { 'application/json': { schema: union } }
+    });
+    expect(operation.responses['201']).toEqual({
+      description: 'Created pet',
+      content: { 'application/json': { schema: union } }
+    });
+    expect(document.components.schemas.CatDto).toBeDefined();
+    expect(document.components.schemas.DogDto).toBeDefined();
+  });
+
+  it('describes properties as discriminated unions', async () => {
+    const document = await createDocument('3.0.0');
+    const owner = document.components.schemas.OwnerDto as SchemaObject;
+
+    expect(owner.properties.pet).toEqual(union);
+    expect(owner.properties.previousPets).toEqual({
+      type: 'array',
+      items: union
+    });
+    expect(owner.required).toEqual(['pet']);
+  });
+
+  it('pins the discriminator value with "const" for OAS 3.1+', async () => {
+    const oas30 = await createDocument('3.0.0');
+    const oas31 = await createDocument('3.1.0');
+
+    expect(
+      (oas30.components.schemas.CatDto as SchemaObject).properties.kind
+    ).toEqual({ type: 'string' });
+    expect(
+      (oas31.components.schemas.CatDto as SchemaObject).properties.kind
+    ).toEqual({ type: 'string', const: 'cat' });
+    expect(
+      (oas31.components.schemas.DogDto as SchemaObject).properties.kind
+    ).toEqual({ type: 'string', const: 'dog' });
+  });
+
+  it('leaves the targets of hand-written discriminators untouched', async () => {
+    const document = await createDocument('3.1.0');
+
+    expect(
+      (document.components.schemas.BirdDto as SchemaObject).properties.kind
+    ).toEqual({ type: 'string' });
+    expect(
+      (document.paths['/pets/birds'].post.requestBody as any).content[
+        'application/json'
+      ].schema.discriminator
+    ).toEqual({
+      propertyName: 'kind',
+      mapping: { bird: '#/components/schemas/BirdDto' }
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import 'reflect-metadata';
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Module,
+  NotFoundException,
+  Post
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiProblemResponse,
+  ApiProperty,
+  ApiThrows,
+  ProblemDetails
+} from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { OpenAPIObject } from '../../lib/interfaces';
+import { GlobalResponsesStorage } from '../../lib/storages/global-responses.storage';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+describe('ApiProblemResponse', () => {
+  class ValidationProblem extends ProblemDetails {
+    @ApiProperty({ type: [String] })
+    errors: string[];
+  }
+
+  @ApiThrows(BadRequestException)
+  @Controller('cats')
+  class CatsController {
+    @Get(':id')
+    @ApiThrows(NotFoundException)
+    findOne() {
+      return undefined;
+    }
+
+    @Post()
+    @ApiProblemResponse(409, {
+      type: 'https://example.com/problems/duplicate-cat',
+      title: 'Duplicate cat'
+    })
+    @ApiProblemResponse(422, { model: ValidationProblem })
+    create() {
+      return undefined;
+    }
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  async function createDocument(
+    builder: DocumentBuilder
+  ): Promise<OpenAPIObject> {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+    const document = SwaggerModule.createDocument(app, builder.build());
+    await app.close();
+    return document;
+  }
+
+  afterEach(() => {
+    GlobalResponsesStorage.clear();
+  });
+
+  it('documents application/problem+json responses', async () => {
+    const document = await createDocument(new DocumentBuilder());
+
+    expect(document.paths['/cats'].post.responses['409']).toEqual({
+      description: 'Duplicate cat',
+      content: {
+        'application/problem+json': {
+          schema: { $ref: '#/components/schemas/ProblemDetails' },
+          example: {
+            type: 'https://example.com/problems/duplicate-cat',
+            title: 'Duplicate cat',
+            status: 409
+          }
+        }
+      }
+    });
+    expect(document.components.schemas.ProblemDetails).toMatchObject({
+      type: 'object',
+      description: 'Problem Details for HTTP APIs (RFC 9457)',
+      properties: {
+        type: { type: 'string', format: 'uri-reference' },
+        title: { type: 'string' },
+        status: { type: 'integer' },
+        detail: { type: 'string' },
+        instance: { type: 'string' }
+      }
+    });
+    expect(document.components.schemas.ProblemDetails).not.toHaveProperty(
+      'required'
+    );
+  });
+
+  it('maps built-in exceptions to their status and reason phrase', async () => {
+    const document = await createDocument(new DocumentBuilder());
+    const responses = document.paths['/cats/{id}'].get.responses;
+
+    expect(responses['404']).toEqual({
+      description: 'Not Found',
+      content: {
+        'application/problem+json': {
+          schema: { $ref: '#/components/schemas/ProblemDetails' },
+          example: { type: 'about:blank', title: 'Not Found', status: 404 }
+        }
+      }
+    });
+    expect(responses['400']).toMatchObject({ description: 'Bad Request' });
+    expect(document.paths['/cats'].post.responses['400']).toBeDefined();
+  });
+
+  it('supports ProblemDetails subclasses declaring extension members', async () => {
+    const document = await createDocument(new DocumentBuilder());
+
+    expect(document.paths['/cats'].post.responses['422']).toMatchObject({
+      content: {
+        'application/problem+json': {
+          schema: { $ref: '#/components/schemas/ValidationProblem' }
+        }
+      }
+    });
+    expect(document.components.schemas.ValidationProblem).toMatchObject({
+      properties: {
+        type: { type: 'string' },
+        errors: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['errors']
+    });
+  });
+
+  it('registers reusable components and global responses with DocumentBuilder.useProblemDetails()', async () => {
+    const document = await createDocument(
+      new DocumentBuilder().useProblemDetails({ statuses: [500] })
+    );
+
+    expect(document.components.responses.ProblemDetails).toEqual({
+      description: 'Problem Details (RFC 9457)',
+      content: {
+        'application/problem+json': {
+          schema: { $ref: '#/components/schemas/ProblemDetails' }
+        }
+      }
+    });
+    expect(document.components.schemas.ProblemDetails).toBeDefined();
+    for (const operation of [
+      document.paths['/cats/{id}'].get,
+      document.paths['/cats'].post
+    ]) {
+      expect(operation.responses['500']).toMatchObject({
+        description: 'Internal Server Error',
+        content: {
+          'application/problem+json': {
+            example: { status: 500 }
+          }
+        }
+      });
+    }
+  });
+});
@@ -0,0 +1,194 @@
+import 'reflect-metadata';
+import { Controller, Get, INestApplication, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { cloneDeep } from 'lodash';
+import {
+  ApiOkResponse,
+  ApiProperty,
+  ApiQuery,
+  ApiResponse
+} from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { ResponseObject } from '../lib/interfaces/open-api-spec.interface';
+import { SwaggerModule } from '../lib/swagger-module';
+import { dereference } from '../lib/utils';
+
+describe('deduplicateInlineSchemas', () => {
+  const location = {
+    type: 'object',
+    properties: {
+      lat: { type: 'number' },
+      lng: { type: 'number' }
+    }
+  } as const;
+
+  class CatDto {
+    @ApiProperty(location)
+    location: Record<string, number>;
+  }
+
+  class DogDto {
+    @ApiProperty(location)
+    location: Record<string, number>;
+  }
+
+  const errorResponse = {
+    status: 400,
+    schema: {
+      type: 'object',
+      properties: { message: { type: 'string' } }
+    }
+  };
+
+  @Controller()
+  class PetsController {
+    @Get('cats')
+    @ApiQuery({ name: 'limit', type: Number, required: false })
+    @ApiOkResponse({ type: CatDto })
+    @ApiResponse(errorResponse)
+    findCats() {}
+
+    @Get('dogs')
+    @ApiQuery({ name: 'limit', type: Number, required: false })
+    @ApiOkResponse({ type: DogDto })
+    @ApiResponse(errorResponse)
+    findDogs() {}
+
+    @Get('birds')
+    @ApiOkResponse({
+      schema: { type: 'object', properties: { wings: { type: 'integer' } } }
+    })
+    findBirds() {}
+  }
+
+  @Module({ controllers: [PetsController] })
+  class AppModule {}
+
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const createDocument = (deduplicateInlineSchemas?: any) =>
+    SwaggerModule.createDocument(app, new DocumentBuilder().build(), {
+      deduplicateInlineSchemas
+    });
+
+  it('hoists repeated inline schemas, parameters and responses', () => {
+    let hoistedRefs: string[];
+    const document = createDocument({
+      onDeduplicate: (refs: string[]) => (hoistedRefs = refs)
+    });
+    const { schemas, parameters, responses } = document.components;
+
+    const [schemaName] = Object.keys(schemas).filter((name) =>
+      /^Schema[0-9a-f]{8}$/.test(name)
+    );
+    expect(schemas[schemaName]).toEqual({
+      type: 'object',
+      properties: {
+        lat: { type: 'number' },
+        lng: { type: 'number' }
+      }
+    });
+    expect((schemas.CatDto as any).properties.location).toEqual({
+      $ref: `#/components/schemas/${schemaName}`
+    });
+    expect((schemas.DogDto as any).properties.location).toEqual({
+      $ref: `#/components/schemas/${schemaName}`
+    });
+
+    expect(parameters).toEqual({
+      LimitQueryParameter: {
+        name: 'limit',
+        in: 'query',
+        required: false,
+        schema: { type: 'number' }
+      }
+    });
+    expect(document.paths['/cats'].get.parameters).toEqual([
+      { $ref: '#/components/parameters/LimitQueryParameter' }
+    ]);
+
+    const [responseName] = Object.keys(responses);
+    expect(responseName).toMatch(/^Response[0-9a-f]{8}$/);
+    expect(document.paths['/dogs'].get.responses['400']).toEqual({
+      $ref: `#/components/responses/${responseName}`
+    });
+
+    expect(
+      (document.paths['/birds'].get.responses['200'] as ResponseObject).content[
+        'application/json'
+      ].schema
+    ).toEqual({ type: 'object', properties: { wings: { type: 'integer' } } });
+    expect(hoistedRefs.sort()).toEqual(
+      [
+        `#/components/parameters/LimitQueryParameter`,
+        `#/components/responses/${responseName}`,
+        `#/components/schemas/${schemaName}`
+      ].sort()
+    );
+  });
+
+  it('leaves the components of the config untouched', () => {
+    const config = new DocumentBuilder()
+      .addComponentResponse('Error', {
+        description: 'Error',
+        content: { 'application/json': { schema: cloneDeep(location) } }
+      })
+      .build();
+    const errorSchema = () =>
+      (config.components.responses.Error as ResponseObject).content[
+        'application/json'
+      ].schema;
+
+    SwaggerModule.createDocument(app, config, {
+      deduplicateInlineSchemas: true
+    });
+    expect(errorSchema()).toEqual(location);
+
+    const document = SwaggerModule.createDocument(app, config);
+    expect(
+      (document.components.responses.Error as ResponseObject).content[
+        'application/json'
+      ].schema
+    ).toEqual(location);
+  });
+
+  it('generates stable names', () => {
+    expect(Object.keys(createDocument(true).components.schemas)).toEqual(
+      Object.keys(createDocument(true).components.schemas)
+    );
+  });
+
+  it('is reversed by dereference()', () => {
+    let hoistedRefs: string[];
+    const document = createDocument({
+      onDeduplicate: (refs: string[]) => (hoistedRefs = refs)
+    });
+
+    expect(dereference(document, hoistedRefs)).toEqual(createDocument());
+  });
+
+  it('inlines every component reference with dereference()', () => {
+    const document = dereference(createDocument());
+
+    expect(
+      (document.paths['/cats'].get.responses['200'] as ResponseObject).content[
+        'application/json'
+      ].schema
+    ).toEqual({
+      type: 'object',
+      properties: {
+        location: expect.objectContaining({ type: 'object' })
+      },
+      required: ['location']
+    });
+  });
+});
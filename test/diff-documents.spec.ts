@@ -0,0 +1,342 @@
+import { OpenAPIObject } from '../lib/interfaces';
+import { diffDocuments } from '../lib/utils/diff-documents.util';
+
+describe('diffDocuments', () => {
+  const createDocument = (
+    overrides: Partial<OpenAPIObject> = {}
+  ): OpenAPIObject => ({
+    openapi: '3.2.0',
+    info: { title: 't', version: '1' },
+    paths: {},
+    ...overrides
+  });
+
+  const codes = (changes: Array<{ code: string; pointer: string }>) =>
+    changes.map((change) => `${change.code} ${change.pointer}`);
+
+  it('reports no changes for identical documents', () => {
+    const document = createDocument({
+      paths: { '/cats': { get: { responses: { '200': { description: '' } } } } }
+    });
+
+    expect(diffDocuments(document, document)).toEqual({
+      breaking: [],
+      nonBreaking: []
+    });
+  });
+
+  it('classifies removed and added operations, including QUERY and webhooks', () => {
+    const oldDoc = createDocument({
+      paths: {
+        '/cats': { get: { responses: {} } },
+        '/cats/search': { query: { responses: {} } }
+      },
+      webhooks: { catCreated: { post: { responses: {} } } }
+    });
+    const newDoc = createDocument({
+      paths: {
+        '/cats': { get: { responses: {} }, post: { responses: {} } }
+      },
+      webhooks: { catDeleted: { post: { responses: {} } } }
+    });
+
+    const diff = diffDocuments(oldDoc, newDoc);
+
+    expect(codes(diff.breaking)).toEqual([
+      'operation-removed /paths/~1cats~1search/query',
+      'operation-removed /webhooks/catCreated/post'
+    ]);
+    expect(codes(diff.nonBreaking)).toEqual([
+      'operation-added /paths/~1cats/post',
+      'operation-added /webhooks/catDeleted/post'
+    ]);
+  });
+
+  it('treats stricter requests as breaking', () => {
+    const oldDoc = createDocument({
+      paths: {
+        '/cats': {
+          post: {
+            parameters: [
+              { name: 'dryRun', in: 'query', schema: { type: 'boolean' } }
+            ],
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/CreateCatDto' }
+                }
+              }
+            },
+            responses: {}
+          }
+        }
+      },
+      components: {
+        schemas: {
+          CreateCatDto: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string' },
+              breed: { type: 'string', enum: ['a', 'b'] }
+            }
+          }
+        }
+      }
+    });
+    const newDoc = createDocument({
+      paths: {
+        '/cats': {
+          post: {
+            parameters: [
+              {
+                name: 'dryRun',
+                in: 'query',
+                required: true,
+                schema: { type: 'boolean' }
+              }
+            ],
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/CreateCatDto' }
+                }
+              }
+            },
+            responses: {}
+          }
+        }
+      },
+      components: {
+        schemas: {
+          CreateCatDto: {
+            type: 'object',
+            required: ['name', 'age'],
+            properties: {
+              name: { type: 'string' },
+              age: { type: 'integer' },
+              breed: { type: 'string', enum: ['a', 'c'] }
+            }
+          }
+        }
+      }
+    });
+
+    const diff = diffDocuments(oldDoc, newDoc);
+
+    expect(codes(diff.breaking)).toEqual([
+      'parameter-became-required /paths/~1cats/post/parameters/0/required',
+      'enum-narrowed /components/schemas/CreateCatDto/properties/breed/enum',
+      'property-added /components/schemas/CreateCatDto/properties/age'
+    ]);
+    expect(codes(diff.nonBreaking)).toEqual([
+      'enum-widened /components/schemas/CreateCatDto/properties/breed/enum'
+    ]);
+  });
+
+  it('treats looser responses as breaking', () => {
+    const oldDoc = createDocument({
+      paths: {
+        '/cats': {
+          get: {
+            responses: {
+              '200': {
+                description: '',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      required: ['id'],
+                      properties: {
+                        id: { type: 'integer' },
+                        name: { type: 'string' },
+                        status: { type: 'string', enum: ['alive'] }
+                      }
+                    }
+                  }
+                }
+              },
+              '404': { description: '' }
+            }
+          }
+        }
+      }
+    });
+    const newDoc = createDocument({
+      paths: {
+        '/cats': {
+          get: {
+            responses: {
+              '200': {
+                description: '',
+                content: {
+                  'application/json': {
+                    schema: {
+                      type: 'object',
+                      properties: {
+                        id: { type: ['integer', 'null'] },
+                        status: { type: 'string', enum: ['alive', 'unknown'] }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    const diff = diffDocuments(oldDoc, newDoc);
+
+    expect(codes(diff.breaking)).toEqual([
+      'property-became-optional /paths/~1cats/get/responses/200/content/application~1json/schema/properties/id',
+      'type-changed /paths/~1cats/get/responses/200/content/application~1json/schema/properties/id/type',
+      'property-removed /paths/~1cats/get/responses/200/content/application~1json/schema/properties/name',
+      'enum-widened /paths/~1cats/get/responses/200/content/application~1json/schema/properties/status/enum',
+      'response-removed /paths/~1cats/get/responses/404'
+    ]);
+    expect(diff.nonBreaking).toEqual([]);
+  });
+
+  it('reports changed response $ref targets and itemSchema changes', () => {
+    const oldDoc = createDocument({
+      paths: {
+        '/cats/{id}': {
+          get: {
+            responses: {
+              '200': {
+                description: '',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/CatDto' }
+                  }
+                }
+              }
+            }
+          }
+        },
+        '/cats/stream': {
+          get: {
+            responses: {
+              '200': {
+                description: '',
+                content: {
+                  'text/event-stream': {
+                    itemSchema: { type: 'string', enum: ['a'] }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+    const newDoc = createDocument({
+      paths: {
+        '/cats/{id}': {
+          get: {
+            responses: {
+              '200': {
+                description: '',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/DogDto' }
+                  }
+                }
+              }
+            }
+          }
+        },
+        '/cats/stream': {
+          get: {
+            responses: {
+              '200': {
+                description: '',
+                content: {
+                  'text/event-stream': {
+                    itemSchema: { type: 'string', enum: ['a', 'b'] }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    expect(codes(diffDocuments(oldDoc, newDoc).breaking)).toEqual([
+      'schema-ref-changed /paths/~1cats~1{id}/get/responses/200/content/application~1json/schema/$ref',
+      'enum-widened /paths/~1cats~1stream/get/responses/200/content/text~1event-stream/itemSchema/enum'
+    ]);
+  });
+
+  it('inverts the direction for webhook payloads', () => {
+    const webhook = (properties: Record<string, any>) =>
+      createDocument({
+        webhooks: {
+          catCreated: {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': {
+                    schema: { type: 'object', properties }
+                  }
+                }
+              },
+              responses: {}
+            }
+          }
+        }
+      });
+
+    const diff = diffDocuments(
+      webhook({ id: { type: 'string' }, name: { type: 'string' } }),
+      webhook({ id: { type: 'string' } })
+    );
+
+    expect(codes(diff.breaking)).toEqual([
+      'property-removed /webhooks/catCreated/post/requestBody/content/application~1json/schema/properties/name'
+    ]);
+  });
+
+  it('handles recursive schemas', () => {
+    const document = (description: string) =>
+      createDocument({
+        paths: {
+          '/nodes': {
+            get: {
+              responses: {
+                '200': {
+                  description,
+                  content: {
+                    'application/json': {
+                      schema: { $ref: '#/components/schemas/Node' }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            Node: {
+              type: 'object',
+              properties: {
+                children: {
+                  type: 'array',
+                  items: { $ref: '#/components/schemas/Node' }
+                }
+              }
+            }
+          }
+        }
+      });
+
+    expect(diffDocuments(document('a'), document('b'))).toEqual({
+      breaking: [],
+      nonBreaking: []
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Controller, Get, INestApplication, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { FastifyAdapter } from '@nestjs/platform-fastify';
+import * as request from 'supertest';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerCustomOptions } from '../lib/interfaces';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('Documentation auth', () => {
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    findAll() {}
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  let app: INestApplication;
+
+  const setup = async (
+    options: SwaggerCustomOptions,
+    adapter?: FastifyAdapter
+  ) => {
+    app = adapter
+      ? await NestFactory.create(AppModule, adapter, { logger: false })
+      : await NestFactory.create(AppModule, { logger: false });
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().build()
+    );
+    SwaggerModule.setup('docs', app, document, options);
+    await app.init();
+    if (adapter) {
+      await adapter.getInstance().ready();
+    }
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  const basicAuth = (username: string, password: string) =>
+    `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+
+  describe.each([
+    ['express', () => undefined],
+    ['fastify', () => new FastifyAdapter()]
+  ])('with %s', (_, createAdapter) => {
+    it('protects every route with basic auth', async () => {
+      await setup(
+        { auth: { type: 'basic', username: 'admin', password: 's3cret' } },
+        createAdapter()
+      );
+
+      for (const path of [
+        '/docs',
+        '/docs/',
+        '/docs/index.html',
+        '/docs/swagger-ui-init.js',
+        '/docs-json',
+        '/docs-yaml'
+      ]) {
+        await request(app.getHttpServer())
+          .get(path)
+          .expect(401)
+          .expect(
+            'WWW-Authenticate',
+            'Basic realm="API documentation", charset="UTF-8"'
+          );
+        await request(app.getHttpServer())
+          .get(path)
+          .set('Authorization', basicAuth('admin', 'wrong'))
+          .expect(401);
+        await request(app.getHttpServer())
+          .get(path)
+          .set('Authorization', basicAuth('admin', 's3cret'))
+          .expect(200);
+      }
+      await request(app.getHttpServer()).get('/cats').expect(200);
+    });
+  });
+
+  it('checks API keys', async () => {
+    await setup({
+      auth: { type: 'apiKey', header: 'X-Docs-Key', keys: ['one', 'two'] }
+    });
+
+    await request(app.getHttpServer())
+      .get('/docs-json')
+      .set('X-Docs-Key', 'three')
+      .expect(401)
+      .expect(
+        'WWW-Authenticate',
+        'ApiKey realm="API documentation", header="X-Docs-Key"'
+      );
+    await request(app.getHttpServer())
+      .get('/docs-json')
+      .set('X-Docs-Key', 'two')
+      .expect(200);
+  });
+
+  it('runs custom async checks', async () => {
+    await setup({
+      auth: async (req: any) => req.headers.cookie === 'session=valid'
+    });
+
+    await request(app.getHttpServer())
+      .get('/docs')
+      .expect(401, { statusCode: 401, message: 'Unauthorized' })
+      .expect('WWW-Authenticate', 'Bearer realm="API documentation"');
+    await request(app.getHttpServer())
+      .get('/docs')
+      .set('Cookie', 'session=valid')
+      .expect(200)
+      .expect('Content-Type', /text\/html/);
+  });
+});
@@ -0,0 +1,85 @@
+import { Controller, Get, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DocumentBuilder } from '../lib/document-builder';
+import { OpenAPIObject } from '../lib/interfaces';
+import { SwaggerModule } from '../lib/swagger-module';
+import { exportStaticDocs } from '../lib/utils';
+
+describe('exportStaticDocs', () => {
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    findAll() {}
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  let document: OpenAPIObject;
+  let outDir: string;
+
+  beforeAll(async () => {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().setTitle('Cats').build()
+    );
+    await app.close();
+  });
+
+  beforeEach(() => {
+    outDir = mkdtempSync(join(tmpdir(), 'openapi-docs-'));
+  });
+
+  afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('writes Swagger UI with the document embedded', () => {
+    const files = exportStaticDocs(document, join(outDir, 'docs'), {
+      customSiteTitle: 'Cats API',
+      swaggerOptions: { persistAuthorization: true }
+    });
+
+    expect(readdirSync(join(outDir, 'docs')).sort()).toEqual(
+      expect.arrayContaining([
+        'favicon-16x16.png',
+        'index.html',
+        'swagger-ui-bundle.js',
+        'swagger-ui-init.js',
+        'swagger-ui-standalone-preset.js',
+        'swagger-ui.css'
+      ])
+    );
+    expect(files).toContain(join(outDir, 'docs', 'index.html'));
+
+    const html = readFileSync(join(outDir, 'docs', 'index.html'), 'utf8');
+    expect(html).toContain('<title>Cats API</title>');
+    expect(html).toContain('src="./swagger-ui-init.js"');
+
+    const initJs = readFileSync(
+      join(outDir, 'docs', 'swagger-ui-init.js'),
+      'utf8'
+    );
+    expect(initJs).toContain('"title": "Cats"');
+    expect(initJs).toContain('"persistAuthorization": true');
+  });
+
+  it('writes another renderer with the document embedded', () => {
+    const files = exportStaticDocs(document, outDir, {
+      ui: 'redoc',
+      uiScriptUrl: 'https://example.com/redoc.js'
+    });
+
+    expect(files).toEqual([join(outDir, 'index.html')]);
+    const html = readFileSync(join(outDir, 'index.html'), 'utf8');
+    expect(html).toContain(
+      `<script src='https://example.com/redoc.js'></script>`
+    );
+    expect(html).toContain('Redoc.init({"openapi":"3.');
+    expect(html).toContain('"title":"Cats"');
+  });
+});
@@ -0,0 +1,340 @@
+import {
+  Body,
+  Controller,
+  Get,
+  INestApplication,
+  Module,
+  Param,
+  Post,
+  Query
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import * as ts from 'typescript';
+import {
+  ApiOkResponse,
+  ApiProperty,
+  ApiQuery,
+  ApiQueryMethod,
+  ApiStreamingResponse,
+  ApiWebhook
+} from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { generateClient } from '../../lib/generators';
+import { OpenAPIObject } from '../../lib/interfaces';
+import { createMockServer } from '../../lib/mock-server';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+class CatDto {
+  @ApiProperty({ example: 'Tom' })
+  name: string;
+
+  @ApiProperty({ type: 'integer', example: 3 })
+  age: number;
+
+  @ApiProperty({ type: String, nullable: true, required: false })
+  nickname?: string | null;
+
+  @ApiProperty({ enum: ['black', 'white'], enumName: 'Color' })
+  color: string;
+}
+
+class CreateCatDto {
+  @ApiProperty()
+  name: string;
+}
+
+class CatEventDto {
+  @ApiProperty({ enum: ['created', 'deleted'], example: 'created' })
+  type: string;
+}
+
+@Controller('cats')
+class CatsController {
+  @Get()
+  @ApiQuery({ name: 'limit', type: 'integer', required: false })
+  @ApiOkResponse({ type: [CatDto] })
+  findAll(@Query('limit') _limit?: number) {
+    return [];
+  }
+
+  @Get('events')
+  @ApiStreamingResponse({
+    status: 200,
+    contentType: 'text/event-stream',
+    type: () => CatEventDto
+  })
+  events() {}
+
+  @Get(':id')
+  @ApiOkResponse({ type: CatDto })
+  findOne(@Param('id') _id: string) {
+    return {};
+  }
+
+  @Post()
+  @ApiOkResponse({ type: CatDto })
+  create(@Body() _dto: CreateCatDto) {
+    return {};
+  }
+
+  @Post('search')
+  @ApiQueryMethod()
+  @ApiOkResponse({ type: [CatDto] })
+  search(@Body() _dto: CreateCatDto) {
+    return [];
+  }
+
+  @Post('adopted')
+  @ApiWebhook('catAdopted')
+  adopted(@Body() _dto: CatDto) {}
+}
+
+@Module({ controllers: [CatsController] })
+class AppModule {}
+
+function typeCheck(source: string): string[] {
+  const fileName = 'client.ts';
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    lib: ['lib.es2022.d.ts', 'lib.dom.d.ts', 'lib.dom.asynciterable.d.ts'],
+    types: []
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile.bind(host);
+  host.getSourceFile = (name, languageVersion, ...rest) =>
+    name === fileName
+      ? ts.createSourceFile(name, source, languageVersion)
+      : getSourceFile(name, languageVersion, ...rest);
+  const program = ts.createProgram([fileName], options, host);
+  return ts
+    .getPreEmitDiagnostics(program)
+    .map((diagnostic) =>
+      ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+    );
+}
+
+function loadClient(source: string): Record<string, any> {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022
+    }
+  });
+  const exports: Record<string, any> = {};
+  new Function('exports', outputText)(exports);
+  return exports;
+}
+
+describe('generateClient', () => {
+  let app: INestApplication;
+  let document: OpenAPIObject;
+  let source: string;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+    document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder()
+        .setTitle('Cats')
+        .setVersion('1')
+        .setOpenAPIVersion('3.1.0')
+        .build()
+    );
+    source = generateClient(document, { baseUrl: 'http://localhost' });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('emits declarations for components.schemas', () => {
+    expect(source).toContain('export interface CatDto {');
+    expect(source).toContain('  nickname?: string | null;');
+    expect(source).toContain('  color: Color;');
+    expect(source).toContain('export type Color = "black" | "white";');
+  });
+
+  it('emits a function per operation named after its operationId', () => {
+    expect(source).toContain(
+      'export async function CatsController_findAll(\n  args: {\n    query?: {\n      limit?: number;\n    };\n  } = {},\n  config?: ClientConfig\n): Promise<CatDto[]> {'
+    );
+    expect(source).toMatch(
+      /export async function CatsController_findOne\(\n  args: \{\n    path: \{\n      id: string;/
+    );
+    expect(source).toContain('body: CreateCatDto;');
+    expect(source).toContain(
+      '__send("QUERY", "/cats/search", args, "application/json", config)'
+    );
+    expect(source).toContain(
+      'export function CatsController_events(\n  args: Record<string, never> = {},\n  config?: ClientConfig\n): AsyncIterable<CatEventDto> {'
+    );
+  });
+
+  it('emits handler types for webhooks', () => {
+    expect(source).toContain(
+      'export type CatAdoptedWebhookHandler = (\n  payload: CatDto\n) => void | Promise<void>;'
+    );
+    expect(source).toContain(
+      'export interface WebhookHandlers {\n  catAdopted?: CatAdoptedWebhookHandler;\n}'
+    );
+  });
+
+  it('renders OAS 3.1 type arrays, tuples and maps', () => {
+    const output = generateClient({
+      openapi: '3.1.0',
+      info: { title: 't', version: '1' },
+      paths: {},
+      components: {
+        schemas: {
+          Id: { type: ['string', 'integer', 'null'] },
+          Point: {
+            type: 'array',
+            prefixItems: [{ type: 'number' }, { type: 'number' }],
+            items: false
+          },
+          Labels: {
+            type: 'object',
+            additionalProperties: { type: 'string' }
+          },
+          Pet: {
+            oneOf: [
+              { $ref: '#/components/schemas/Labels' },
+              { type: 'array', items: { type: ['string', 'null'] } }
+            ]
+          }
+        }
+      }
+    });
+    expect(output).toContain('export type Id = string | number | null;');
+    expect(output).toContain('export type Point = [number, number];');
+    expect(output).toContain('export type Labels = Record<string, string>;');
+    expect(output).toContain('export type Pet = Labels | (string | null)[];');
+  });
+
+  it('generates source that type-checks', () => {
+    expect(typeCheck(source)).toEqual([]);
+  });
+
+  it('renames schemas and operations clashing with the runtime', () => {
+    const output = generateClient({
+      openapi: '3.1.0',
+      info: { title: 't', version: '1' },
+      paths: {
+        '/config': {
+          get: {
+            operationId: 'send',
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': {
+                    schema: { $ref: '#/components/schemas/ClientConfig' }
+                  }
+                }
+              }
+            }
+          },
+          put: {
+            operationId: 'configureClient',
+            requestBody: {
+              required: true,
+              content: {
+                'application/json': {
+                  schema: { $ref: '#/components/schemas/ApiError' }
+                }
+              }
+            },
+            responses: { '204': { description: 'No content' } }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          ClientConfig: {
+            type: 'object',
+            properties: { theme: { type: 'string' } }
+          },
+          ApiError: {
+            type: 'object',
+            properties: { code: { type: 'integer' } }
+          }
+        }
+      }
+    });
+
+    expect(output).toContain('export interface ClientConfig2 {');
+    expect(output).toContain('export interface ApiError2 {');
+    expect(output).toContain(
+      'export async function send(\n  args: Record<string, never> = {},\n  config?: ClientConfig\n): Promise<ClientConfig2> {'
+    );
+    expect(output).toContain('export async function configureClient2(');
+    expect(output).toContain('    body: ApiError2;');
+    expect(typeCheck(output)).toEqual([]);
+  });
+
+  it('calls the API through fetch', async () => {
+    const server: Server = createMockServer(document);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const calls: Array<{ url: string; method: string }> = [];
+    try {
+      const client = loadClient(source);
+      client.configureClient({
+        baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        fetch: (url: string, init: RequestInit) => {
+          calls.push({ url, method: init.method });
+          return fetch(url, init);
+        }
+      });
+
+      await expect(
+        client.CatsController_findOne({ path: { id: '1' } })
+      ).resolves.toEqual(expect.objectContaining({ name: 'Tom', age: 3 }));
+      await client.CatsController_findAll({ query: { limit: 2 } });
+      await client.CatsController_create({ body: { name: 'Tom' } });
+
+      const events = [];
+      for await (const event of client.CatsController_events()) {
+        events.push(event);
+      }
+      expect(events).toEqual([
+        { type: 'created' },
+        { type: 'created' },
+        { type: 'created' }
+      ]);
+
+      expect(calls.map(({ method, url }) => `${method} ${url}`)).toEqual([
+        expect.stringMatching(/^GET http:.*\/cats\/1$/),
+        expect.stringMatching(/^GET http:.*\/cats\?limit=2$/),
+        expect.stringMatching(/^POST http:.*\/cats$/),
+        expect.stringMatching(/^GET http:.*\/cats\/events$/)
+      ]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it('rejects with an ApiError on unsuccessful responses', async () => {
+    const client = loadClient(source);
+    client.configureClient({
+      fetch: async () =>
+        new Response(JSON.stringify({ message: 'Not found' }), {
+          status: 404,
+          headers: { 'content-type': 'application/json' }
+        })
+    });
+
+    const error = await client
+      .CatsController_findOne({ path: { id: '1' } })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(client.ApiError);
+    expect(error).toMatchObject({
+      status: 404,
+      body: { message: 'Not found' }
+    });
+  });
+});
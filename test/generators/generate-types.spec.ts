@@ -0,0 +1,123 @@
+import { Controller, Get, INestApplication, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ApiOkResponse, ApiProperty } from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { generateTypes } from '../../lib/generators';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+enum Color {
+  Black = 'black',
+  White = 'white'
+}
+
+class DogDto {
+  @ApiProperty({ enum: ['dog'] })
+  kind: 'dog';
+}
+
+class CatDto {
+  /** Generated identifier */
+  @ApiProperty({ readOnly: true, description: 'Generated identifier' })
+  id: string;
+
+  @ApiProperty({ writeOnly: true })
+  password: string;
+
+  @ApiProperty({ enum: Color, enumName: 'Color' })
+  color: Color;
+
+  @ApiProperty({ enum: Color, enumName: 'Color', isArray: true })
+  palette: Color[];
+
+  @ApiProperty({ type: String, nullable: true })
+  nickname: string | null;
+
+  @ApiProperty({ oneOf: [{ type: 'string' }, { type: 'integer' }] })
+  tag: string | number;
+
+  @ApiProperty({ type: () => DogDto, nullable: true })
+  friend: DogDto | null;
+
+  @ApiProperty({
+    type: 'array',
+    prefixItems: [{ type: 'number' }, { type: 'number' }]
+  })
+  position: [number, number];
+}
+
+@Controller('cats')
+class CatsController {
+  @Get()
+  @ApiOkResponse({ type: CatDto })
+  findOne() {}
+
+  @Get('dog')
+  @ApiOkResponse({ type: DogDto })
+  findDog() {}
+}
+
+@Module({ controllers: [CatsController] })
+class AppModule {}
+
+describe('generateTypes', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('declares every entry of components.schemas', () => {
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().setOpenAPIVersion('3.1.0').build()
+    );
+
+    expect(generateTypes(document)).toEqual(
+      `/* eslint-disable */
+// Generated by nestjs-openapi-next. Do not edit.
+
+export type Color = "black" | "white";
+
+export interface DogDto {
+  kind: "dog";
+}
+
+export interface CatDto {
+  /** Generated identifier */
+  readonly id: string;
+  /** @writeOnly */
+  password: string;
+  color: Color;
+  palette: Color[];
+  nickname: string | null;
+  tag: string | number;
+  friend: DogDto | null;
+  position: [number, number, ...unknown[]];
+}
+`
+    );
+  });
+
+  it('renders OAS 3.0 nullable schemas as unions with null', () => {
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().build()
+    );
+
+    expect(generateTypes(document)).toContain('  nickname: string | null;');
+  });
+
+  it('emits an empty module when there are no schemas', () => {
+    expect(
+      generateTypes(
+        { openapi: '3.1.0', info: { title: 't', version: '1' }, paths: {} },
+        { banner: 'API types' }
+      )
+    ).toBe('/* eslint-disable */\n// API types\n\nexport {};\n');
+  });
+});
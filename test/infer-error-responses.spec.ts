@@ -0,0 +1,162 @@
+import 'reflect-metadata';
+import {
+  ArgumentsHost,
+  Body,
+  CanActivate,
+  Catch,
+  Controller,
+  ExceptionFilter,
+  Get,
+  INestApplication,
+  Module,
+  Param,
+  ParseIntPipe,
+  Post,
+  UseFilters,
+  UseGuards,
+  ValidationPipe
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ApiProperty, ApiResponse } from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerDocumentOptions } from '../lib/interfaces';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('inferErrorResponses', () => {
+  class JwtAuthGuard implements CanActivate {
+    canActivate() {
+      return true;
+    }
+  }
+
+  class RolesGuard implements CanActivate {
+    canActivate() {
+      return true;
+    }
+  }
+
+  class AdminRolesGuard extends RolesGuard {}
+
+  @Catch()
+  class ConflictFilter implements ExceptionFilter {
+    catch(exception: unknown, host: ArgumentsHost) {
+      return host;
+    }
+  }
+
+  class CreateCatDto {
+    @ApiProperty()
+    name: string;
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @Controller('cats')
+  class CatsController {
+    @Get(':id')
+    findOne(@Param('id', ParseIntPipe) id: number) {
+      return id;
+    }
+
+    @Post()
+    @UseGuards(AdminRolesGuard)
+    @UseFilters(ConflictFilter)
+    @ApiResponse({ status: 401, description: 'Token expired' })
+    create(@Body() cat: CreateCatDto) {
+      return cat;
+    }
+  }
+
+  @Controller('health')
+  class HealthController {
+    @Get(':probe')
+    check(@Param('probe', ParseIntPipe) probe: number) {
+      return probe;
+    }
+  }
+
+  @Module({ controllers: [CatsController, HealthController] })
+  class AppModule {}
+
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    app.useGlobalPipes(new ValidationPipe());
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const createDocument = (options: SwaggerDocumentOptions) =>
+    SwaggerModule.createDocument(app, new DocumentBuilder().build(), options);
+
+  it('is disabled by default', () => {
+    const document = createDocument({});
+
+    expect(Object.keys(document.paths['/cats/{id}'].get.responses)).toEqual([
+      '200'
+    ]);
+  });
+
+  it('documents the responses of guards and pipes', () => {
+    const document = createDocument({ inferErrorResponses: true });
+    const responses = document.paths['/cats/{id}'].get.responses;
+
+    expect(Object.keys(responses)).toEqual(['200', '400', '401', '403']);
+    expect(responses['401']).toEqual({ description: 'Unauthorized' });
+    expect(responses['403']).toEqual({ description: 'Forbidden' });
+    expect(responses['400']).toEqual({
+      description: 'Validation failed',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/ValidationErrorResponse' }
+        }
+      }
+    });
+    expect(document.components.schemas.ValidationErrorResponse).toMatchObject({
+      type: 'object',
+      properties: {
+        statusCode: { type: 'integer' },
+        message: { type: 'array', items: { type: 'string' } },
+        error: { type: 'string' }
+      }
+    });
+  });
+
+  it('only documents the enhancers applied to the route', () => {
+    const document = createDocument({ inferErrorResponses: true });
+
+    expect(
+      Object.keys(document.paths['/health/{probe}'].get.responses)
+    ).toEqual(['200', '400']);
+  });
+
+  it('lets explicitly declared responses take precedence', () => {
+    const document = createDocument({ inferErrorResponses: true });
+    const responses = document.paths['/cats'].post.responses;
+
+    expect(Object.keys(responses)).toEqual(['400', '401', '403']);
+    expect(responses['401']).toEqual({ description: 'Token expired' });
+  });
+
+  it('supports custom mappings keyed by class name', () => {
+    const document = createDocument({
+      inferErrorResponses: true,
+      errorResponseMappings: {
+        RolesGuard: { status: 403, description: 'Missing role' },
+        ConflictFilter: [{ status: 409, description: 'Conflict' }],
+        ValidationPipe: []
+      }
+    });
+    const responses = document.paths['/cats'].post.responses;
+
+    expect(Object.keys(responses)).toEqual(['401', '403', '409']);
+    expect(responses['403']).toEqual({ description: 'Missing role' });
+    expect(responses['409']).toEqual({ description: 'Conflict' });
+    expect(document.paths['/cats/{id}'].get.responses['400']).toEqual({
+      description: 'Bad Request'
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Logger,
+  Module,
+  Res
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import * as request from 'supertest';
+import { ApiOkResponse, ApiProperty } from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import {
+  OpenApiResponseValidationInterceptor,
+  OpenApiResponseValidationInterceptorOptions
+} from '../../lib/interceptors';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+class CatDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ type: 'integer' })
+  age: number;
+}
+
+@Controller('cats')
+class CatsController {
+  @Get('valid')
+  @ApiOkResponse({ type: CatDto })
+  valid() {
+    const cat = new CatDto();
+    cat.name = 'Tom';
+    cat.age = 3;
+    return cat;
+  }
+
+  @Get('missing')
+  @ApiOkResponse({ type: CatDto })
+  missing() {
+    return { name: 'Tom' };
+  }
+
+  @Get('extra')
+  @ApiOkResponse({
+    schema: {
+      type: 'object',
+      properties: { name: { type: 'string' } },
+      additionalProperties: false
+    }
+  })
+  extra() {
+    return { name: 'Tom', secret: 'x' };
+  }
+
+  @Get('teapot')
+  @ApiOkResponse({ type: CatDto })
+  teapot(@Res({ passthrough: true }) res: { status(code: number): void }) {
+    res.status(418);
+    return { name: 'Tom', age: 3 };
+  }
+}
+
+@Module({ controllers: [CatsController] })
+class AppModule {}
+
+describe('OpenApiResponseValidationInterceptor', () => {
+  let app: INestApplication;
+
+  async function createApp(
+    options: OpenApiResponseValidationInterceptorOptions
+  ) {
+    app = await NestFactory.create(AppModule, { logger: false });
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().build()
+    );
+    app.useGlobalInterceptors(
+      new OpenApiResponseValidationInterceptor(document, options)
+    );
+    await app.init();
+  }
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  describe('in error mode', () => {
+    beforeEach(() => createApp({ enabled: true, mode: 'error' }));
+
+    it('passes documented responses through', async () => {
+      await request(app.getHttpServer())
+        .get('/cats/valid')
+        .expect(200, { name: 'Tom', age: 3 });
+    });
+
+    it('fails responses missing required properties', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/cats/missing')
+        .expect(500);
+
+      expect(response.body).toEqual({
+        statusCode: 500,
+        message: 'Response validation failed',
+        errors: [
+          { keyword: 'required', message: 'is required', pointer: '/body/age' }
+        ]
+      });
+    });
+
+    it('fails responses with extra properties', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/cats/extra')
+        .expect(500);
+
+      expect(response.body.errors).toEqual([
+        {
+          keyword: 'additionalProperties',
+          message: 'is not allowed',
+          pointer: '/body/secret'
+        }
+      ]);
+    });
+
+    it('fails undocumented status codes', async () => {
+      const response = await request(app.getHttpServer())
+        .get('/cats/teapot')
+        .expect(500);
+
+      expect(response.body.errors).toEqual([
+        {
+          keyword: 'status',
+          message: 'status 418 is not documented',
+          pointer: '/status'
+        }
+      ]);
+    });
+  });
+
+  describe('in warn mode', () => {
+    beforeEach(() => createApp({ enabled: true }));
+
+    it('logs mismatches and sends the response', async () => {
+      const warn = jest
+        .spyOn(Logger.prototype, 'warn')
+        .mockImplementation(() => undefined);
+
+      await request(app.getHttpServer())
+        .get('/cats/missing')
+        .expect(200, { name: 'Tom' });
+
+      expect(warn).toHaveBeenCalledWith(
+        'CatsController.missing: /body/age is required'
+      );
+      warn.mockRestore();
+    });
+  });
+
+  describe('when disabled', () => {
+    beforeEach(() => createApp({ enabled: false, mode: 'error' }));
+
+    it('does not check responses', async () => {
+      await request(app.getHttpServer()).get('/cats/missing').expect(200);
+    });
+
+    it('does not require a document created by SwaggerModule', () => {
+      expect(
+        () =>
+          new OpenApiResponseValidationInterceptor(
+            { openapi: '3.0.0', info: { title: '', version: '' }, paths: {} },
+            { enabled: false }
+          )
+      ).not.toThrow();
+    });
+  });
+});
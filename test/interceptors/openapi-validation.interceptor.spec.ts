@@ -0,0 +1,166 @@
+import {
+  Body,
+  Controller,
+  Get,
+  INestApplication,
+  Module,
+  Param,
+  Post,
+  Query
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import * as request from 'supertest';
+import {
+  ApiHeader,
+  ApiProperty,
+  ApiPropertyOptional,
+  ApiQuery
+} from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { OpenApiValidationInterceptor } from '../../lib/interceptors';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+class OwnerDto {
+  @ApiProperty({ minLength: 2 })
+  name: string;
+}
+
+class CreateCatDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ minimum: 0, type: 'integer' })
+  age: number;
+
+  @ApiPropertyOptional({ type: OwnerDto, nullable: true })
+  owner?: OwnerDto | null;
+
+  @ApiProperty({ readOnly: true })
+  id: string;
+}
+
+@Controller('cats')
+class CatsController {
+  @Get(':id')
+  @ApiQuery({ name: 'limit', type: 'integer', required: false, maximum: 10 })
+  @ApiQuery({ name: 'tags', enum: ['a', 'b'], isArray: true, required: false })
+  @ApiHeader({ name: 'X-Tenant', required: true })
+  findOne(@Param('id') id: string, @Query('limit') limit: string) {
+    return { id, limit };
+  }
+
+  @Post()
+  create(@Body() body: CreateCatDto) {
+    return body;
+  }
+}
+
+@Module({ controllers: [CatsController] })
+class AppModule {}
+
+describe('OpenApiValidationInterceptor', () => {
+  for (const openapi of ['3.0.0', '3.1.0']) {
+    describe(`OAS ${openapi}`, () => {
+      let app: INestApplication;
+
+      beforeAll(async () => {
+        app = await NestFactory.create(AppModule, { logger: false });
+        const document = SwaggerModule.createDocument(
+          app,
+          new DocumentBuilder().setOpenAPIVersion(openapi).build()
+        );
+        app.useGlobalInterceptors(new OpenApiValidationInterceptor(document));
+        await app.init();
+      });
+
+      afterAll(async () => {
+        await app.close();
+      });
+
+      it('passes valid requests through', async () => {
+        await request(app.getHttpServer())
+          .get('/cats/1?limit=5&tags=a&tags=b')
+          .set('X-Tenant', 'acme')
+          .expect(200);
+        await request(app.getHttpServer())
+          .post('/cats')
+          .send({ name: 'Tom', age: 3, owner: null })
+          .expect(201);
+      });
+
+      it('rejects invalid parameters with JSON pointers', async () => {
+        const response = await request(app.getHttpServer())
+          .get('/cats/1?limit=11&tags=c')
+          .expect(400);
+
+        expect(response.body).toEqual({
+          statusCode: 400,
+          message: 'Request validation failed',
+          errors: [
+            {
+              keyword: 'maximum',
+              message: 'must be less than or equal to 10',
+              pointer: '/query/limit'
+            },
+            {
+              keyword: 'required',
+              message: 'is required',
+              pointer: '/header/X-Tenant'
+            },
+            {
+              keyword: 'enum',
+              message: 'must be one of "a", "b"',
+              pointer: '/query/tags/0'
+            }
+          ]
+        });
+      });
+
+      it('rejects invalid bodies with JSON pointers', async () => {
+        const response = await request(app.getHttpServer())
+          .post('/cats')
+          .send({ name: 1, age: -1.5, owner: { name: 'x' } })
+          .expect(400);
+
+        expect(response.body.errors).toEqual([
+          {
+            keyword: 'type',
+            message: 'must be string',
+            pointer: '/body/name'
+          },
+          {
+            keyword: 'type',
+            message: 'must be integer',
+            pointer: '/body/age'
+          },
+          {
+            keyword: 'minLength',
+            message: 'must not have fewer than 2 characters',
+            pointer: '/body/owner/name'
+          }
+        ]);
+      });
+
+      it('requires the request body', async () => {
+        const response = await request(app.getHttpServer())
+          .post('/cats')
+          .expect(400);
+
+        expect(response.body.errors).toEqual([
+          { keyword: 'required', message: 'is required', pointer: '/body' }
+        ]);
+      });
+    });
+  }
+
+  it('requires a document created by SwaggerModule', () => {
+    expect(
+      () =>
+        new OpenApiValidationInterceptor({
+          openapi: '3.0.0',
+          info: { title: '', version: '' },
+          paths: {}
+        })
+    ).toThrow(/SwaggerModule\.createDocument/);
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  Controller,
+  Get,
+  INestApplication,
+  Module,
+  Param,
+  Post
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import * as request from 'supertest';
+import {
+  ApiCreatedResponse,
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiProperty,
+  ApiStreamingResponse
+} from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { OpenAPIObject } from '../../lib/interfaces';
+import { createMockServer } from '../../lib/mock-server';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+class CatDto {
+  @ApiProperty({ example: 'Tom' })
+  name: string;
+
+  @ApiProperty({ type: 'integer', minimum: 1 })
+  age: number;
+
+  @ApiProperty({ format: 'date-time' })
+  createdAt: Date;
+}
+
+class CatEventDto {
+  @ApiProperty({ enum: ['created', 'deleted'] })
+  type: string;
+}
+
+@Controller('cats')
+class CatsController {
+  @Get()
+  @ApiOkResponse({ type: [CatDto] })
+  findAll() {}
+
+  @Get('events')
+  @ApiStreamingResponse({
+    status: 200,
+    contentType: 'text/event-stream',
+    type: () => CatEventDto
+  })
+  events() {}
+
+  @Get(':id')
+  @ApiOkResponse({
+    type: CatDto,
+    examples: {
+      garfield: {
+        summary: 'Garfield',
+        value: { name: 'Garfield', age: 45, createdAt: '1978-06-19' }
+      }
+    }
+  })
+  @ApiNotFoundResponse({ description: 'Not found' })
+  findOne(@Param('id') id: string) {
+    return id;
+  }
+
+  @Post()
+  @ApiCreatedResponse({ type: CatDto })
+  create() {}
+}
+
+@Module({ controllers: [CatsController] })
+class AppModule {}
+
+describe('createMockServer', () => {
+  let document: OpenAPIObject;
+
+  beforeAll(async () => {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    document = SwaggerModule.createDocument(app, new DocumentBuilder().build());
+    await app.close();
+  });
+
+  it('synthesizes responses from the schema', async () => {
+    await request(createMockServer(document))
+      .get('/cats')
+      .expect(200, [
+        { name: 'Tom', age: 1, createdAt: '1970-01-01T00:00:00.000Z' }
+      ]);
+    await request(createMockServer(document)).post('/cats').expect(201, {
+      name: 'Tom',
+      age: 1,
+      createdAt: '1970-01-01T00:00:00.000Z'
+    });
+  });
+
+  it('prefers documented examples and honors the Prefer header', async () => {
+    await request(createMockServer(document))
+      .get('/cats/1')
+      .expect(200, { name: 'Garfield', age: 45, createdAt: '1978-06-19' });
+    await request(createMockServer(document))
+      .get('/cats/1')
+      .set('Prefer', 'code=404')
+      .expect(404, '');
+  });
+
+  it('mocks streaming responses as SSE streams', async () => {
+    const response = await request(
+      createMockServer(document, {
+        streamItemCount: 2
+      })
+    )
+      .get('/cats/events')
+      .expect(200)
+      .expect('Content-Type', 'text/event-stream');
+
+    expect(response.text).toBe(
+      'data: {"type":"created"}\n\ndata: {"type":"created"}\n\n'
+    );
+  });
+
+  it('answers 404 and 405 for undocumented routes', async () => {
+    await request(createMockServer(document)).get('/dogs').expect(404);
+    await request(createMockServer(document))
+      .delete('/cats')
+      .expect(405)
+      .expect('Allow', 'GET, POST');
+  });
+});
+
+describe('SwaggerModule.setupMock', () => {
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().build()
+    );
+    SwaggerModule.setupMock('mock', app, document);
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('serves the mock under the given path', async () => {
+    await request(app.getHttpServer())
+      .get('/mock/cats/42')
+      .expect(200, { name: 'Garfield', age: 45, createdAt: '1978-06-19' });
+  });
+});
@@ -0,0 +1,140 @@
+import 'reflect-metadata';
+import { Controller, Get, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiCallbacks,
+  ApiExcludeEndpoint,
+  ApiExtraModels,
+  ApiOkResponse,
+  ApiProperty,
+  ApiSchema
+} from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('pruneUnreachableSchemas', () => {
+  class TagDto {
+    @ApiProperty()
+    name: string;
+  }
+
+  class CatDto {
+    @ApiProperty({ type: () => [TagDto] })
+    tags: TagDto[];
+  }
+
+  class SecretDto {
+    @ApiProperty()
+    value: string;
+  }
+
+  class EventDto {
+    @ApiProperty()
+    type: string;
+  }
+
+  class PublicAddressDto {
+    @ApiProperty()
+    street: string;
+  }
+
+  @ApiSchema({ name: 'PublicProfile' })
+  class PublicProfileDto {
+    @ApiProperty({ type: () => PublicAddressDto })
+    address: PublicAddressDto;
+  }
+
+  class OrphanDto {
+    @ApiProperty()
+    value: string;
+  }
+
+  @ApiExtraModels(OrphanDto, PublicProfileDto, EventDto)
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    @ApiOkResponse({ type: CatDto })
+    findAll() {
+      return [];
+    }
+
+    @Get('secret')
+    @ApiExcludeEndpoint()
+    @ApiOkResponse({ type: SecretDto })
+    secret() {
+      return {};
+    }
+
+    @Get('subscribe')
+    @ApiCallbacks({
+      name: 'onEvent',
+      callbackUrl: '{$request.body#/callbackUrl}',
+      method: 'post',
+      requestBody: { type: EventDto },
+      expectedResponse: { status: 200 }
+    })
+    subscribe() {
+      return undefined;
+    }
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  const config = new DocumentBuilder().setTitle('Cats').build();
+
+  let app: Awaited<ReturnType<typeof NestFactory.create>>;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  it('keeps every schema by default', () => {
+    const document = SwaggerModule.createDocument(app, config, {
+      extraModels: [SecretDto]
+    });
+
+    expect(Object.keys(document.components.schemas)).toEqual(
+      expect.arrayContaining(['OrphanDto', 'SecretDto', 'PublicProfile'])
+    );
+  });
+
+  it('removes schemas unreachable from operations and callbacks', () => {
+    const onPrune = jest.fn();
+    const document = SwaggerModule.createDocument(app, config, {
+      extraModels: [SecretDto],
+      pruneUnreachableSchemas: { onPrune }
+    });
+
+    expect(Object.keys(document.components.schemas).sort()).toEqual([
+      'CatDto',
+      'EventDto',
+      'TagDto'
+    ]);
+    expect(onPrune.mock.calls[0][0].sort()).toEqual([
+      'OrphanDto',
+      'PublicAddressDto',
+      'PublicProfile',
+      'SecretDto'
+    ]);
+  });
+
+  it('keeps allow-listed models and their dependencies', () => {
+    const document = SwaggerModule.createDocument(app, config, {
+      pruneUnreachableSchemas: { keep: [PublicProfileDto, 'OrphanDto'] }
+    });
+
+    expect(Object.keys(document.components.schemas).sort()).toEqual([
+      'CatDto',
+      'EventDto',
+      'OrphanDto',
+      'PublicAddressDto',
+      'PublicProfile',
+      'TagDto'
+    ]);
+  });
+});
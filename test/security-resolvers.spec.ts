@@ -0,0 +1,132 @@
+import 'reflect-metadata';
+import {
+  CanActivate,
+  Controller,
+  Get,
+  INestApplication,
+  Module,
+  Post,
+  SetMetadata,
+  UseGuards
+} from '@nestjs/common';
+import { APP_GUARD, NestFactory } from '@nestjs/core';
+import { ApiSecurity } from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerDocumentOptions } from '../lib/interfaces';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('securityResolvers', () => {
+  const Public = () => SetMetadata('isPublic', true);
+
+  class JwtAuthGuard implements CanActivate {
+    canActivate() {
+      return true;
+    }
+  }
+
+  class ApiKeyGuard implements CanActivate {
+    canActivate() {
+      return true;
+    }
+  }
+
+  class PartnerApiKeyGuard extends ApiKeyGuard {}
+
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    findAll() {}
+
+    @Get('featured')
+    @Public()
+    findFeatured() {}
+
+    @Post()
+    @UseGuards(PartnerApiKeyGuard)
+    create() {}
+
+    @Post('import')
+    @ApiSecurity('oauth2', ['cats:write'])
+    import() {}
+  }
+
+  @Public()
+  @Controller('health')
+  class HealthController {
+    @Get()
+    check() {}
+  }
+
+  @Module({
+    controllers: [CatsController, HealthController],
+    providers: [{ provide: APP_GUARD, useClass: JwtAuthGuard }]
+  })
+  class AppModule {}
+
+  let app: INestApplication;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  const createDocument = (options: SwaggerDocumentOptions) =>
+    SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder()
+        .addBearerAuth()
+        .addSecurityRequirements('bearer')
+        .build(),
+      options
+    );
+
+  const securityResolvers = {
+    JwtAuthGuard: { bearer: [] },
+    ApiKeyGuard: [{ api_key: [] }, { session: [] }]
+  };
+
+  it('is disabled by default', () => {
+    const document = createDocument({});
+
+    expect(document.paths['/cats'].get).not.toHaveProperty('security');
+    expect(document.paths['/health'].get).not.toHaveProperty('security');
+  });
+
+  it('emits the requirements of the guards applied to each operation', () => {
+    const document = createDocument({ securityResolvers });
+
+    expect(document.paths['/cats'].get.security).toEqual([{ bearer: [] }]);
+    expect(document.paths['/cats'].post.security).toEqual([
+      { bearer: [], api_key: [] },
+      { bearer: [], session: [] }
+    ]);
+  });
+
+  it('keeps the requirements declared with @ApiSecurity()', () => {
+    const document = createDocument({ securityResolvers });
+
+    expect(document.paths['/cats/import'].post.security).toEqual([
+      { oauth2: ['cats:write'] }
+    ]);
+  });
+
+  it('emits an empty requirement list for public operations', () => {
+    const document = createDocument({ securityResolvers });
+
+    expect(document.paths['/cats/featured'].get.security).toEqual([]);
+    expect(document.paths['/health'].get.security).toEqual([]);
+  });
+
+  it('supports custom public metadata keys', () => {
+    const document = createDocument({
+      securityResolvers,
+      publicMetadataKeys: ['skipAuth']
+    });
+
+    expect(document.paths['/health'].get.security).toEqual([{ bearer: [] }]);
+  });
+});
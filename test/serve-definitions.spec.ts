@@ -0,0 +1,134 @@
+import { Controller, Get, INestApplication, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import * as jsyaml from 'js-yaml';
+import * as request from 'supertest';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerCustomOptions } from '../lib/interfaces';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('Served definitions', () => {
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    findAll() {}
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  let app: INestApplication;
+  let createDocument: jest.Mock;
+
+  const setup = async (options: SwaggerCustomOptions = {}) => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().setTitle('Cats').build()
+    );
+    createDocument = jest.fn(() => document);
+    SwaggerModule.setup('docs', app, createDocument, {
+      ui: false,
+      ...options
+    });
+    await app.init();
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('serves strong ETags and answers If-None-Match with 304', async () => {
+    await setup({ cacheControl: 'public, max-age=300' });
+
+    const response = await request(app.getHttpServer())
+      .get('/docs-json')
+      .expect(200)
+      .expect('Cache-Control', 'public, max-age=300')
+      .expect('Vary', 'Accept');
+    const etag = response.headers.etag;
+    expect(etag).toMatch(/^"[\w-]+"$/);
+
+    await request(app.getHttpServer())
+      .get('/docs-json')
+      .set('If-None-Match', `W/"other", ${etag}`)
+      .expect(304)
+      .expect('ETag', etag);
+    await request(app.getHttpServer())
+      .get('/docs-yaml')
+      .expect(200)
+      .expect((res) => expect(res.headers.etag).not.toBe(etag));
+    expect(createDocument).toHaveBeenCalledTimes(1);
+  });
+
+  it('negotiates the format with the Accept header', async () => {
+    await setup();
+
+    const yaml = await request(app.getHttpServer())
+      .get('/docs-json')
+      .set('Accept', 'application/vnd.oai.openapi, application/json;q=0.5')
+      .expect(200)
+      .expect('Content-Type', /^application\/vnd\.oai\.openapi/);
+    expect((jsyaml.load(yaml.text) as any).info.title).toBe('Cats');
+
+    await request(app.getHttpServer())
+      .get('/docs-yaml')
+      .set('Accept', 'application/json')
+      .expect(200)
+      .expect('Content-Type', /^application\/json/)
+      .expect((res) => expect(res.body.info.title).toBe('Cats'));
+    await request(app.getHttpServer())
+      .get('/docs-yaml')
+      .set('Accept', 'text/html, */*')
+      .expect(200)
+      .expect('Content-Type', /^text\/yaml/);
+  });
+
+  it('only serves the formats enabled by the raw option', async () => {
+    await setup({ raw: ['json'] });
+
+    await request(app.getHttpServer())
+      .get('/docs-json')
+      .set('Accept', 'application/yaml')
+      .expect(200)
+      .expect('Content-Type', /^application\/json/);
+  });
+
+  it('compresses the definitions', async () => {
+    await setup({ compression: true });
+
+    for (const encoding of ['br', 'gzip']) {
+      await request(app.getHttpServer())
+        .get('/docs-json')
+        .set('Accept-Encoding', `${encoding}, identity;q=0.5`)
+        .expect(200)
+        .expect('Content-Encoding', encoding)
+        .expect('Vary', 'Accept, Accept-Encoding')
+        .expect((res) => expect(res.body.info.title).toBe('Cats'));
+    }
+    await request(app.getHttpServer())
+      .get('/docs-json')
+      .set('Accept-Encoding', 'identity')
+      .expect(200)
+      .expect((res) => expect(res.headers['content-encoding']).toBeUndefined());
+  });
+
+  it('serializes patched documents on every request', async () => {
+    await setup({
+      patchDocumentOnRequest: (req: any, _res, document) => ({
+        ...document,
+        info: { ...document.info, title: `Cats for ${req.query.audience}` }
+      })
+    });
+
+    const first = await request(app.getHttpServer())
+      .get('/docs-json?audience=partners')
+      .expect(200);
+    const second = await request(app.getHttpServer())
+      .get('/docs-json?audience=staff')
+      .expect(200);
+
+    expect(first.body.info.title).toBe('Cats for partners');
+    expect(second.body.info.title).toBe('Cats for staff');
+    expect(first.headers.etag).not.toBe(second.headers.etag);
+  });
+});
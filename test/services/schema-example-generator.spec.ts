@@ -0,0 +1,85 @@
+import { OpenAPIObject } from '../../lib/interfaces';
+import { SchemaExampleGenerator } from '../../lib/services/schema-example-generator';
+
+describe('SchemaExampleGenerator', () => {
+  const document: OpenAPIObject = {
+    openapi: '3.1.0',
+    info: { title: '', version: '' },
+    paths: {},
+    components: {
+      schemas: {
+        Node: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid', readOnly: true },
+            password: { type: 'string', writeOnly: true },
+            parent: {
+              anyOf: [{ $ref: '#/components/schemas/Node' }, { type: 'null' }]
+            },
+            children: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/Node' }
+            }
+          }
+        }
+      }
+    }
+  };
+  const generator = new SchemaExampleGenerator(document);
+
+  it('prefers explicit values over synthesized ones', () => {
+    expect(generator.generate({ type: 'string', example: 'x' })).toBe('x');
+    expect(generator.generate({ type: 'string', examples: ['y'] })).toBe('y');
+    expect(generator.generate({ type: 'integer', default: 5 })).toBe(5);
+    expect(generator.generate({ type: 'string', enum: ['a', 'b'] })).toBe('a');
+  });
+
+  it('synthesizes values within the schema bounds', () => {
+    expect(generator.generate({ type: 'string', minLength: 8 })).toBe(
+      'stringxx'
+    );
+    expect(
+      generator.generate({ type: 'integer', minimum: 3, maximum: 9 })
+    ).toBe(3);
+    expect(generator.generate({ type: 'number', exclusiveMinimum: 1 })).toBe(
+      1.1
+    );
+    expect(
+      generator.generate({
+        type: 'array',
+        items: { type: ['boolean', 'null'] },
+        minItems: 2
+      })
+    ).toEqual([true, true]);
+  });
+
+  it('generates strings matching the pattern and tuples', () => {
+    expect(
+      generator.generate({ type: 'string', pattern: '^[A-Z]{2}-\\d{3}$' })
+    ).toBe('AA-000');
+    expect(
+      generator.generate({ type: 'string', pattern: '^(cat|dog)s?$' })
+    ).toBe('cat');
+    expect(
+      generator.generate({
+        type: 'array',
+        prefixItems: [{ type: 'number' }, { const: 'x' }],
+        items: { type: 'boolean' },
+        minItems: 3
+      })
+    ).toEqual([0, 'x', true]);
+  });
+
+  it('stops at recursive references and honors the direction', () => {
+    const node = { $ref: '#/components/schemas/Node' };
+
+    expect(generator.generate(node)).toEqual({
+      id: '00000000-0000-4000-8000-000000000000',
+      children: []
+    });
+    expect(generator.generate(node, 'request')).toEqual({
+      password: 'string',
+      children: []
+    });
+  });
+});
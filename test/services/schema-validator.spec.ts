@@ -0,0 +1,125 @@
+import { OpenAPIObject } from '../../lib/interfaces';
+import { SchemaValidator } from '../../lib/services/schema-validator';
+
+describe('SchemaValidator', () => {
+  const document: OpenAPIObject = {
+    openapi: '3.1.0',
+    info: { title: '', version: '' },
+    paths: {},
+    components: {
+      schemas: {
+        Cat: {
+          type: 'object',
+          properties: {
+            kind: { type: 'string' },
+            id: { type: 'string', readOnly: true },
+            lives: { type: 'integer', minimum: 1, maximum: 9 }
+          },
+          required: ['kind', 'id', 'lives'],
+          additionalProperties: false
+        },
+        Dog: {
+          type: 'object',
+          properties: {
+            kind: { type: 'string' },
+            password: { type: 'string', writeOnly: true }
+          },
+          required: ['kind', 'password']
+        },
+        Pet: {
+          oneOf: [
+            { $ref: '#/components/schemas/Cat' },
+            { $ref: '#/components/schemas/Dog' }
+          ],
+          discriminator: {
+            propertyName: 'kind',
+            mapping: {
+              cat: '#/components/schemas/Cat',
+              dog: '#/components/schemas/Dog'
+            }
+          }
+        }
+      }
+    }
+  };
+  const validator = new SchemaValidator(document);
+
+  it('understands nullable in both OAS 3.0 and 3.1 forms', () => {
+    expect(
+      validator.validate({ type: 'string', nullable: true }, null)
+    ).toEqual([]);
+    expect(validator.validate({ type: ['string', 'null'] }, null)).toEqual([]);
+    expect(
+      validator.validate(
+        { anyOf: [{ $ref: '#/components/schemas/Cat' }, { type: 'null' }] },
+        { kind: 'cat', lives: 10 },
+        ['body']
+      )
+    ).toEqual([
+      {
+        keyword: 'maximum',
+        message: 'must be less than or equal to 9',
+        pointer: '/body/lives'
+      }
+    ]);
+    expect(validator.validate({ type: 'string' }, null)).toEqual([
+      { keyword: 'type', message: 'must be string', pointer: '' }
+    ]);
+  });
+
+  it('skips readOnly properties in requests and writeOnly ones in responses', () => {
+    const cat = { $ref: '#/components/schemas/Cat' };
+    const dog = { $ref: '#/components/schemas/Dog' };
+
+    expect(validator.validate(cat, { kind: 'cat', lives: 1 })).toEqual([]);
+    expect(
+      validator.validate(cat, { kind: 'cat', lives: 1 }, [], 'response')
+    ).toEqual([
+      { keyword: 'required', message: 'is required', pointer: '/id' }
+    ]);
+    expect(validator.validate(dog, { kind: 'dog' }, [], 'response')).toEqual(
+      []
+    );
+  });
+
+  it('validates discriminated unions against the mapped schema', () => {
+    const pet = { $ref: '#/components/schemas/Pet' };
+
+    expect(validator.validate(pet, { kind: 'dog', password: 'x' })).toEqual([]);
+    expect(
+      validator.validate(pet, { kind: 'cat', lives: 1, color: 'black' })
+    ).toEqual([
+      {
+        keyword: 'additionalProperties',
+        message: 'is not allowed',
+        pointer: '/color'
+      }
+    ]);
+    expect(validator.validate(pet, { kind: 'cow' })).toEqual([
+      {
+        keyword: 'discriminator',
+        message: 'must be one of the mapped values',
+        pointer: '/kind'
+      }
+    ]);
+  });
+
+  it('supports OAS 3.0 boolean and OAS 3.1 numeric exclusive bounds', () => {
+    expect(
+      validator.validate({ minimum: 0, exclusiveMinimum: true }, 0)
+    ).toEqual([
+      {
+        keyword: 'exclusiveMinimum',
+        message: 'must be greater than 0',
+        pointer: ''
+      }
+    ]);
+    expect(validator.validate({ exclusiveMaximum: 10 }, 10)).toEqual([
+      {
+        keyword: 'exclusiveMaximum',
+        message: 'must be less than 10',
+        pointer: ''
+      }
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+import 'reflect-metadata';
+import {
+  Controller,
+  Delete,
+  Get,
+  Module,
+  Patch,
+  Post,
+  Type
+} from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiNotFoundResponse,
+  ApiOkResponse,
+  ApiProperty,
+  ApiTags
+} from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SchemaObject } from '../lib/interfaces/open-api-spec.interface';
+import { SwaggerModule } from '../lib/swagger-module';
+
+describe('sortOutput', () => {
+  class ZebraDto {
+    @ApiProperty()
+    stripes: number;
+
+    @ApiProperty()
+    name: string;
+  }
+
+  class AntDto {
+    @ApiProperty()
+    legs: number;
+  }
+
+  @ApiTags('zebras')
+  @Controller('zebras')
+  class ZebrasController {
+    @Patch()
+    update() {
+      return undefined;
+    }
+
+    @Delete()
+    remove() {
+      return undefined;
+    }
+
+    @Get()
+    @ApiNotFoundResponse()
+    @ApiOkResponse({ type: ZebraDto })
+    findAll() {
+      return [];
+    }
+  }
+
+  @ApiTags('ants')
+  @Controller('ants')
+  class AntsController {
+    @Post()
+    create() {
+      return undefined;
+    }
+
+    @Get()
+    @ApiOkResponse({ type: AntDto })
+    findAll() {
+      return [];
+    }
+  }
+
+  @Module({ controllers: [ZebrasController, AntsController] })
+  class ZebrasFirstModule {}
+
+  @Module({ controllers: [AntsController, ZebrasController] })
+  class AntsFirstModule {}
+
+  const config = new DocumentBuilder()
+    .setTitle('Animals')
+    .setVersion('1.0')
+    .addServer('https://example.com')
+    .addTag('zebras')
+    .addTag('ants')
+    .build();
+
+  const createDocument = async (module: Type<unknown>, sortOutput: boolean) => {
+    const app = await NestFactory.create(module, { logger: false });
+    const document = SwaggerModule.createDocument(app, config, {
+      sortOutput
+    });
+    await app.close();
+    return document;
+  };
+
+  it('produces the same output regardless of module registration order', async () => {
+    const first = await createDocument(ZebrasFirstModule, true);
+    const second = await createDocument(AntsFirstModule, true);
+
+    expect(JSON.stringify(first)).toEqual(JSON.stringify(second));
+  });
+
+  it('uses a spec-aware key order', async () => {
+    const document = await createDocument(ZebrasFirstModule, true);
+
+    expect(Object.keys(document)).toEqual([
+      'openapi',
+      'info',
+      'servers',
+      'paths',
+      'components',
+      'tags',
+      'x-tagGroups'
+    ]);
+    expect(Object.keys(document.info)).toEqual([
+      'title',
+      'description',
+      'contact',
+      'version'
+    ]);
+    expect(Object.keys(document.paths)).toEqual(['/ants', '/zebras']);
+    expect(Object.keys(document.paths['/zebras'])).toEqual([
+      'get',
+      'delete',
+      'patch'
+    ]);
+    expect(Object.keys(document.paths['/zebras'].get.responses)).toEqual([
+      '200',
+      '404'
+    ]);
+    expect(Object.keys(document.components.schemas)).toEqual([
+      'AntDto',
+      'ZebraDto'
+    ]);
+    expect(
+      Object.keys(
+        (document.components.schemas.ZebraDto as SchemaObject).properties
+      )
+    ).toEqual(['stripes', 'name']);
+    expect(document.tags.map((tag) => tag.name)).toEqual(['ants', 'zebras']);
+    expect(document['x-tagGroups'].map((group) => group.name)).toEqual([
+      'ants',
+      'zebras'
+    ]);
+  });
+
+  it('keeps the scan order when disabled', async () => {
+    const document = await createDocument(ZebrasFirstModule, false);
+
+    expect(Object.keys(document.paths)).toEqual(['/zebras', '/ants']);
+  });
+});
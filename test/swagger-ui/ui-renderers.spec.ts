@@ -0,0 +1,107 @@
+import { Controller, Get, INestApplication, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import * as request from 'supertest';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { SwaggerCustomOptions } from '../../lib/interfaces';
+import { SwaggerModule } from '../../lib/swagger-module';
+
+jest.mock('../../lib/swagger-ui/ui-renderers', () => ({
+  ...jest.requireActual('../../lib/swagger-ui/ui-renderers'),
+  getUiRendererAssetAbsoluteFSPath: (renderer: string) =>
+    renderer === 'rapidoc' ? __filename : undefined
+}));
+
+@Controller('cats')
+class CatsController {
+  @Get()
+  findAll() {}
+}
+
+@Module({ controllers: [CatsController] })
+class AppModule {}
+
+describe('UI renderers', () => {
+  let app: INestApplication;
+
+  const setup = async (options: SwaggerCustomOptions) => {
+    app = await NestFactory.create(AppModule, { logger: false });
+    const document = SwaggerModule.createDocument(
+      app,
+      new DocumentBuilder().setTitle('Cats').build()
+    );
+    SwaggerModule.setup('docs', app, document, options);
+    await app.init();
+  };
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('serves Redoc from a CDN and loads the JSON definition', async () => {
+    await setup({ ui: 'redoc', redocOptions: { hideDownloadButton: true } });
+
+    const { text } = await request(app.getHttpServer())
+      .get('/docs')
+      .expect(200)
+      .expect('Content-Type', /text\/html/);
+
+    expect(text).toContain(
+      `<script src='https://cdn.jsdelivr.net/npm/redoc@2/bundles/redoc.standalone.js'></script>`
+    );
+    expect(text).toContain(
+      `Redoc.init("/docs-json", {"hideDownloadButton":true}, document.getElementById('redoc-container'));`
+    );
+    await request(app.getHttpServer()).get('/docs-json').expect(200);
+    await request(app.getHttpServer())
+      .get('/docs/swagger-ui-init.js')
+      .expect(404);
+  });
+
+  it('embeds the patched document when the JSON definition is not served', async () => {
+    await setup({
+      ui: 'scalar',
+      raw: false,
+      scalarOptions: { theme: 'purple' },
+      uiScriptUrl: '/assets/scalar.js',
+      patchDocumentOnRequest: (req: any, _res, document) => ({
+        ...document,
+        info: { ...document.info, title: `Cats for ${req.query.audience}` }
+      })
+    });
+
+    const { text } = await request(app.getHttpServer())
+      .get('/docs?audience=partners')
+      .expect(200);
+
+    expect(text).toContain(`<script src='/assets/scalar.js'></script>`);
+    expect(text).toContain(
+      `Scalar.createApiReference('#app', {"theme":"purple","content":{`
+    );
+    expect(text).toContain('"title":"Cats for partners"');
+    await request(app.getHttpServer()).get('/docs-json').expect(404);
+  });
+
+  it('serves the renderer script from node_modules when installed', async () => {
+    await setup({
+      ui: 'rapidoc',
+      customSiteTitle: 'Cats <API>',
+      rapidocOptions: { renderStyle: 'read', allowTry: false }
+    });
+
+    const { text } = await request(app.getHttpServer())
+      .get('/docs/')
+      .expect(200);
+
+    expect(text).toContain('<title>Cats &lt;API&gt;</title>');
+    expect(text).toContain(
+      '<rapi-doc id="rapidoc" render-style="read" allow-try="false" spec-url="/docs-json"></rapi-doc>'
+    );
+    expect(text).toContain(
+      '<script type="module" src="/docs/rapidoc.js"></script>'
+    );
+    await request(app.getHttpServer())
+      .get('/docs/rapidoc.js')
+      .expect(200)
+      .expect('Content-Type', /application\/javascript/);
+  });
+});
@@ -0,0 +1,177 @@
+import 'reflect-metadata';
+import { Body, Controller, Get, Module, Post } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  ApiBody,
+  ApiGenericResponse,
+  ApiOkResponse,
+  ApiProperty
+} from '../../lib/decorators';
+import { DocumentBuilder } from '../../lib/document-builder';
+import { SwaggerModule } from '../../lib/swagger-module';
+import { GenericType } from '../../lib/type-helpers';
+
+describe('GenericType', () => {
+  class Paginated<T> {
+    @ApiProperty({ isArray: true })
+    items: T[];
+
+    @ApiProperty()
+    total: number;
+  }
+
+  class Envelope<T> {
+    @ApiProperty()
+    data: T;
+  }
+
+  class CatDto {
+    @ApiProperty()
+    name: string;
+  }
+
+  class DogDto {
+    @ApiProperty()
+    breed: string;
+  }
+
+  class ShelterDto {
+    @ApiProperty({ type: GenericType(Paginated, { items: DogDto }) })
+    dogs: Paginated<DogDto>;
+  }
+
+  @Controller('cats')
+  class CatsController {
+    @Get()
+    @ApiGenericResponse(Paginated, { items: CatDto })
+    findAll() {
+      return undefined;
+    }
+
+    @Post()
+    @ApiBody({ type: GenericType(Envelope, { data: CatDto }) })
+    @ApiGenericResponse(
+      Envelope,
+      { data: [CatDto] },
+      { status: 201, name: 'CatListEnvelope' }
+    )
+    create(@Body() body: Envelope<CatDto>) {
+      return body;
+    }
+
+    @Get('shelter')
+    @ApiOkResponse({ type: ShelterDto })
+    shelter() {
+      return undefined;
+    }
+  }
+
+  @Module({ controllers: [CatsController] })
+  class AppModule {}
+
+  let document: ReturnType<typeof SwaggerModule.createDocument>;
+
+  beforeAll(async () => {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    document = SwaggerModule.createDocument(app, new DocumentBuilder().build());
+    await app.close();
+  });
+
+  it('returns the same class for the same arguments', () => {
+    expect(GenericType(Paginated, { items: CatDto })).toBe(
+      GenericType(Paginated, { items: CatDto })
+    );
+    expect(GenericType(Paginated, { items: CatDto })).not.toBe(
+      GenericType(Paginated, { items: DogDto })
+    );
+    expect(GenericType(Paginated, { items: CatDto }).name).toBe(
+      'PaginatedCatDto'
+    );
+  });
+
+  it('emits a named concrete component for responses', () => {
+    expect(document.paths['/cats'].get.responses['200']).toEqual({
+      description: '',
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/PaginatedCatDto' }
+        }
+      }
+    });
+    expect(document.components.schemas.PaginatedCatDto).toEqual({
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/CatDto' }
+        },
+        total: { type: 'number' }
+      },
+      required: ['items', 'total']
+    });
+  });
+
+  it('supports request bodies, array arguments and custom names', () => {
+    const operation = document.paths['/cats'].post;
+
+    expect(operation.requestBody).toEqual({
+      required: true,
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/EnvelopeCatDto' }
+        }
+      }
+    });
+    expect(document.components.schemas.EnvelopeCatDto).toEqual({
+      type: 'object',
+      properties: { data: { $ref: '#/components/schemas/CatDto' } },
+      required: ['data']
+    });
+    expect(document.components.schemas.CatListEnvelope).toEqual({
+      type: 'object',
+      properties: {
+        data: {
+          type: 'array',
+          items: { $ref: '#/components/schemas/CatDto' }
+        }
+      },
+      required: ['data']
+    });
+  });
+
+  it('supports nested properties', () => {
+    expect(document.components.schemas.ShelterDto).toEqual({
+      type: 'object',
+      properties: {
+        dogs: { $ref: '#/components/schemas/PaginatedDogDto' }
+      },
+      required: ['dogs']
+    });
+    expect(document.components.schemas.PaginatedDogDto).toBeDefined();
+  });
+
+  it('names multi-argument types after their keys and rejects name collisions', () => {
+    class Pair<A, B> {
+      @ApiProperty()
+      first: A;
+
+      @ApiProperty()
+      second: B;
+    }
+
+    expect(GenericType(Pair, { first: CatDto, second: DogDto }).name).toBe(
+      'PairFirstCatDtoSecondDogDto'
+    );
+    expect(GenericType(Pair, { first: DogDto, second: CatDto }).name).toBe(
+      'PairFirstDogDtoSecondCatDto'
+    );
+
+    const OtherPaginated = class Paginated {};
+    expect(() => GenericType(OtherPaginated, { items: CatDto })).toThrow(
+      'GenericType(): the schema name "PaginatedCatDto" is already used by a generic type with other arguments. Pass a distinct "name" option.'
+    );
+    expect(() =>
+      GenericType(Paginated, { items: DogDto }, { name: 'PaginatedCatDto' })
+    ).toThrow('"PaginatedCatDto" is already used');
+  });
+});
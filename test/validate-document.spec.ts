@@ -0,0 +1,186 @@
+import 'reflect-metadata';
+import { Controller, Get, Logger, Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ApiOkResponse, ApiParam, ApiProperty } from '../lib/decorators';
+import { DocumentBuilder } from '../lib/document-builder';
+import { SwaggerModule } from '../lib/swagger-module';
+import { getSchemaPath } from '../lib/utils';
+import {
+  DocumentValidationError,
+  validateDocument
+} from '../lib/utils/validate-document.util';
+
+describe('Document validation', () => {
+  class PetDto {
+    @ApiProperty({ allOf: [{ $ref: getSchemaPath('MissingDto') }] })
+    owner: unknown;
+
+    @ApiProperty({ type: 'null' })
+    nothing: null;
+  }
+
+  @Controller('pets')
+  class PetsController {
+    @Get()
+    @ApiParam({ name: 'id' })
+    @ApiOkResponse({ type: PetDto })
+    list() {
+      return [];
+    }
+
+    @Get('count')
+    count() {
+      return 0;
+    }
+  }
+
+  @Module({ controllers: [PetsController] })
+  class AppModule {}
+
+  const config = new DocumentBuilder()
+    .setTitle('t')
+    .setVersion('1')
+    .setOpenAPIVersion('3.0.0')
+    .build();
+
+  it('reports structured diagnostics with controller and method names', async () => {
+    const app = await NestFactory.create(AppModule, { logger: false });
+
+    let error: DocumentValidationError | undefined;
+    try {
+      SwaggerModule.createDocument(app, config, {
+        validate: 'error',
+        operationIdFactory: () => 'sameId'
+      });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(DocumentValidationError);
+    expect(error.diagnostics).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          code: 'unresolved-ref',
+          pointer: '/components/schemas/PetDto/properties/owner/allOf/0/$ref'
+        }),
+        expect.objectContaining({
+          code: 'null-type-in-oas30',
+          pointer: '/components/schemas/PetDto/properties/nothing/type'
+        }),
+        expect.objectContaining({
+          code: 'path-param-not-in-template',
+          pointer: '/paths/~1pets/get/parameters/0',
+          controller: 'PetsController',
+          method: 'list'
+        }),
+        expect.objectContaining({
+          code: 'duplicate-operation-id',
+          pointer: '/paths/~1pets~1count/get/operationId',
+          controller: 'PetsController',
+          method: 'count'
+        })
+      ])
+    );
+
+    await app.close();
+  });
+
+  it('logs diagnostics in "warn" mode', async () => {
+    const app = await NestFactory.create(AppModule, { logger: false });
+    const warn = jest
+      .spyOn(Logger.prototype, 'warn')
+      .mockImplementation(() => undefined);
+
+    const document = SwaggerModule.createDocument(app, config, {
+      validate: 'warn'
+    });
+
+    expect(document.paths['/pets']).toBeDefined();
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('[PetsController.list] Path parameter "id"')
+    );
+
+    warn.mockRestore();
+    await app.close();
+  });
+
+  it('accepts version-specific keywords for OAS 3.1+', () => {
+    const diagnostics = validateDocument({
+      openapi: '3.1.0',
+      info: { title: 't', version: '1' },
+      paths: {
+        '/items/{id}': {
+          get: {
+            parameters: [{ name: 'id', in: 'path', required: true }],
+            responses: {
+              default: {
+                description: '',
+                content: {
+                  'application/json': {
+                    schema: { type: ['string', 'null'] }
+                  }
+                }
+              }
+            }
+          }
+        }
+      },
+      webhooks: {
+        created: { post: { responses: {} } }
+      }
+    });
+
+    expect(diagnostics).toEqual([]);
+  });
+
+  it('flags OAS 3.2 features in older documents', () => {
+    const diagnostics = validateDocument({
+      openapi: '3.1.0',
+      info: { title: 't', version: '1' },
+      paths: {
+        '/search': {
+          query: {
+            responses: {
+              '200': {
+                description: '',
+                content: { 'text/event-stream': { itemSchema: {} } }
+              }
+            }
+          }
+        }
+      }
+    });
+
+    expect(diagnostics.map((diagnostic) => diagnostic.pointer)).toEqual([
+      '/paths/~1search/query',
+      '/paths/~1search/query/responses/200/content/text~1event-stream/itemSchema'
+    ]);
+  });
+
+  it('resolves referenced parameters', () => {
+    const diagnostics = validateDocument({
+      openapi: '3.0.0',
+      info: { title: 't', version: '1' },
+      paths: {
+        '/pets': {
+          get: {
+            parameters: [{ $ref: '#/components/parameters/PetId' }],
+            responses: { '200': { description: '' } }
+          }
+        }
+      },
+      components: {
+        parameters: {
+          PetId: { name: 'id', in: 'path', required: true }
+        }
+      }
+    });
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        code: 'path-param-not-in-template',
+        pointer: '/paths/~1pets/get/parameters/0'
+      })
+    ]);
+  });
+});